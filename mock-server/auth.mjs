@@ -0,0 +1,281 @@
+// Local mock of the backend auth endpoints, for exercising login, session
+// renewal and two-factor flows without the real API.
+//
+//   npm run mock:auth
+//   VITE_API_BASE_URL=http://localhost:4010/api npm run dev
+//
+// Users: admin / password (2FA off) and secure / password (2FA on, secret
+// printed at startup). Tokens expire after MOCK_TOKEN_TTL seconds (default 300).
+import http from 'node:http'
+import crypto from 'node:crypto'
+
+const PORT = Number(process.env.PORT || 4010)
+const TOKEN_TTL = Number(process.env.MOCK_TOKEN_TTL || 300)
+const CHALLENGE_TTL = 300
+const JWT_SECRET = 'mock-auth-secret'
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+const base32Encode = buffer => {
+  let bits = 0
+  let value = 0
+  let output = ''
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32[(value << (5 - bits)) & 31]
+  return output
+}
+
+const base32Decode = input => {
+  let bits = 0
+  let value = 0
+  const bytes = []
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32.indexOf(char)
+    if (index === -1) continue
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+// RFC 6238: HMAC-SHA1, 30 second step, 6 digits
+const totp = (secret, counter) => {
+  const message = Buffer.alloc(8)
+  message.writeBigUInt64BE(BigInt(counter))
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(message).digest()
+  const offset = hmac[hmac.length - 1] & 15
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000
+  return String(code).padStart(6, '0')
+}
+
+const verifyTotp = (secret, code) => {
+  const counter = Math.floor(Date.now() / 30_000)
+  const normalized = String(code || '').replace(/\s/g, '')
+  return [-1, 0, 1].some(drift => totp(secret, counter + drift) === normalized)
+}
+
+const base64url = value => Buffer.from(value).toString('base64url')
+
+const signJwt = payload => {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+  const body = base64url(JSON.stringify(payload))
+  const signature = crypto.createHmac('sha256', JWT_SECRET).update(`${header}.${body}`).digest('base64url')
+  return `${header}.${body}.${signature}`
+}
+
+const verifyJwt = token => {
+  const [header, body, signature] = String(token || '').split('.')
+  if (!signature) return null
+  const expected = crypto.createHmac('sha256', JWT_SECRET).update(`${header}.${body}`).digest('base64url')
+  if (signature !== expected) return null
+  const payload = JSON.parse(Buffer.from(body, 'base64url').toString())
+  return payload.exp * 1000 > Date.now() ? payload : null
+}
+
+const generateBackupCodes = () =>
+  Array.from({ length: 10 }, () => {
+    const raw = crypto.randomBytes(5).toString('hex')
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`
+  })
+
+const users = [
+  { _id: 'u1', username: 'admin', email: 'admin@example.com', password: 'password', role: 'admin', twoFactor: null },
+  {
+    _id: 'u2',
+    username: 'secure',
+    email: 'secure@example.com',
+    password: 'password',
+    role: 'editor',
+    twoFactor: { secret: 'JBSWY3DPEHPK3PXP', backupCodes: generateBackupCodes() },
+  },
+]
+const pendingSecrets = new Map()
+const challenges = new Map()
+const refreshTokens = new Map()
+
+// Same shape as the real auth payload (AuthUser): the client reads user.id
+const publicUser = user => ({
+  id: user._id,
+  username: user.username,
+  email: user.email,
+  role: user.role,
+  status: 'active',
+})
+
+const issueSession = user => {
+  const now = Math.floor(Date.now() / 1000)
+  const token = signJwt({ sub: user._id, iat: now, exp: now + TOKEN_TTL })
+  const refreshToken = crypto.randomBytes(24).toString('hex')
+  refreshTokens.set(refreshToken, user._id)
+  return { token, refreshToken, user: publicUser(user) }
+}
+
+const useBackupCode = (user, code) => {
+  const index = user.twoFactor.backupCodes.indexOf(String(code || '').trim().toLowerCase())
+  if (index === -1) return false
+  user.twoFactor.backupCodes.splice(index, 1)
+  return true
+}
+
+const checkSecondFactor = (user, code) => verifyTotp(user.twoFactor.secret, code) || useBackupCode(user, code)
+
+const twoFactorStatus = user => ({
+  enabled: !!user.twoFactor,
+  backupCodesRemaining: user.twoFactor ? user.twoFactor.backupCodes.length : 0,
+})
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+const readBody = req =>
+  new Promise(resolve => {
+    let raw = ''
+    req.on('data', chunk => (raw += chunk))
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {})
+      } catch {
+        resolve({})
+      }
+    })
+  })
+
+const authenticate = req => {
+  const payload = verifyJwt(req.headers.authorization?.replace(/^Bearer /, ''))
+  return payload ? users.find(user => user._id === payload.sub) : null
+}
+
+const routes = {
+  'POST /auth/login': async (req, res) => {
+    const { username, password } = await readBody(req)
+    const user = users.find(candidate => candidate.username === username && candidate.password === password)
+    if (!user) return send(res, 401, { message: 'Invalid username or password' })
+    if (user.twoFactor) {
+      const challengeToken = crypto.randomBytes(16).toString('hex')
+      challenges.set(challengeToken, { userId: user._id, expiresAt: Date.now() + CHALLENGE_TTL * 1000 })
+      return send(res, 200, { twoFactorRequired: true, challengeToken })
+    }
+    send(res, 200, issueSession(user))
+  },
+
+  'POST /auth/2fa/verify': async (req, res) => {
+    const { challengeToken, code, recoveryCode } = await readBody(req)
+    const challenge = challenges.get(challengeToken)
+    if (!challenge || challenge.expiresAt < Date.now()) {
+      challenges.delete(challengeToken)
+      return send(res, 401, { message: 'Sign-in attempt expired, please log in again' })
+    }
+    const user = users.find(candidate => candidate._id === challenge.userId)
+    const valid = recoveryCode ? useBackupCode(user, recoveryCode) : verifyTotp(user.twoFactor.secret, code)
+    if (!valid) return send(res, 401, { message: 'Invalid authentication code' })
+    challenges.delete(challengeToken)
+    send(res, 200, issueSession(user))
+  },
+
+  'GET /auth/verify': (req, res) => {
+    const user = authenticate(req)
+    if (!user) return send(res, 401, { message: 'Invalid or expired token' })
+    send(res, 200, { user: publicUser(user) })
+  },
+
+  'POST /auth/refresh': async (req, res) => {
+    const { refreshToken } = await readBody(req)
+    const userId = refreshTokens.get(refreshToken)
+    if (!userId) return send(res, 401, { message: 'Invalid refresh token' })
+    // Rotate: each refresh token works exactly once
+    refreshTokens.delete(refreshToken)
+    const { token, refreshToken: nextRefreshToken } = issueSession(users.find(user => user._id === userId))
+    send(res, 200, { token, refreshToken: nextRefreshToken })
+  },
+
+  'POST /auth/logout': async (req, res) => {
+    const { refreshToken } = await readBody(req)
+    refreshTokens.delete(refreshToken)
+    send(res, 200, { success: true })
+  },
+
+  'GET /auth/2fa': (req, res, user) => send(res, 200, { success: true, data: twoFactorStatus(user) }),
+
+  'POST /auth/2fa/setup': (req, res, user) => {
+    if (user.twoFactor) return send(res, 400, { message: 'Two-factor authentication is already enabled' })
+    const secret = base32Encode(crypto.randomBytes(20))
+    pendingSecrets.set(user._id, secret)
+    const otpauthUrl = `otpauth://totp/${encodeURIComponent(`TheFunnelEffect CMS:${user.email}`)}?secret=${secret}&issuer=${encodeURIComponent('TheFunnelEffect CMS')}`
+    send(res, 200, { success: true, data: { secret, otpauthUrl } })
+  },
+
+  'POST /auth/2fa/enable': async (req, res, user) => {
+    const { code } = await readBody(req)
+    const secret = pendingSecrets.get(user._id)
+    if (!secret) return send(res, 400, { message: 'Start two-factor setup first' })
+    if (!verifyTotp(secret, code)) return send(res, 400, { message: 'Invalid authentication code' })
+    pendingSecrets.delete(user._id)
+    user.twoFactor = { secret, backupCodes: generateBackupCodes() }
+    send(res, 200, { success: true, data: { backupCodes: [...user.twoFactor.backupCodes] } })
+  },
+
+  'POST /auth/2fa/disable': async (req, res, user) => {
+    const { code } = await readBody(req)
+    if (!user.twoFactor || !checkSecondFactor(user, code)) {
+      return send(res, 400, { message: 'Invalid authentication code' })
+    }
+    user.twoFactor = null
+    send(res, 200, { success: true, data: twoFactorStatus(user) })
+  },
+
+  'POST /auth/2fa/backup-codes': async (req, res, user) => {
+    const { code } = await readBody(req)
+    if (!user.twoFactor || !checkSecondFactor(user, code)) {
+      return send(res, 400, { message: 'Invalid authentication code' })
+    }
+    user.twoFactor.backupCodes = generateBackupCodes()
+    send(res, 200, { success: true, data: { backupCodes: [...user.twoFactor.backupCodes] } })
+  },
+}
+
+const PUBLIC_ROUTES = new Set(['POST /auth/login', 'POST /auth/2fa/verify', 'GET /auth/verify', 'POST /auth/refresh', 'POST /auth/logout'])
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS')
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204)
+    return res.end()
+  }
+
+  const path = new URL(req.url, `http://localhost:${PORT}`).pathname.replace(/^\/api/, '')
+  const key = `${req.method} ${path}`
+  const handler = routes[key]
+  if (!handler) return send(res, 404, { message: `No mock for ${key}` })
+
+  const user = PUBLIC_ROUTES.has(key) ? null : authenticate(req)
+  if (!PUBLIC_ROUTES.has(key) && !user) return send(res, 401, { message: 'Invalid or expired token' })
+
+  try {
+    await handler(req, res, user)
+  } catch (error) {
+    console.error(error)
+    send(res, 500, { message: 'Mock server error' })
+  }
+})
+
+server.listen(PORT, () => {
+  const secure = users.find(user => user.username === 'secure')
+  console.log(`Mock auth server on http://localhost:${PORT}/api (token TTL ${TOKEN_TTL}s)`)
+  console.log(`  admin / password   (no 2FA)`)
+  console.log(`  secure / password  (2FA secret ${secure.twoFactor.secret})`)
+  console.log(`  recovery codes for secure: ${secure.twoFactor.backupCodes.join(' ')}`)
+})
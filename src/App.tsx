@@ -1,7 +1,8 @@
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
+import { createBrowserRouter, RouterProvider, Routes, Route } from 'react-router-dom'
 import { Box } from '@mui/material'
 import { AuthProvider } from './contexts/AuthContext'
 import ProtectedRoute from './components/ProtectedRoute'
+import RequirePermission from './components/RequirePermission'
 import Layout from './components/Layout'
 import Login from './pages/Login'
 import Signup from './pages/Signup'
@@ -18,42 +19,68 @@ import Images from './pages/Images'
 import Audios from './pages/Audios'
 import FolderAudios from './pages/FolderAudios'
 import ContactList from './pages/ContactList'
+import ContactDetail from './pages/ContactDetail'
+import PromptTemplates from './pages/PromptTemplates'
+import GroupList from './pages/GroupList'
+import Taxonomy from './pages/Taxonomy'
+import Redirects from './pages/Redirects'
+import Trash from './pages/Trash'
+import UserList from './pages/UserList'
+import AccountSecurity from './pages/AccountSecurity'
+
+function AppRoutes() {
+  return (
+    <Box sx={{ minHeight: '100vh'}}>
+      <Routes>
+        <Route path="/login" element={<Login />} />
+        <Route path="/signup" element={<Signup />} />
+        <Route path="/*" element={
+          <ProtectedRoute>
+            <Layout>
+              <Routes>
+                <Route path="/" element={<Dashboard />} />
+                <Route path="/pages" element={<PageList />} />
+                <Route path="/pages/trash" element={<RequirePermission permission="pages.delete"><Trash type="pages" /></RequirePermission>} />
+                <Route path="/pages/new" element={<RequirePermission permission="pages.create"><PageForm /></RequirePermission>} />
+                <Route path="/pages/edit/:id" element={<RequirePermission permission="pages.edit"><PageForm /></RequirePermission>} />
+                <Route path="/pages/preview/:slug" element={<PagePreview />} />
+                <Route path="/tracks" element={<TrackList />} />
+                <Route path="/tracks/trash" element={<RequirePermission permission="tracks.delete"><Trash type="tracks" /></RequirePermission>} />
+                <Route path="/tracks/new" element={<RequirePermission permission="tracks.edit"><TrackForm /></RequirePermission>} />
+                <Route path="/tracks/:id/edit" element={<RequirePermission permission="tracks.edit"><TrackForm /></RequirePermission>} />
+                <Route path="/playlists" element={<PlaylistList />} />
+                <Route path="/playlists/trash" element={<RequirePermission permission="playlists.delete"><Trash type="playlists" /></RequirePermission>} />
+                <Route path="/playlists/new" element={<RequirePermission permission="playlists.edit"><PlaylistForm /></RequirePermission>} />
+                <Route path="/playlists/:id" element={<PlaylistDetail />} />
+                <Route path="/playlists/:id/edit" element={<RequirePermission permission="playlists.edit"><PlaylistForm /></RequirePermission>} />
+                <Route path="/images" element={<Images />} />
+                <Route path="/audios" element={<Audios />} />
+                <Route path="/audios/folder/:folderPath" element={<FolderAudios />} />
+                <Route path="/contacts" element={<RequirePermission permission="contacts.view"><ContactList /></RequirePermission>} />
+                <Route path="/contacts/trash" element={<RequirePermission permission="contacts.delete"><Trash type="contacts" /></RequirePermission>} />
+                <Route path="/contacts/:id" element={<RequirePermission permission="contacts.view"><ContactDetail /></RequirePermission>} />
+                <Route path="/prompt-templates" element={<RequirePermission permission="promptTemplates.manage"><PromptTemplates /></RequirePermission>} />
+                <Route path="/groups" element={<RequirePermission permission="groups.manage"><GroupList /></RequirePermission>} />
+                <Route path="/taxonomy" element={<RequirePermission permission="taxonomy.manage"><Taxonomy /></RequirePermission>} />
+                <Route path="/redirects" element={<RequirePermission permission="redirects.manage"><Redirects /></RequirePermission>} />
+                <Route path="/users" element={<RequirePermission permission="users.manage"><UserList /></RequirePermission>} />
+                <Route path="/account/security" element={<AccountSecurity />} />
+              </Routes>
+            </Layout>
+          </ProtectedRoute>
+        } />
+      </Routes>
+    </Box>
+  )
+}
+
+// Data router so screens can block navigation (e.g. unsaved changes in the page editor)
+const router = createBrowserRouter([{ path: '*', element: <AppRoutes /> }])
 
 function App() {
   return (
     <AuthProvider>
-      <Router>
-        <Box sx={{ minHeight: '100vh'}}>
-          <Routes>
-            <Route path="/login" element={<Login />} />
-            <Route path="/signup" element={<Signup />} />
-            <Route path="/*" element={
-              <ProtectedRoute>
-                <Layout>
-                  <Routes>
-                    <Route path="/" element={<Dashboard />} />
-                    <Route path="/pages" element={<PageList />} />
-                    <Route path="/pages/new" element={<PageForm />} />
-                    <Route path="/pages/edit/:id" element={<PageForm />} />
-                    <Route path="/pages/preview/:slug" element={<PagePreview />} />
-                    <Route path="/tracks" element={<TrackList />} />
-                    <Route path="/tracks/new" element={<TrackForm />} />
-                    <Route path="/tracks/:id/edit" element={<TrackForm />} />
-                    <Route path="/playlists" element={<PlaylistList />} />
-                    <Route path="/playlists/new" element={<PlaylistForm />} />
-                    <Route path="/playlists/:id" element={<PlaylistDetail />} />
-                    <Route path="/playlists/:id/edit" element={<PlaylistForm />} />
-                    <Route path="/images" element={<Images />} />
-                    <Route path="/audios" element={<Audios />} />
-                    <Route path="/audios/folder/:folderPath" element={<FolderAudios />} />
-                    <Route path="/contacts" element={<ContactList />} />
-                  </Routes>
-                </Layout>
-              </ProtectedRoute>
-            } />
-          </Routes>
-        </Box>
-      </Router>
+      <RouterProvider router={router} />
     </AuthProvider>
   )
 }
@@ -0,0 +1,108 @@
+import React from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Alert,
+  CircularProgress,
+} from "@mui/material";
+import { sanitizeHtml } from "../utils/sanitizeHtml";
+
+interface AIRewritePreviewDialogProps {
+  open: boolean;
+  title: string;
+  original: string;
+  proposed: string;
+  generating: boolean;
+  error: string | null;
+  onAccept: () => void;
+  onReject: () => void;
+  onRegenerate: () => void;
+}
+
+const previewSx = {
+  border: "1px solid #e0e0e0",
+  borderRadius: "8px",
+  p: 2,
+  maxHeight: 360,
+  overflow: "auto",
+  fontSize: 14,
+  "& img": { maxWidth: "100%" },
+};
+
+const AIRewritePreviewDialog: React.FC<AIRewritePreviewDialogProps> = ({
+  open,
+  title,
+  original,
+  proposed,
+  generating,
+  error,
+  onAccept,
+  onReject,
+  onRegenerate,
+}) => (
+  <Dialog open={open} onClose={onReject} maxWidth="lg" fullWidth>
+    <DialogTitle>{title}</DialogTitle>
+    <DialogContent>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: { xs: "1fr", md: "1fr 1fr" },
+          gap: 2,
+        }}
+      >
+        <Box>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            Selected text
+          </Typography>
+          <Box sx={{ ...previewSx, bgcolor: "grey.50" }} dangerouslySetInnerHTML={{ __html: sanitizeHtml(original) }} />
+        </Box>
+        <Box>
+          <Typography
+            variant="subtitle2"
+            sx={{ mb: 1, display: "flex", alignItems: "center", gap: 1 }}
+          >
+            Suggestion
+            {generating && <CircularProgress size={14} />}
+          </Typography>
+          <Box sx={previewSx} dangerouslySetInnerHTML={{ __html: sanitizeHtml(proposed) }} />
+        </Box>
+      </Box>
+    </DialogContent>
+    <DialogActions>
+      <Button
+        onClick={onReject}
+        color="error"
+        sx={{ borderRadius: "8px", textTransform: "none" }}
+      >
+        Reject
+      </Button>
+      <Button
+        onClick={onRegenerate}
+        disabled={generating}
+        sx={{ borderRadius: "8px", textTransform: "none" }}
+      >
+        Try again
+      </Button>
+      <Button
+        onClick={onAccept}
+        variant="contained"
+        disabled={generating || !proposed.trim()}
+        sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+      >
+        Replace selection
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default AIRewritePreviewDialog;
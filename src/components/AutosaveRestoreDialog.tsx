@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  ToggleButton,
+  ToggleButtonGroup,
+} from "@mui/material";
+import DiffView from "./DiffView";
+import type { DiffMode } from "../utils/diff";
+import type { CreatePageData } from "../types";
+import {
+  PAGE_FIELD_LABELS,
+  fieldToText,
+  changedPageFields,
+} from "../utils/pageFields";
+
+interface AutosaveRestoreDialogProps {
+  open: boolean;
+  savedAt: number;
+  draft: CreatePageData;
+  server: CreatePageData;
+  serverLabel: string;
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+const AutosaveRestoreDialog: React.FC<AutosaveRestoreDialogProps> = ({
+  open,
+  savedAt,
+  draft,
+  server,
+  serverLabel,
+  onRestore,
+  onDiscard,
+}) => {
+  const [mode, setMode] = useState<DiffMode>("text");
+  const changed = changedPageFields(draft, server);
+
+  return (
+    <Dialog open={open} maxWidth="lg" fullWidth>
+      <DialogTitle>Restore unsaved changes?</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          We found changes to this page that were saved locally on{" "}
+          {new Date(savedAt).toLocaleString()} but never saved to the server.
+        </DialogContentText>
+
+        <Box sx={{ display: "flex", justifyContent: "flex-end", mb: 2 }}>
+          <ToggleButtonGroup
+            value={mode}
+            exclusive
+            size="small"
+            onChange={(_, value) => value && setMode(value)}
+          >
+            <ToggleButton value="text" sx={{ textTransform: "none" }}>
+              Text
+            </ToggleButton>
+            <ToggleButton value="html" sx={{ textTransform: "none" }}>
+              HTML
+            </ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
+        {changed.map((key) => (
+          <Box key={key} sx={{ mb: 3 }}>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              {PAGE_FIELD_LABELS[key]}
+            </Typography>
+            <DiffView
+              left={fieldToText(server[key])}
+              right={fieldToText(draft[key])}
+              mode={key === "content" ? mode : "text"}
+              leftLabel={serverLabel}
+              rightLabel="Unsaved changes"
+              maxHeight={300}
+            />
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={onDiscard}
+          color="error"
+          sx={{
+            borderRadius: "8px",
+            textTransform: "none",
+          }}
+        >
+          Discard
+        </Button>
+        <Button
+          onClick={onRestore}
+          variant="contained"
+          sx={{
+            borderRadius: "8px",
+            textTransform: "none",
+            fontWeight: 500,
+          }}
+        >
+          Restore changes
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default AutosaveRestoreDialog;
@@ -0,0 +1,56 @@
+import React from "react";
+import { Autocomplete, TextField, createFilterOptions } from "@mui/material";
+import { useTaxonomy } from "../hooks/useTaxonomy";
+
+interface CategoryAutocompleteProps {
+  value: string;
+  onChange: (category: string) => void;
+  placeholder?: string;
+  error?: boolean;
+  helperText?: React.ReactNode;
+}
+
+// Free-text category that suggests canonical categories and snaps synonyms to them on blur
+const CategoryAutocomplete: React.FC<CategoryAutocompleteProps> = ({
+  value,
+  onChange,
+  placeholder = "Enter category",
+  error,
+  helperText,
+}) => {
+  const { terms, options, resolve } = useTaxonomy("category");
+
+  const filterOptions = createFilterOptions<string>({
+    stringify: (option) =>
+      [option, ...(terms.find((term) => term.name === option)?.synonyms || [])].join(" "),
+  });
+
+  return (
+    <Autocomplete
+      freeSolo
+      options={options}
+      filterOptions={filterOptions}
+      inputValue={value}
+      onInputChange={(_event, input, reason) => {
+        if (reason !== "reset") onChange(input);
+      }}
+      onChange={(_event, option) => onChange(option ? resolve(option) : "")}
+      onBlur={() => value && onChange(resolve(value))}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          placeholder={placeholder}
+          error={error}
+          helperText={helperText}
+          sx={{
+            "& .MuiOutlinedInput-root": {
+              borderRadius: "8px",
+            },
+          }}
+        />
+      )}
+    />
+  );
+};
+
+export default CategoryAutocomplete;
@@ -15,47 +15,32 @@ import {
   Cell,
   AreaChart,
   Area,
+  Legend,
 } from "recharts";
+import type { PageStatus } from "../types";
+import type { DashboardSeriesPoint } from "../store/slices/dashboardSlice";
+import { PAGE_STATUSES, PAGE_STATUS_LABELS } from "../utils/pageStatus";
 
 interface ChartsProps {
   loading?: boolean;
+  series: DashboardSeriesPoint[];
+  statusCounts: Record<PageStatus, number>;
 }
 
-const Charts: React.FC<ChartsProps> = ({ loading = false }) => {
-  // Hard coded data for charts
-  const barData = [
-    { name: "Mon", views: 400 },
-    { name: "Tue", views: 300 },
-    { name: "Wed", views: 500 },
-    { name: "Thu", views: 280 },
-    { name: "Fri", views: 590 },
-    { name: "Sat", views: 320 },
-    { name: "Sun", views: 450 },
-  ];
-
-  const lineData = [
-    { name: "Jan", users: 400 },
-    { name: "Feb", users: 300 },
-    { name: "Mar", users: 600 },
-    { name: "Apr", users: 800 },
-    { name: "May", users: 500 },
-    { name: "Jun", users: 700 },
-  ];
-
-  const pieData = [
-    { name: "Published", value: 60, color: "#2196f3" },
-    { name: "Draft", value: 30, color: "#4caf50" },
-    { name: "Archived", value: 10, color: "#ff9800" },
-  ];
+const STATUS_CHART_COLORS: Record<PageStatus, string> = {
+  draft: "#9e9e9e",
+  in_review: "#03a9f4",
+  scheduled: "#ff9800",
+  published: "#4caf50",
+  archived: "#9c27b0",
+};
 
-  const areaData = [
-    { name: "Jan", revenue: 4000 },
-    { name: "Feb", revenue: 3000 },
-    { name: "Mar", revenue: 5000 },
-    { name: "Apr", revenue: 4500 },
-    { name: "May", revenue: 6000 },
-    { name: "Jun", revenue: 5500 },
-  ];
+const Charts: React.FC<ChartsProps> = ({ loading = false, series, statusCounts }) => {
+  const pieData = PAGE_STATUSES.map((status) => ({
+    name: PAGE_STATUS_LABELS[status],
+    value: statusCounts[status],
+    color: STATUS_CHART_COLORS[status],
+  })).filter((entry) => entry.value > 0);
 
   return (
     <Box sx={{ mt: 6 }}>
@@ -69,18 +54,21 @@ const Charts: React.FC<ChartsProps> = ({ loading = false }) => {
             gutterBottom
             sx={{ mb: 2, fontSize: "13px" }}
           >
-            Page Views This Week
+            Content Created
           </Typography>
           {loading ? (
             <Skeleton variant="rectangular" width="100%" height={250} sx={{ borderRadius: 1 }} />
           ) : (
             <ResponsiveContainer width="100%" height={250}>
-              <BarChart data={barData}>
+              <BarChart data={series}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" />
-                <YAxis />
+                <XAxis dataKey="label" />
+                <YAxis allowDecimals={false} />
                 <Tooltip />
-                <Bar dataKey="views" fill="#2196f3" radius={[4, 4, 0, 0]} />
+                <Legend />
+                <Bar dataKey="pages" name="Pages" stackId="content" fill="#2196f3" />
+                <Bar dataKey="tracks" name="Tracks" stackId="content" fill="#ff5722" />
+                <Bar dataKey="playlists" name="Playlists" stackId="content" fill="#673ab7" radius={[4, 4, 0, 0]} />
               </BarChart>
             </ResponsiveContainer>
           )}
@@ -91,20 +79,21 @@ const Charts: React.FC<ChartsProps> = ({ loading = false }) => {
             gutterBottom
             sx={{ mb: 2, fontSize: "13px" }}
           >
-            User Growth Trend
+            New Contacts
           </Typography>
           {loading ? (
             <Skeleton variant="rectangular" width="100%" height={250} sx={{ borderRadius: 1 }} />
           ) : (
             <ResponsiveContainer width="100%" height={250}>
-              <LineChart data={lineData}>
+              <LineChart data={series}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" />
-                <YAxis />
+                <XAxis dataKey="label" />
+                <YAxis allowDecimals={false} />
                 <Tooltip />
                 <Line
                   type="monotone"
-                  dataKey="users"
+                  dataKey="contacts"
+                  name="Contacts"
                   stroke="#4caf50"
                   strokeWidth={3}
                   dot={{ fill: "#4caf50", strokeWidth: 2, r: 4 }}
@@ -124,6 +113,10 @@ const Charts: React.FC<ChartsProps> = ({ loading = false }) => {
           </Typography>
           {loading ? (
             <Skeleton variant="circular" width={160} height={160} sx={{ mx: "auto", mt: 2 }} />
+          ) : pieData.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: "center" }}>
+              No pages yet
+            </Typography>
           ) : (
             <ResponsiveContainer width="100%" height={250}>
               <PieChart>
@@ -156,24 +149,34 @@ const Charts: React.FC<ChartsProps> = ({ loading = false }) => {
             gutterBottom
             sx={{ fontSize: "13px", mb: 2 }}
           >
-            Revenue Trend
+            Media Uploads
           </Typography>
           {loading ? (
             <Skeleton variant="rectangular" width="100%" height={250} sx={{ borderRadius: 1 }} />
           ) : (
             <ResponsiveContainer width="100%" height={250}>
-              <AreaChart data={areaData}>
+              <AreaChart data={series}>
                 <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="name" />
-                <YAxis />
+                <XAxis dataKey="label" />
+                <YAxis allowDecimals={false} />
                 <Tooltip />
+                <Legend />
                 <Area
                   type="monotone"
-                  dataKey="revenue"
+                  dataKey="images"
+                  name="Images"
                   stroke="#9c27b0"
                   fill="#9c27b0"
                   fillOpacity={0.3}
                 />
+                <Area
+                  type="monotone"
+                  dataKey="audios"
+                  name="Audios"
+                  stroke="#00bcd4"
+                  fill="#00bcd4"
+                  fillOpacity={0.3}
+                />
               </AreaChart>
             </ResponsiveContainer>
           )}
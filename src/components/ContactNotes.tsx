@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Tooltip,
+} from "@mui/material";
+import { Delete as DeleteIcon } from "@mui/icons-material";
+import type { ContactNote } from "../types";
+
+interface ContactNotesProps {
+  notes: ContactNote[];
+  canEdit: boolean;
+  onAdd: (body: string) => Promise<unknown>;
+  onDelete: (noteId: string) => void;
+}
+
+// Internal notes on a contact, newest first; never shown to the contact
+const ContactNotes: React.FC<ContactNotesProps> = ({
+  notes,
+  canEdit,
+  onAdd,
+  onDelete,
+}) => {
+  const [body, setBody] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async () => {
+    if (!body.trim()) return;
+    setSaving(true);
+    try {
+      await onAdd(body.trim());
+      setBody("");
+    } catch (error) {
+      console.error("Error adding note:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sorted = [...notes].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+  return (
+    <Box>
+      {canEdit && (
+        <Box sx={{ mb: 2 }}>
+          <TextField
+            placeholder="Add an internal note..."
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            multiline
+            minRows={2}
+            fullWidth
+            size="small"
+          />
+          <Box sx={{ display: "flex", justifyContent: "flex-end", mt: 1 }}>
+            <Button
+              variant="contained"
+              size="small"
+              onClick={handleAdd}
+              disabled={saving || !body.trim()}
+              sx={{ borderRadius: "8px", textTransform: "none" }}
+            >
+              Add note
+            </Button>
+          </Box>
+        </Box>
+      )}
+
+      {sorted.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No notes yet.
+        </Typography>
+      ) : (
+        sorted.map((note) => (
+          <Box
+            key={note._id}
+            sx={{
+              display: "flex",
+              gap: 1,
+              py: 1,
+              borderBottom: "1px solid #e0e0e0",
+            }}
+          >
+            <Box sx={{ flexGrow: 1 }}>
+              <Typography variant="body2" sx={{ whiteSpace: "pre-wrap" }}>
+                {note.body}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {note.author ? `${note.author} · ` : ""}
+                {new Date(note.createdAt).toLocaleString()}
+              </Typography>
+            </Box>
+            {canEdit && (
+              <Tooltip title="Delete note">
+                <IconButton size="small" onClick={() => onDelete(note._id)}>
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+          </Box>
+        ))
+      )}
+    </Box>
+  );
+};
+
+export default ContactNotes;
@@ -0,0 +1,239 @@
+import React, { useState } from "react";
+import {
+  Box,
+  TextField,
+  Button,
+  MenuItem,
+  Chip,
+  Typography,
+  Alert,
+  FormControlLabel,
+  Switch,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from "@mui/material";
+import { Send as SendIcon, Save as SaveIcon } from "@mui/icons-material";
+import { useAppDispatch } from "../store/hooks";
+import { sendContactReply } from "../store/slices/contactsSlice";
+import { createReplyTemplate } from "../store/slices/replyTemplatesSlice";
+import { useReplyTemplates } from "../hooks/useReplyTemplates";
+import { usePermission } from "../hooks/usePermission";
+import {
+  REPLY_MERGE_FIELDS,
+  renderReplyTemplate,
+  unknownMergeFields,
+} from "../utils/replyTemplates";
+import type { Contact } from "../types";
+
+interface ContactReplyComposerProps {
+  contact: Contact;
+  onSent?: () => void;
+}
+
+// Write an email reply to a contact, optionally starting from a template with merge fields
+const ContactReplyComposer: React.FC<ContactReplyComposerProps> = ({
+  contact,
+  onSent,
+}) => {
+  const dispatch = useAppDispatch();
+  const canEdit = usePermission("contacts.edit");
+  const { templates } = useReplyTemplates();
+  const [templateId, setTemplateId] = useState("");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [preview, setPreview] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [bodyInput, setBodyInput] = useState<HTMLTextAreaElement | null>(null);
+
+  const unknownFields = unknownMergeFields(`${subject}\n${body}`);
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find((item) => item._id === id);
+    if (template) {
+      setSubject(template.subject);
+      setBody(template.body);
+    }
+  };
+
+  // Insert the placeholder where the cursor is, or at the end when the body isn't focused
+  const insertField = (field: string) => {
+    const token = `{{${field}}}`;
+    const start = bodyInput?.selectionStart ?? body.length;
+    const end = bodyInput?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + token + body.slice(end));
+    setPreview(false);
+  };
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      await dispatch(
+        sendContactReply({
+          id: contact._id,
+          reply: {
+            subject: renderReplyTemplate(subject, contact),
+            body: renderReplyTemplate(body, contact),
+          },
+        })
+      ).unwrap();
+      setTemplateId("");
+      setSubject("");
+      setBody("");
+      setPreview(false);
+      onSent?.();
+    } catch (error) {
+      console.error("Error sending reply:", error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    try {
+      const saved = await dispatch(
+        createReplyTemplate({ name: templateName.trim(), subject, body })
+      ).unwrap();
+      setTemplateId(saved._id);
+      setSaveOpen(false);
+      setTemplateName("");
+    } catch (error) {
+      console.error("Error saving reply template:", error);
+    }
+  };
+
+  if (!canEdit) return null;
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+      <TextField
+        select
+        label="Template"
+        value={templateId}
+        onChange={(e) => handleTemplateChange(e.target.value)}
+        size="small"
+        fullWidth
+      >
+        <MenuItem value="">
+          <em>Blank reply</em>
+        </MenuItem>
+        {templates.map((template) => (
+          <MenuItem key={template._id} value={template._id}>
+            {template.name}
+            {template.builtIn ? " (built-in)" : ""}
+          </MenuItem>
+        ))}
+      </TextField>
+
+      <TextField
+        label="Subject"
+        value={preview ? renderReplyTemplate(subject, contact) : subject}
+        onChange={(e) => setSubject(e.target.value)}
+        InputProps={{ readOnly: preview }}
+        size="small"
+        fullWidth
+      />
+
+      <Box>
+        <Box sx={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 1, mb: 1 }}>
+          <Typography variant="caption" color="text.secondary">
+            Insert:
+          </Typography>
+          {REPLY_MERGE_FIELDS.map(({ field, label }) => (
+            <Chip
+              key={field}
+              label={label}
+              size="small"
+              variant="outlined"
+              onClick={() => insertField(field)}
+              disabled={preview}
+            />
+          ))}
+          <Box sx={{ flexGrow: 1 }} />
+          <FormControlLabel
+            control={
+              <Switch
+                size="small"
+                checked={preview}
+                onChange={(e) => setPreview(e.target.checked)}
+              />
+            }
+            label="Preview"
+          />
+        </Box>
+        <TextField
+          placeholder={`Hi {{firstName}}, ...`}
+          value={preview ? renderReplyTemplate(body, contact) : body}
+          onChange={(e) => setBody(e.target.value)}
+          inputRef={setBodyInput}
+          InputProps={{ readOnly: preview }}
+          multiline
+          minRows={6}
+          fullWidth
+        />
+      </Box>
+
+      {unknownFields.length > 0 && (
+        <Alert severity="warning">
+          Unknown merge field{unknownFields.length === 1 ? "" : "s"}{" "}
+          {unknownFields.map((field) => `{{${field}}}`).join(", ")} will be sent as
+          typed.
+        </Alert>
+      )}
+
+      <Box sx={{ display: "flex", justifyContent: "space-between", gap: 1 }}>
+        <Button
+          variant="text"
+          startIcon={<SaveIcon />}
+          onClick={() => setSaveOpen(true)}
+          disabled={!subject.trim() || !body.trim()}
+          sx={{ borderRadius: "8px", textTransform: "none" }}
+        >
+          Save as template
+        </Button>
+        <Button
+          variant="contained"
+          startIcon={<SendIcon />}
+          onClick={handleSend}
+          disabled={sending || !subject.trim() || !body.trim()}
+          sx={{ borderRadius: "8px", textTransform: "none" }}
+        >
+          {sending ? "Sending..." : `Send to ${contact.email}`}
+        </Button>
+      </Box>
+
+      <Dialog open={saveOpen} onClose={() => setSaveOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save reply template</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            label="Template name"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            fullWidth
+            margin="dense"
+          />
+          <Typography variant="caption" color="text.secondary">
+            Merge fields are kept, so the template works for any contact.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSaveTemplate}
+            disabled={!templateName.trim()}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ContactReplyComposer;
@@ -0,0 +1,63 @@
+import React from "react";
+import { Box, Typography, CircularProgress } from "@mui/material";
+import type { ContactReply } from "../types";
+
+interface ContactReplyThreadProps {
+  replies: ContactReply[];
+  loading: boolean;
+}
+
+// Replies already emailed to a contact, oldest first like a mail thread
+const ContactReplyThread: React.FC<ContactReplyThreadProps> = ({
+  replies,
+  loading,
+}) => {
+  if (loading) {
+    return (
+      <Box sx={{ display: "flex", justifyContent: "center", py: 2 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (replies.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No replies sent yet.
+      </Typography>
+    );
+  }
+
+  const sorted = [...replies].sort(
+    (a, b) => new Date(a.sentAt).getTime() - new Date(b.sentAt).getTime()
+  );
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", gap: 1.5 }}>
+      {sorted.map((reply) => (
+        <Box
+          key={reply._id}
+          sx={{
+            p: 1.5,
+            borderRadius: "8px",
+            border: "1px solid #e0e0e0",
+            bgcolor: "grey.50",
+          }}
+        >
+          <Typography variant="subtitle2">{reply.subject}</Typography>
+          <Typography variant="caption" color="text.secondary" component="div">
+            To {reply.to}
+            {reply.sentBy ? ` · from ${reply.sentBy}` : ""}
+            {" · "}
+            {new Date(reply.sentAt).toLocaleString()}
+          </Typography>
+          <Typography variant="body2" sx={{ whiteSpace: "pre-wrap", mt: 1 }}>
+            {reply.body}
+          </Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default ContactReplyThread;
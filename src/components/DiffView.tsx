@@ -0,0 +1,106 @@
+import React, { useMemo } from "react";
+import { Box, Typography } from "@mui/material";
+import { diffValues, DiffMode, DiffRowType } from "../utils/diff";
+
+interface DiffViewProps {
+  left: string;
+  right: string;
+  mode: DiffMode;
+  leftLabel?: string;
+  rightLabel?: string;
+  maxHeight?: number;
+}
+
+const LEFT_BACKGROUND: Record<DiffRowType, string> = {
+  equal: "transparent",
+  added: "#fafafa",
+  removed: "#ffebee",
+  changed: "#ffebee",
+};
+
+const RIGHT_BACKGROUND: Record<DiffRowType, string> = {
+  equal: "transparent",
+  added: "#e8f5e9",
+  removed: "#fafafa",
+  changed: "#e8f5e9",
+};
+
+const cellSx = {
+  px: 1,
+  py: 0.5,
+  fontFamily: "monospace",
+  fontSize: "12px",
+  whiteSpace: "pre-wrap",
+  wordBreak: "break-word",
+  borderBottom: "1px solid #f0f0f0",
+};
+
+const DiffView: React.FC<DiffViewProps> = ({
+  left,
+  right,
+  mode,
+  leftLabel = "Before",
+  rightLabel = "After",
+  maxHeight = 400,
+}) => {
+  const rows = useMemo(() => diffValues(left, right, mode), [left, right, mode]);
+  const hasChanges = rows.some((row) => row.type !== "equal");
+
+  if (!hasChanges) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+        No changes
+      </Typography>
+    );
+  }
+
+  return (
+    <Box
+      sx={{
+        border: "1px solid #e0e0e0",
+        borderRadius: "8px",
+        overflow: "auto",
+        maxHeight,
+      }}
+    >
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr",
+          position: "sticky",
+          top: 0,
+          backgroundColor: "grey.50",
+          zIndex: 1,
+        }}
+      >
+        <Typography variant="caption" sx={{ px: 1, py: 0.5, fontWeight: 500 }}>
+          {leftLabel}
+        </Typography>
+        <Typography variant="caption" sx={{ px: 1, py: 0.5, fontWeight: 500 }}>
+          {rightLabel}
+        </Typography>
+      </Box>
+      {rows.map((row, index) => (
+        <Box
+          key={index}
+          sx={{ display: "grid", gridTemplateColumns: "1fr 1fr" }}
+        >
+          <Box sx={{ ...cellSx, backgroundColor: LEFT_BACKGROUND[row.type] }}>
+            {row.left ?? ""}
+          </Box>
+          <Box
+            sx={{
+              ...cellSx,
+              backgroundColor: RIGHT_BACKGROUND[row.type],
+              borderLeft: "1px solid #e0e0e0",
+            }}
+          >
+            {row.right ?? ""}
+          </Box>
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+export default DiffView;
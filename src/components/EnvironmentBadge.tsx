@@ -0,0 +1,63 @@
+import React, { useState } from "react";
+import { Chip, Menu, MenuItem, Tooltip, ListItemText } from "@mui/material";
+import {
+  appConfig,
+  ENVIRONMENT_PROFILES,
+  EnvironmentName,
+  switchEnvironment,
+} from "../config/environment";
+
+// Shown only outside production so nobody mistakes a staging admin for the live one
+const EnvironmentBadge: React.FC = () => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  if (appConfig.isProduction) return null;
+
+  const handleSelect = (name: EnvironmentName) => {
+    setAnchorEl(null);
+    if (name !== appConfig.environment.name) {
+      switchEnvironment(name);
+    }
+  };
+
+  return (
+    <>
+      <Tooltip title={`API: ${appConfig.apiBaseUrl}`}>
+        <Chip
+          label={appConfig.environment.label.toUpperCase()}
+          color={appConfig.environment.name === "local" ? "success" : "warning"}
+          size="small"
+          onClick={(e) => setAnchorEl(e.currentTarget)}
+          sx={{
+            position: "fixed",
+            top: 12,
+            right: 16,
+            zIndex: (theme) => theme.zIndex.appBar,
+            fontWeight: 600,
+            letterSpacing: "0.05em",
+          }}
+        />
+      </Tooltip>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+      >
+        {Object.values(ENVIRONMENT_PROFILES).map((profile) => (
+          <MenuItem
+            key={profile.name}
+            selected={profile.name === appConfig.environment.name}
+            onClick={() => handleSelect(profile.name)}
+          >
+            <ListItemText
+              primary={profile.label}
+              secondary={profile.apiBaseUrl}
+            />
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default EnvironmentBadge;
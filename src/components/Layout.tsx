@@ -20,11 +20,21 @@ import {
   LogOut,
   Upload,
   Mail,
+  Sparkles,
+  Users,
+  ShieldCheck,
+  FolderTree,
+  Tags,
+  Signpost,
   // Music,
   // ListMusic,
   // AudioLines
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
+import EnvironmentBadge from "./EnvironmentBadge";
+import SessionExpiryDialog from "./SessionExpiryDialog";
+import { usePermissions } from "../hooks/usePermission";
+import type { Permission } from "../types";
 
 interface LayoutProps {
   children: ReactNode;
@@ -35,6 +45,7 @@ interface NavigationItem {
   href: string;
   icon: React.ComponentType;
   current: boolean;
+  permission?: Permission;
 }
 
 const drawerWidth = 60;
@@ -46,6 +57,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const isMobile = useMediaQuery(theme.breakpoints.down("md"));
   const { logout } = useAuth();
   const navigate = useNavigate();
+  const { can } = usePermissions();
 
   const handleDrawerToggle = () => {
     setMobileOpen(!mobileOpen);
@@ -64,11 +76,53 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       icon: FileText,
       current: location.pathname === "/pages",
     },
+    {
+      name: "Groups",
+      href: "/groups",
+      icon: FolderTree,
+      current: location.pathname === "/groups",
+      permission: "groups.manage",
+    },
+    {
+      name: "Tags & Categories",
+      href: "/taxonomy",
+      icon: Tags,
+      current: location.pathname === "/taxonomy",
+      permission: "taxonomy.manage",
+    },
+    {
+      name: "Redirects",
+      href: "/redirects",
+      icon: Signpost,
+      current: location.pathname === "/redirects",
+      permission: "redirects.manage",
+    },
     {
       name: "Contacts",
       href: "/contacts",
       icon: Mail,
       current: location.pathname === "/tracks",
+      permission: "contacts.view",
+    },
+    {
+      name: "Prompt Templates",
+      href: "/prompt-templates",
+      icon: Sparkles,
+      current: location.pathname === "/prompt-templates",
+      permission: "promptTemplates.manage",
+    },
+    {
+      name: "Users",
+      href: "/users",
+      icon: Users,
+      current: location.pathname === "/users",
+      permission: "users.manage",
+    },
+    {
+      name: "Security",
+      href: "/account/security",
+      icon: ShieldCheck,
+      current: location.pathname === "/account/security",
     },
     // {
     //   name: "Playlists",
@@ -107,40 +161,42 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         </Box>
         <Divider />
         <List>
-          {navigation.map((item) => {
-            const Icon = item.icon;
-            return (
-              <ListItem key={item.name} disablePadding>
-                <ListItemButton
-                  component={Link}
-                  to={item.href}
-                  onClick={() => isMobile && setMobileOpen(false)}
-                  sx={{
-                    justifyContent: isCollapsed ? "center" : "flex-start",
-                    px: 1,
-                    mt: 2,
-                    backgroundColor: item.current ? "#5a55d8" : "transparent",
-                    "&:hover": {
-                      backgroundColor: item.current
-                        ? "#5a55d8"
-                        : "rgba(255, 255, 255, 0.1)",
-                    },
-                  }}
-                >
-                  <ListItemIcon
+          {navigation
+            .filter((item) => !item.permission || can(item.permission))
+            .map((item) => {
+              const Icon = item.icon;
+              return (
+                <ListItem key={item.name} disablePadding>
+                  <ListItemButton
+                    component={Link}
+                    to={item.href}
+                    onClick={() => isMobile && setMobileOpen(false)}
                     sx={{
-                      minWidth: "auto",
-                      mr: isCollapsed ? 0 : 2,
-                      color: "#fff",
+                      justifyContent: isCollapsed ? "center" : "flex-start",
+                      px: 1,
+                      mt: 2,
+                      backgroundColor: item.current ? "#5a55d8" : "transparent",
+                      "&:hover": {
+                        backgroundColor: item.current
+                          ? "#5a55d8"
+                          : "rgba(255, 255, 255, 0.1)",
+                      },
                     }}
                   >
-                    <Icon />
-                  </ListItemIcon>
-                  {!isCollapsed && <ListItemText primary={item.name} />}
-                </ListItemButton>
-              </ListItem>
-            );
-          })}
+                    <ListItemIcon
+                      sx={{
+                        minWidth: "auto",
+                        mr: isCollapsed ? 0 : 2,
+                        color: "#fff",
+                      }}
+                    >
+                      <Icon />
+                    </ListItemIcon>
+                    {!isCollapsed && <ListItemText primary={item.name} />}
+                  </ListItemButton>
+                </ListItem>
+              );
+            })}
         </List>
       </Box>
       <Box sx={{ mt: "auto" }}>
@@ -283,7 +339,9 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
           width: { md: `calc(100% - ${drawerWidth}px)` },
         }}
       >
+        <EnvironmentBadge />
         {children}
+        <SessionExpiryDialog />
       </Box>
     </Box>
   );
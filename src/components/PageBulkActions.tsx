@@ -0,0 +1,429 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Menu,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Autocomplete,
+  TextField,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+} from "@mui/material";
+import {
+  Folder as GroupIcon,
+  Tag as TagIcon,
+  Star as PopularIcon,
+  CircleDot as StatusIcon,
+  Trash2 as DeleteIcon,
+  X as ClearIcon,
+} from "lucide-react";
+import { toast } from "react-toastify";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { runBulkPageAction, clearBulkResult } from "../store/slices/pagesSlice";
+import { restoreTrashItem } from "../store/slices/trashSlice";
+import { usePermissions } from "../hooks/usePermission";
+import { PAGE_STATUSES, PAGE_STATUS_LABELS } from "../utils/pageStatus";
+import { showUndoToast } from "./UndoToast";
+import type { Page, PageBulkAction } from "../types";
+
+interface PageBulkActionsProps {
+  selectedPages: Page[];
+  groupOptions: { value: string; label: string }[];
+  tagOptions: string[];
+  onClearSelection: () => void;
+}
+
+type ValuesDialog = {
+  field: "groups" | "tags";
+  mode: "add" | "remove";
+};
+
+// Scheduling needs a date per page, so it stays a single-page action
+const BULK_STATUSES = PAGE_STATUSES.filter((status) => status !== "scheduled");
+
+const describeAction = (action: PageBulkAction) => {
+  switch (action.type) {
+    case "delete":
+      return "moved to trash";
+    case "addGroups":
+    case "removeGroups":
+      return "groups updated";
+    case "addTags":
+    case "removeTags":
+      return "tags updated";
+    case "setPopular":
+      return action.popular ? "marked popular" : "unmarked popular";
+    case "setStatus":
+      return `moved to ${PAGE_STATUS_LABELS[action.status]}`;
+  }
+};
+
+const buttonSx = { borderRadius: "8px", textTransform: "none" } as const;
+
+const PageBulkActions: React.FC<PageBulkActionsProps> = ({
+  selectedPages,
+  groupOptions,
+  tagOptions,
+  onClearSelection,
+}) => {
+  const dispatch = useAppDispatch();
+  const bulk = useAppSelector((state) => state.pages.bulk);
+  const { can } = usePermissions();
+
+  const [menu, setMenu] = useState<{
+    anchor: HTMLElement;
+    kind: "groups" | "tags" | "popular" | "status";
+  } | null>(null);
+  const [valuesDialog, setValuesDialog] = useState<ValuesDialog | null>(null);
+  const [values, setValues] = useState<string[]>([]);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  // Kept so failed pages can be retried after the selection is cleared
+  const [lastRun, setLastRun] = useState<{
+    pages: Page[];
+    action: PageBulkAction;
+  } | null>(null);
+
+  // Put every page of a bulk delete back, reporting once instead of per page
+  const undoDelete = async (ids: string[]) => {
+    const results = await Promise.allSettled(
+      ids.map((id) => dispatch(restoreTrashItem({ type: "pages", id, silent: true })).unwrap())
+    );
+    const restored = results.filter((result) => result.status === "fulfilled").length;
+    if (restored > 0) {
+      toast.success(`${restored} page${restored === 1 ? "" : "s"} restored`);
+    }
+    if (restored < ids.length) {
+      const failed = ids.length - restored;
+      toast.error(`${failed} page${failed === 1 ? "" : "s"} could not be restored`);
+    }
+  };
+
+  const run = async (pages: Page[], action: PageBulkAction) => {
+    setMenu(null);
+    setLastRun({ pages, action });
+    const result = await dispatch(runBulkPageAction({ pages, action })).unwrap();
+    onClearSelection();
+    const message = `${result.succeeded} page${result.succeeded === 1 ? "" : "s"} ${describeAction(action)}`;
+    if (action.type === "delete" && result.succeeded > 0) {
+      showUndoToast(message, () => undoDelete(result.succeededIds));
+    }
+    if (result.failed > 0) {
+      setReportOpen(true);
+    } else {
+      if (action.type !== "delete") toast.success(message);
+      dispatch(clearBulkResult());
+    }
+  };
+
+  const retryFailed = () => {
+    if (!lastRun) return;
+    const failedIds = new Set(bulk.failures.map((failure) => failure.id));
+    setReportOpen(false);
+    run(
+      lastRun.pages.filter((page) => failedIds.has(page._id)),
+      lastRun.action
+    );
+  };
+
+  const closeReport = () => {
+    setReportOpen(false);
+    dispatch(clearBulkResult());
+  };
+
+  const openValuesDialog = (dialog: ValuesDialog) => {
+    setMenu(null);
+    setValues([]);
+    setValuesDialog(dialog);
+  };
+
+  const submitValues = () => {
+    if (!valuesDialog || values.length === 0) return;
+    const { field, mode } = valuesDialog;
+    setValuesDialog(null);
+    const action: PageBulkAction =
+      field === "groups"
+        ? { type: mode === "add" ? "addGroups" : "removeGroups", groups: values }
+        : { type: mode === "add" ? "addTags" : "removeTags", tags: values };
+    run(selectedPages, action);
+  };
+
+  const count = selectedPages.length;
+  if (count === 0 && !bulk.running && !reportOpen) return null;
+
+  return (
+    <>
+      {(count > 0 || bulk.running) && (
+        <Box
+          sx={{
+            display: "flex",
+            alignItems: "center",
+            gap: 1,
+            mb: 2,
+            px: 2,
+            py: 1,
+            borderRadius: 2,
+            bgcolor: "grey.50",
+            border: "1px solid #e0e0e0",
+          }}
+        >
+          {bulk.running ? (
+            <Box sx={{ flexGrow: 1 }}>
+              <Typography variant="body2" sx={{ mb: 0.5 }}>
+                Updating {Math.min(bulk.completed + 1, bulk.total)} of {bulk.total}
+                ...
+              </Typography>
+              <LinearProgress
+                variant="determinate"
+                value={bulk.total ? (bulk.completed / bulk.total) * 100 : 0}
+              />
+            </Box>
+          ) : (
+            <>
+              <Typography variant="body2" fontWeight={500} sx={{ mr: 1 }}>
+                {count} selected
+              </Typography>
+              {can("pages.edit") && (
+                <>
+                  <Button
+                    size="small"
+                    startIcon={<GroupIcon size={16} />}
+                    onClick={(e) => setMenu({ anchor: e.currentTarget, kind: "groups" })}
+                    sx={buttonSx}
+                  >
+                    Groups
+                  </Button>
+                  <Button
+                    size="small"
+                    startIcon={<TagIcon size={16} />}
+                    onClick={(e) => setMenu({ anchor: e.currentTarget, kind: "tags" })}
+                    sx={buttonSx}
+                  >
+                    Tags
+                  </Button>
+                  <Button
+                    size="small"
+                    startIcon={<PopularIcon size={16} />}
+                    onClick={(e) => setMenu({ anchor: e.currentTarget, kind: "popular" })}
+                    sx={buttonSx}
+                  >
+                    Popular
+                  </Button>
+                </>
+              )}
+              {can("pages.publish") && (
+                <Button
+                  size="small"
+                  startIcon={<StatusIcon size={16} />}
+                  onClick={(e) => setMenu({ anchor: e.currentTarget, kind: "status" })}
+                  sx={buttonSx}
+                >
+                  Status
+                </Button>
+              )}
+              {can("pages.delete") && (
+                <Button
+                  size="small"
+                  color="error"
+                  startIcon={<DeleteIcon size={16} />}
+                  onClick={() => setConfirmDelete(true)}
+                  sx={buttonSx}
+                >
+                  Delete
+                </Button>
+              )}
+              <Box sx={{ flexGrow: 1 }} />
+              <Button
+                size="small"
+                startIcon={<ClearIcon size={16} />}
+                onClick={onClearSelection}
+                sx={buttonSx}
+              >
+                Clear selection
+              </Button>
+            </>
+          )}
+        </Box>
+      )}
+
+      <Menu
+        anchorEl={menu?.anchor}
+        open={!!menu}
+        onClose={() => setMenu(null)}
+      >
+        {(menu?.kind === "groups" || menu?.kind === "tags") && [
+          <MenuItem
+            key="add"
+            onClick={() => openValuesDialog({ field: menu.kind as ValuesDialog["field"], mode: "add" })}
+          >
+            Add {menu.kind}...
+          </MenuItem>,
+          <MenuItem
+            key="remove"
+            onClick={() => openValuesDialog({ field: menu.kind as ValuesDialog["field"], mode: "remove" })}
+          >
+            Remove {menu.kind}...
+          </MenuItem>,
+        ]}
+        {menu?.kind === "popular" && [
+          <MenuItem
+            key="on"
+            onClick={() => run(selectedPages, { type: "setPopular", popular: true })}
+          >
+            Mark as popular
+          </MenuItem>,
+          <MenuItem
+            key="off"
+            onClick={() => run(selectedPages, { type: "setPopular", popular: false })}
+          >
+            Unmark as popular
+          </MenuItem>,
+        ]}
+        {menu?.kind === "status" &&
+          BULK_STATUSES.map((status) => (
+            <MenuItem
+              key={status}
+              onClick={() => run(selectedPages, { type: "setStatus", status })}
+            >
+              {PAGE_STATUS_LABELS[status]}
+            </MenuItem>
+          ))}
+      </Menu>
+
+      {/* Groups / tags picker */}
+      <Dialog
+        open={!!valuesDialog}
+        onClose={() => setValuesDialog(null)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>
+          {valuesDialog?.mode === "add" ? "Add" : "Remove"} {valuesDialog?.field}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {valuesDialog?.mode === "add" ? "Added to" : "Removed from"} {count}{" "}
+            selected page{count === 1 ? "" : "s"}.
+          </DialogContentText>
+          {valuesDialog?.field === "groups" ? (
+            <Autocomplete
+              multiple
+              options={groupOptions.map((option) => option.value)}
+              getOptionLabel={(value) =>
+                groupOptions.find((option) => option.value === value)?.label || value
+              }
+              value={values}
+              onChange={(_, next) => setValues(next)}
+              renderInput={(params) => <TextField {...params} label="Groups" autoFocus />}
+            />
+          ) : (
+            <Autocomplete
+              multiple
+              freeSolo
+              options={tagOptions}
+              value={values}
+              onChange={(_, next) =>
+                setValues(next.map((tag) => tag.trim()).filter(Boolean))
+              }
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Tags"
+                  helperText="Press Enter to add a new tag"
+                  autoFocus
+                />
+              )}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setValuesDialog(null)} sx={buttonSx}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={submitValues}
+            disabled={values.length === 0}
+            sx={{ ...buttonSx, fontWeight: 500 }}
+          >
+            Apply
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Bulk delete confirmation */}
+      <Dialog open={confirmDelete} onClose={() => setConfirmDelete(false)}>
+        <DialogTitle>Delete Pages</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Are you sure you want to delete {count} page{count === 1 ? "" : "s"}?
+            Deleted pages go to the trash, where they can be restored until they are
+            permanently deleted.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmDelete(false)} sx={buttonSx}>
+            Cancel
+          </Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={() => {
+              setConfirmDelete(false);
+              run(selectedPages, { type: "delete" });
+            }}
+            sx={{ ...buttonSx, fontWeight: 500 }}
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Failure report */}
+      <Dialog open={reportOpen} onClose={closeReport} maxWidth="sm" fullWidth>
+        <DialogTitle>Some pages could not be updated</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 1 }}>
+            {bulk.total - bulk.failures.length} of {bulk.total} page
+            {bulk.total === 1 ? "" : "s"}{" "}
+            {bulk.action ? describeAction(bulk.action) : "updated"}.{" "}
+            {bulk.failures.length} failed:
+          </DialogContentText>
+          <List dense>
+            {bulk.failures.map((failure) => (
+              <ListItem key={failure.id} disableGutters>
+                <ListItemText
+                  primary={failure.title}
+                  secondary={failure.message}
+                  secondaryTypographyProps={{ color: "error" }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeReport} sx={buttonSx}>
+            Close
+          </Button>
+          <Button
+            variant="contained"
+            onClick={retryFailed}
+            sx={{ ...buttonSx, fontWeight: 500 }}
+          >
+            Retry failed
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default PageBulkActions;
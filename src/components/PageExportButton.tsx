@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListSubheader,
+  CircularProgress,
+} from "@mui/material";
+import { Download as DownloadIcon } from "lucide-react";
+import { toast } from "react-toastify";
+import { pagesAPI } from "../services/api";
+import { pagesToCsv, pagesToJson, PageExportFormat } from "../utils/pageTransfer";
+import { downloadFile } from "../utils/csv";
+import type { Page, PageStatus } from "../types";
+
+interface PageExportButtonProps {
+  search: string;
+  group: string;
+  status: PageStatus | "";
+}
+
+const PageExportButton: React.FC<PageExportButtonProps> = ({
+  search,
+  group,
+  status,
+}) => {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const filtered = !!(search || group || status);
+
+  const handleExport = async (format: PageExportFormat, onlyFiltered: boolean) => {
+    setAnchor(null);
+    setExporting(true);
+    try {
+      const params: Record<string, string> = {};
+      if (onlyFiltered) {
+        if (search) params.search = search;
+        if (group) params.group = group;
+        if (status) params.status = status;
+      }
+      const listed = await pagesAPI.getAllMatching(params);
+
+      // The list endpoint may leave out the body; load it so the export is complete
+      const pages: Page[] = [];
+      for (const page of listed) {
+        pages.push(
+          page.content !== undefined
+            ? page
+            : (await pagesAPI.getById(page._id, { silent: true })).data
+        );
+      }
+
+      const date = new Date().toISOString().slice(0, 10);
+      if (format === "json") {
+        downloadFile(`pages-${date}.json`, pagesToJson(pages), "application/json");
+      } else {
+        downloadFile(`pages-${date}.csv`, pagesToCsv(pages), "text/csv;charset=utf-8");
+      }
+      toast.success(`Exported ${pages.length} page${pages.length === 1 ? "" : "s"}`);
+    } catch (error) {
+      console.error("Error exporting pages:", error);
+      toast.error("Failed to export pages");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={
+          exporting ? <CircularProgress size={16} /> : <DownloadIcon size={20} />
+        }
+        onClick={(e) => setAnchor(e.currentTarget)}
+        disabled={exporting}
+        sx={{
+          borderRadius: "8px",
+          textTransform: "none",
+          fontWeight: 500,
+          px: 2,
+          py: 1,
+        }}
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {filtered && <ListSubheader>Current filter</ListSubheader>}
+        {filtered && (
+          <MenuItem onClick={() => handleExport("json", true)}>
+            Filtered pages as JSON
+          </MenuItem>
+        )}
+        {filtered && (
+          <MenuItem onClick={() => handleExport("csv", true)}>
+            Filtered pages as CSV
+          </MenuItem>
+        )}
+        <ListSubheader>Everything</ListSubheader>
+        <MenuItem onClick={() => handleExport("json", false)}>
+          All pages as JSON
+        </MenuItem>
+        <MenuItem onClick={() => handleExport("csv", false)}>
+          All pages as CSV
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
+
+export default PageExportButton;
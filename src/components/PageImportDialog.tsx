@@ -0,0 +1,429 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stepper,
+  Step,
+  StepLabel,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Chip,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  CircularProgress,
+} from "@mui/material";
+import { Upload as UploadIcon } from "lucide-react";
+import { pagesAPI } from "../services/api";
+import { useAppDispatch } from "../store/hooks";
+import { forceRefresh } from "../store/slices/pagesSlice";
+import { usePermission } from "../hooks/usePermission";
+import { useGroups } from "../hooks/useGroups";
+import {
+  parsePageFile,
+  validatePageRecords,
+  uniqueSlug,
+  PageImportRow,
+} from "../utils/pageTransfer";
+import { createPageSchema } from "../utils/pageSchema";
+import type { CreatePageData, Page } from "../types";
+
+interface PageImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type ConflictResolution = "update" | "copy" | "skip";
+
+interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  failures: { title: string; message: string }[];
+}
+
+const STEPS = ["Choose file", "Review", "Import"];
+// Pages are sent a few at a time so large files do not flood the API
+const BATCH_SIZE = 5;
+
+const CONFLICT_LABELS: Record<ConflictResolution, string> = {
+  update: "Update existing page",
+  copy: "Import as a copy (new slug)",
+  skip: "Skip",
+};
+
+const buttonSx = { borderRadius: "8px", textTransform: "none" } as const;
+
+const PageImportDialog: React.FC<PageImportDialogProps> = ({ open, onClose }) => {
+  const dispatch = useAppDispatch();
+  const canPublish = usePermission("pages.publish");
+  const { groups } = useGroups();
+
+  const [step, setStep] = useState(0);
+  const [fileName, setFileName] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [rows, setRows] = useState<PageImportRow[]>([]);
+  const [existing, setExisting] = useState<Map<string, Page>>(new Map());
+  const [defaultResolution, setDefaultResolution] =
+    useState<ConflictResolution>("skip");
+  const [resolutions, setResolutions] = useState<
+    Record<number, ConflictResolution>
+  >({});
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const reset = () => {
+    setStep(0);
+    setFileName("");
+    setFileError(null);
+    setRows([]);
+    setExisting(new Map());
+    setDefaultResolution("skip");
+    setResolutions({});
+    setProgress({ done: 0, total: 0 });
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    if (importing) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setFileName(file.name);
+    setFileError(null);
+    setReading(true);
+    try {
+      const records = parsePageFile(file.name, await file.text());
+      if (records.length === 0) {
+        throw new Error("The file does not contain any pages");
+      }
+      const validated = await validatePageRecords(
+        records,
+        createPageSchema(groups.map((group) => group.slug))
+      );
+
+      // The same slug twice in one file would make the second row overwrite the first
+      const seen = new Set<string>();
+      validated.forEach((row) => {
+        if (!row.slug) return;
+        if (seen.has(row.slug)) {
+          row.errors.push(`Slug "${row.slug}" appears more than once in this file`);
+          row.data = null;
+        }
+        seen.add(row.slug);
+      });
+
+      const pages = await pagesAPI.getAllMatching();
+      setExisting(new Map(pages.map((page) => [page.slug, page])));
+      setRows(validated);
+      setResolutions({});
+      setStep(1);
+    } catch (error: any) {
+      console.error("Error reading import file:", error);
+      setFileError(error.message || "Could not read the file");
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const validRows = rows.filter((row) => row.data);
+  const invalidCount = rows.length - validRows.length;
+  const conflictRows = validRows.filter(
+    (row) => row.slug && existing.has(row.slug)
+  );
+
+  const resolutionFor = (row: PageImportRow) =>
+    resolutions[row.index] ?? defaultResolution;
+
+  const plannedCount = validRows.filter(
+    (row) => !(row.slug && existing.has(row.slug)) || resolutionFor(row) !== "skip"
+  ).length;
+
+  // Without publish rights everything lands as a draft, like saving from the form
+  const withAllowedStatus = (data: CreatePageData, current?: Page): CreatePageData =>
+    canPublish
+      ? data
+      : {
+          ...data,
+          status: current ? current.status : "draft",
+          publishAt: current ? current.publishAt : undefined,
+        };
+
+  const runImport = async () => {
+    const takenSlugs = new Set(existing.keys());
+    const jobs: { title: string; kind: "created" | "updated"; run: () => Promise<unknown> }[] = [];
+    let skipped = invalidCount;
+
+    validRows.forEach((row) => {
+      const data = row.data as CreatePageData;
+      const current = row.slug ? existing.get(row.slug) : undefined;
+      if (!current) {
+        jobs.push({
+          title: row.title,
+          kind: "created",
+          run: () => pagesAPI.create(withAllowedStatus(data), { silent: true }),
+        });
+        return;
+      }
+      const resolution = resolutionFor(row);
+      if (resolution === "skip") {
+        skipped += 1;
+      } else if (resolution === "update") {
+        jobs.push({
+          title: row.title,
+          kind: "updated",
+          run: () =>
+            pagesAPI.update(
+              current._id,
+              { ...withAllowedStatus(data, current), _id: current._id },
+              { silent: true }
+            ),
+        });
+      } else {
+        const slug = uniqueSlug(current.slug, takenSlugs);
+        takenSlugs.add(slug);
+        jobs.push({
+          title: row.title,
+          kind: "created",
+          run: () => pagesAPI.create({ ...withAllowedStatus(data), slug }, { silent: true }),
+        });
+      }
+    });
+
+    const summary: ImportResult = { created: 0, updated: 0, skipped, failures: [] };
+    setStep(2);
+    setImporting(true);
+    setProgress({ done: 0, total: jobs.length });
+
+    for (let start = 0; start < jobs.length; start += BATCH_SIZE) {
+      const batch = jobs.slice(start, start + BATCH_SIZE);
+      const outcomes = await Promise.allSettled(batch.map((job) => job.run()));
+      outcomes.forEach((outcome, index) => {
+        const job = batch[index];
+        if (outcome.status === "fulfilled") {
+          summary[job.kind] += 1;
+        } else {
+          const error: any = outcome.reason;
+          summary.failures.push({
+            title: job.title,
+            message: error?.response?.data?.message || error?.message || "Unknown error",
+          });
+        }
+      });
+      setProgress({ done: Math.min(start + BATCH_SIZE, jobs.length), total: jobs.length });
+    }
+
+    setImporting(false);
+    setResult(summary);
+    dispatch(forceRefresh());
+  };
+
+  const rowStatus = (row: PageImportRow) => {
+    if (!row.data) return <Chip label="Invalid" color="error" size="small" />;
+    if (row.slug && existing.has(row.slug)) {
+      return <Chip label="Slug exists" color="warning" size="small" />;
+    }
+    return <Chip label="New" color="success" size="small" variant="outlined" />;
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import pages</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={step} sx={{ mb: 3 }}>
+          {STEPS.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {step === 0 && (
+          <Box sx={{ textAlign: "center", py: 3 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Upload a JSON or CSV file in the same format as the page export.
+              Groups and tags in CSV files are separated with "|".
+            </Typography>
+            <Button
+              component="label"
+              variant="contained"
+              startIcon={
+                reading ? <CircularProgress size={16} color="inherit" /> : <UploadIcon size={18} />
+              }
+              disabled={reading}
+              sx={buttonSx}
+            >
+              {reading ? `Reading ${fileName}...` : "Choose file"}
+              <input type="file" accept=".json,.csv" hidden onChange={handleFile} />
+            </Button>
+            {fileError && (
+              <Alert severity="error" sx={{ mt: 2, textAlign: "left" }}>
+                {fileName}: {fileError}
+              </Alert>
+            )}
+          </Box>
+        )}
+
+        {step === 1 && (
+          <Box>
+            <Typography variant="body2" sx={{ mb: 2 }}>
+              {fileName}: {rows.length} row{rows.length === 1 ? "" : "s"},{" "}
+              {validRows.length} valid, {invalidCount} invalid (skipped),{" "}
+              {conflictRows.length} with a slug that already exists.
+            </Typography>
+            {conflictRows.length > 0 && (
+              <FormControl size="small" sx={{ minWidth: 260, mb: 2 }}>
+                <InputLabel>When the slug already exists</InputLabel>
+                <Select
+                  value={defaultResolution}
+                  label="When the slug already exists"
+                  onChange={(e) => {
+                    setDefaultResolution(e.target.value as ConflictResolution);
+                    setResolutions({});
+                  }}
+                >
+                  {(Object.keys(CONFLICT_LABELS) as ConflictResolution[]).map((value) => (
+                    <MenuItem key={value} value={value}>
+                      {CONFLICT_LABELS[value]}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+            <TableContainer sx={{ maxHeight: 360, border: "1px solid #e0e0e0", borderRadius: 1 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Row</TableCell>
+                    <TableCell>Title</TableCell>
+                    <TableCell>Slug</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Details</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.index}>
+                      {/* +2: header line and 1-based numbering */}
+                      <TableCell>{row.index + 2}</TableCell>
+                      <TableCell>{row.title || "-"}</TableCell>
+                      <TableCell>{row.slug || "(generated)"}</TableCell>
+                      <TableCell>{rowStatus(row)}</TableCell>
+                      <TableCell>
+                        {!row.data ? (
+                          <Typography variant="caption" color="error">
+                            {row.errors.join("; ")}
+                          </Typography>
+                        ) : row.slug && existing.has(row.slug) ? (
+                          <Select
+                            size="small"
+                            value={resolutionFor(row)}
+                            onChange={(e) =>
+                              setResolutions((prev) => ({
+                                ...prev,
+                                [row.index]: e.target.value as ConflictResolution,
+                              }))
+                            }
+                            sx={{ minWidth: 220 }}
+                          >
+                            {(Object.keys(CONFLICT_LABELS) as ConflictResolution[]).map(
+                              (value) => (
+                                <MenuItem key={value} value={value}>
+                                  {CONFLICT_LABELS[value]}
+                                </MenuItem>
+                              )
+                            )}
+                          </Select>
+                        ) : (
+                          "-"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            {!canPublish && (
+              <Alert severity="info" sx={{ mt: 2 }}>
+                Your role cannot publish, so imported pages are saved as drafts.
+              </Alert>
+            )}
+          </Box>
+        )}
+
+        {step === 2 && (
+          <Box>
+            {importing || !result ? (
+              <Box sx={{ py: 2 }}>
+                <Typography variant="body2" sx={{ mb: 1 }}>
+                  Importing {progress.done} of {progress.total}...
+                </Typography>
+                <LinearProgress
+                  variant="determinate"
+                  value={progress.total ? (progress.done / progress.total) * 100 : 0}
+                />
+              </Box>
+            ) : (
+              <Box>
+                <Alert severity={result.failures.length ? "warning" : "success"} sx={{ mb: 2 }}>
+                  {result.created} created, {result.updated} updated, {result.skipped} skipped
+                  {result.failures.length ? `, ${result.failures.length} failed` : ""}.
+                </Alert>
+                {result.failures.map((failure, index) => (
+                  <Typography key={index} variant="body2" sx={{ mb: 0.5 }}>
+                    <strong>{failure.title || "Untitled"}</strong>:{" "}
+                    <Box component="span" sx={{ color: "error.main" }}>
+                      {failure.message}
+                    </Box>
+                  </Typography>
+                ))}
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {step === 1 && (
+          <Button onClick={reset} sx={buttonSx}>
+            Back
+          </Button>
+        )}
+        <Button onClick={handleClose} disabled={importing} sx={buttonSx}>
+          {step === 2 && !importing ? "Close" : "Cancel"}
+        </Button>
+        {step === 1 && (
+          <Button
+            variant="contained"
+            onClick={runImport}
+            disabled={plannedCount === 0}
+            sx={{ ...buttonSx, fontWeight: 500 }}
+          >
+            Import {plannedCount} page{plannedCount === 1 ? "" : "s"}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PageImportDialog;
@@ -0,0 +1,209 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Chip,
+  CircularProgress,
+} from "@mui/material";
+import { Upload as UploadIcon } from "lucide-react";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { importRedirects } from "../store/slices/redirectsSlice";
+import {
+  parseRedirectCsv,
+  validateRedirect,
+  RedirectImportRow,
+} from "../utils/redirects";
+import type { Redirect, RedirectImportResult } from "../types";
+
+interface RedirectImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const buttonSx = { borderRadius: "8px", textTransform: "none" } as const;
+
+const RedirectImportDialog: React.FC<RedirectImportDialogProps> = ({ open, onClose }) => {
+  const dispatch = useAppDispatch();
+  const { items } = useAppSelector((state) => state.redirects);
+  const [fileName, setFileName] = useState("");
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [rows, setRows] = useState<RedirectImportRow[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<RedirectImportResult | null>(null);
+
+  const reset = () => {
+    setFileName("");
+    setFileError(null);
+    setRows([]);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    if (importing) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    reset();
+    setFileName(file.name);
+    try {
+      const parsed = parseRedirectCsv(await file.text());
+      if (parsed.length === 0) throw new Error("The file does not contain any redirects");
+
+      // Imported rules replace existing ones with the same source, so check each row
+      // against the rules that will remain plus the rows above it
+      const accepted: Redirect[] = [];
+      parsed.forEach((row) => {
+        const remaining = items.filter(
+          (rule) => !parsed.some((other) => other.data.from === rule.from)
+        );
+        const errors = [
+          ...row.errors,
+          ...validateRedirect(row.data, [...remaining, ...accepted]),
+        ];
+        row.errors = errors;
+        if (errors.length === 0) {
+          accepted.push({ ...row.data, _id: `row-${row.line}` } as Redirect);
+        }
+      });
+      setRows(parsed);
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const overwriting = validRows.filter((row) =>
+    items.some((rule) => rule.from === row.data.from)
+  ).length;
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      setResult(
+        await dispatch(importRedirects(validRows.map((row) => row.data))).unwrap()
+      );
+    } catch (error) {
+      console.error("Error importing redirects:", error);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import redirects</DialogTitle>
+      <DialogContent>
+        {result ? (
+          <Box>
+            <Alert severity={result.failures.length ? "warning" : "success"} sx={{ mb: 2 }}>
+              {result.created} created, {result.updated} updated
+              {result.failures.length ? `, ${result.failures.length} failed` : ""}.
+            </Alert>
+            {result.failures.map((failure) => (
+              <Typography key={failure.from} variant="body2" color="error">
+                {failure.from}: {failure.message}
+              </Typography>
+            ))}
+          </Box>
+        ) : (
+          <Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Upload a CSV with <code>from</code> and <code>to</code> columns and an optional{" "}
+              <code>statusCode</code> column (301 or 302, default 301). Rules with a source
+              that already exists replace the existing rule.
+            </Typography>
+            <Button variant="outlined" component="label" startIcon={<UploadIcon size={18} />} sx={buttonSx}>
+              {fileName || "Choose CSV file"}
+              <input type="file" accept=".csv,text/csv" hidden onChange={handleFile} />
+            </Button>
+
+            {fileError && (
+              <Alert severity="error" sx={{ mt: 2 }}>
+                {fileError}
+              </Alert>
+            )}
+
+            {rows.length > 0 && (
+              <>
+                <Typography variant="body2" sx={{ mt: 2 }}>
+                  {validRows.length} of {rows.length} rules are valid
+                  {overwriting ? `; ${overwriting} will replace existing rules` : ""}.
+                </Typography>
+                <TableContainer sx={{ maxHeight: 360, mt: 1 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Line</TableCell>
+                        <TableCell>From</TableCell>
+                        <TableCell>To</TableCell>
+                        <TableCell>Code</TableCell>
+                        <TableCell>Problems</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.line}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell sx={{ wordBreak: "break-all" }}>{row.data.from}</TableCell>
+                          <TableCell sx={{ wordBreak: "break-all" }}>{row.data.to}</TableCell>
+                          <TableCell>{row.data.statusCode}</TableCell>
+                          <TableCell>
+                            {row.errors.length ? (
+                              row.errors.map((message) => (
+                                <Typography key={message} variant="caption" color="error" component="div">
+                                  {message}
+                                </Typography>
+                              ))
+                            ) : (
+                              <Chip label="OK" size="small" color="success" variant="outlined" />
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose} disabled={importing} sx={buttonSx}>
+          {result ? "Done" : "Cancel"}
+        </Button>
+        {!result && (
+          <Button
+            variant="contained"
+            onClick={handleImport}
+            disabled={importing || validRows.length === 0}
+            startIcon={importing ? <CircularProgress size={16} /> : undefined}
+            sx={buttonSx}
+          >
+            Import {validRows.length || ""} rule{validRows.length === 1 ? "" : "s"}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RedirectImportDialog;
@@ -0,0 +1,44 @@
+import React, { ReactNode } from "react";
+import { Box, Typography, Button } from "@mui/material";
+import { useNavigate } from "react-router-dom";
+import { usePermission } from "../hooks/usePermission";
+import type { Permission } from "../types";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+// Route guard for signed-in users whose role lacks a permission
+const RequirePermission: React.FC<RequirePermissionProps> = ({
+  permission,
+  children,
+}) => {
+  const allowed = usePermission(permission);
+  const navigate = useNavigate();
+
+  if (!allowed) {
+    return (
+      <Box sx={{ textAlign: "center", mt: 8 }}>
+        <Typography variant="h6" gutterBottom>
+          Access denied
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Your role does not allow access to this page. Ask an admin if you
+          need it.
+        </Typography>
+        <Button
+          variant="contained"
+          onClick={() => navigate("/")}
+          sx={{ borderRadius: "8px", textTransform: "none" }}
+        >
+          Back to dashboard
+        </Button>
+      </Box>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequirePermission;
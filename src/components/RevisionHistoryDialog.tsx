@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  Box,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemText,
+  Button,
+  Chip,
+  CircularProgress,
+  Alert,
+  IconButton,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+} from "@mui/material";
+import { Close } from "@mui/icons-material";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { fetchPageRevisions } from "../store/slices/pagesSlice";
+import DiffView from "./DiffView";
+import type { DiffMode } from "../utils/diff";
+import type { CreatePageData, PageRevision } from "../types";
+import { PAGE_STATUS_LABELS } from "../utils/pageStatus";
+
+interface RevisionHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  pageId: string;
+  current: CreatePageData;
+  onRestore: (revision: PageRevision) => void;
+}
+
+type RevisionFields = Pick<
+  PageRevision,
+  "title" | "metaTitle" | "metaDescription" | "metaKeywords" | "content"
+>;
+
+const COMPARED_FIELDS: Array<{ key: keyof RevisionFields; label: string }> = [
+  { key: "title", label: "Title" },
+  { key: "metaTitle", label: "Meta Title" },
+  { key: "metaDescription", label: "Meta Description" },
+  { key: "metaKeywords", label: "Meta Keywords" },
+  { key: "content", label: "Content" },
+];
+
+// Pseudo revision id for the unsaved state of the editor
+const CURRENT = "current";
+
+const formatRevisionDate = (revision: PageRevision) =>
+  new Date(revision.createdAt).toLocaleString();
+
+const RevisionHistoryDialog: React.FC<RevisionHistoryDialogProps> = ({
+  open,
+  onClose,
+  pageId,
+  current,
+  onRestore,
+}) => {
+  const dispatch = useAppDispatch();
+  const { revisions } = useAppSelector((state) => state.pages);
+  const [leftId, setLeftId] = useState<string>("");
+  const [rightId, setRightId] = useState<string>(CURRENT);
+  const [mode, setMode] = useState<DiffMode>("text");
+
+  useEffect(() => {
+    if (open && revisions.pageId !== pageId) {
+      dispatch(fetchPageRevisions(pageId));
+    }
+  }, [open, pageId, revisions.pageId, dispatch]);
+
+  // Default to comparing the latest saved revision against the editor
+  useEffect(() => {
+    if (open && revisions.items.length > 0 && !leftId) {
+      setLeftId(revisions.items[0]._id);
+    }
+  }, [open, revisions.items, leftId]);
+
+  const resolve = (id: string): RevisionFields | undefined => {
+    if (id === CURRENT) {
+      return {
+        title: current.title,
+        metaTitle: current.metaTitle,
+        metaDescription: current.metaDescription,
+        metaKeywords: current.metaKeywords,
+        content: current.content || "",
+      };
+    }
+    return revisions.items.find((revision) => revision._id === id);
+  };
+
+  const labelFor = (id: string) => {
+    if (id === CURRENT) return "Current editor";
+    const revision = revisions.items.find((item) => item._id === id);
+    return revision ? formatRevisionDate(revision) : "";
+  };
+
+  const handleRestore = (revision: PageRevision) => {
+    onRestore(revision);
+    onClose();
+  };
+
+  const left = resolve(leftId);
+  const right = resolve(rightId);
+
+  const renderSelect = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void
+  ) => (
+    <FormControl size="small" sx={{ minWidth: 240 }}>
+      <InputLabel>{label}</InputLabel>
+      <Select
+        value={value}
+        label={label}
+        onChange={(e) => onChange(e.target.value)}
+        sx={{ borderRadius: "8px" }}
+      >
+        <MenuItem value={CURRENT}>Current editor</MenuItem>
+        {revisions.items.map((revision) => (
+          <MenuItem key={revision._id} value={revision._id}>
+            {formatRevisionDate(revision)}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xl" fullWidth>
+      <DialogTitle
+        sx={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}
+      >
+        Revision History
+        <IconButton onClick={onClose}>
+          <Close />
+        </IconButton>
+      </DialogTitle>
+      <DialogContent>
+        {revisions.error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {revisions.error}
+          </Alert>
+        )}
+
+        {revisions.loading ? (
+          <Box sx={{ display: "flex", justifyContent: "center", p: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : revisions.items.length === 0 ? (
+          <Alert severity="info">
+            No revisions yet. A revision is saved every time this page is updated.
+          </Alert>
+        ) : (
+          <Box sx={{ display: "flex", gap: 3, minHeight: 500 }}>
+            <Box sx={{ flex: "0 0 280px", borderRight: "1px solid #e0e0e0", pr: 2 }}>
+              <List dense disablePadding>
+                {revisions.items.map((revision) => (
+                  <ListItemButton
+                    key={revision._id}
+                    selected={revision._id === leftId}
+                    onClick={() => setLeftId(revision._id)}
+                    sx={{ borderRadius: "8px", mb: 0.5, alignItems: "flex-start" }}
+                  >
+                    <ListItemText
+                      primary={formatRevisionDate(revision)}
+                      secondary={
+                        <Box component="span" sx={{ display: "block" }}>
+                          <Box component="span" sx={{ display: "block" }}>
+                            {revision.title}
+                          </Box>
+                          {revision.createdBy && (
+                            <Box component="span" sx={{ display: "block" }}>
+                              by {revision.createdBy}
+                            </Box>
+                          )}
+                        </Box>
+                      }
+                    />
+                    <Box sx={{ display: "flex", flexDirection: "column", gap: 0.5, alignItems: "flex-end" }}>
+                      {revision.status && (
+                        <Chip label={PAGE_STATUS_LABELS[revision.status]} size="small" variant="outlined" />
+                      )}
+                      <Button
+                        size="small"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRestore(revision);
+                        }}
+                        sx={{ textTransform: "none" }}
+                      >
+                        Restore
+                      </Button>
+                    </Box>
+                  </ListItemButton>
+                ))}
+              </List>
+            </Box>
+
+            <Box sx={{ flex: 1, minWidth: 0 }}>
+              <Box sx={{ display: "flex", gap: 2, alignItems: "center", mb: 3, flexWrap: "wrap" }}>
+                {renderSelect("Compare", leftId, setLeftId)}
+                {renderSelect("With", rightId, setRightId)}
+                <ToggleButtonGroup
+                  value={mode}
+                  exclusive
+                  size="small"
+                  onChange={(_, value) => value && setMode(value)}
+                >
+                  <ToggleButton value="text" sx={{ textTransform: "none" }}>
+                    Text
+                  </ToggleButton>
+                  <ToggleButton value="html" sx={{ textTransform: "none" }}>
+                    HTML
+                  </ToggleButton>
+                </ToggleButtonGroup>
+              </Box>
+
+              {left && right &&
+                COMPARED_FIELDS.map((field) => (
+                  <Box key={field.key} sx={{ mb: 3 }}>
+                    <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                      {field.label}
+                    </Typography>
+                    <DiffView
+                      left={left[field.key] || ""}
+                      right={right[field.key] || ""}
+                      mode={field.key === "content" ? mode : "text"}
+                      leftLabel={labelFor(leftId)}
+                      rightLabel={labelFor(rightId)}
+                    />
+                  </Box>
+                ))}
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RevisionHistoryDialog;
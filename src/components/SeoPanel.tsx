@@ -0,0 +1,94 @@
+import React from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  CircularProgress,
+} from "@mui/material";
+import {
+  CheckCircle,
+  Warning,
+  Cancel,
+  AutoAwesome,
+} from "@mui/icons-material";
+import type { SeoReport, SeoCheckStatus } from "../utils/seo";
+
+interface SeoPanelProps {
+  report: SeoReport;
+  generating: boolean;
+  onGenerate: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_ICONS: Record<SeoCheckStatus, React.ReactNode> = {
+  pass: <CheckCircle fontSize="small" color="success" />,
+  warn: <Warning fontSize="small" color="warning" />,
+  fail: <Cancel fontSize="small" color="error" />,
+};
+
+const scoreColor = (score: number) =>
+  score >= 80 ? "success" : score >= 50 ? "warning" : "error";
+
+const SeoPanel: React.FC<SeoPanelProps> = ({
+  report,
+  generating,
+  onGenerate,
+  onCancel,
+}) => (
+  <Box
+    sx={{
+      border: "1px solid #e0e0e0",
+      borderRadius: "8px",
+      p: 2,
+    }}
+  >
+    <Box
+      sx={{
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        mb: 1,
+      }}
+    >
+      <Typography variant="subtitle2">SEO score: {report.score}/100</Typography>
+      <Button
+        size="small"
+        variant={generating ? "outlined" : "contained"}
+        color={generating ? "error" : "primary"}
+        startIcon={
+          generating ? <CircularProgress size={14} color="inherit" /> : <AutoAwesome />
+        }
+        onClick={generating ? onCancel : onGenerate}
+        sx={{ borderRadius: "8px", textTransform: "none" }}
+      >
+        {generating ? "Stop" : "Generate SEO"}
+      </Button>
+    </Box>
+    <LinearProgress
+      variant="determinate"
+      value={report.score}
+      color={scoreColor(report.score)}
+      sx={{ height: 6, borderRadius: 3, mb: 1 }}
+    />
+    {report.focusKeyword && (
+      <Typography variant="caption" color="text.secondary">
+        Focus keyword: {report.focusKeyword}
+      </Typography>
+    )}
+    <List dense disablePadding>
+      {report.checks.map((check) => (
+        <ListItem key={check.id} disableGutters>
+          <ListItemIcon sx={{ minWidth: 32 }}>{STATUS_ICONS[check.status]}</ListItemIcon>
+          <ListItemText primary={check.label} secondary={check.message} />
+        </ListItem>
+      ))}
+    </List>
+  </Box>
+);
+
+export default SeoPanel;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from "@mui/material";
+import type { CreatePageData } from "../types";
+import type { SeoSuggestion } from "../utils/seo";
+
+interface SeoSuggestionDialogProps {
+  open: boolean;
+  suggestion: SeoSuggestion | null;
+  current: CreatePageData;
+  onApply: (fields: Partial<SeoSuggestion>) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<keyof SeoSuggestion, string> = {
+  metaTitle: "Meta Title",
+  metaDescription: "Meta Description",
+  metaKeywords: "Meta Keywords",
+  tags: "Tags",
+  category: "Category",
+  readTime: "Read Time (minutes)",
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as Array<keyof SeoSuggestion>;
+
+const display = (value: unknown) =>
+  Array.isArray(value) ? value.join(", ") : value ? String(value) : "—";
+
+const SeoSuggestionDialog: React.FC<SeoSuggestionDialogProps> = ({
+  open,
+  suggestion,
+  current,
+  onApply,
+  onClose,
+}) => {
+  const [selected, setSelected] = useState<Array<keyof SeoSuggestion>>(FIELDS);
+
+  useEffect(() => {
+    if (open) setSelected(FIELDS);
+  }, [open]);
+
+  const toggle = (field: keyof SeoSuggestion) =>
+    setSelected((prev) =>
+      prev.includes(field) ? prev.filter((item) => item !== field) : [...prev, field]
+    );
+
+  const handleApply = () => {
+    if (!suggestion) return;
+    const fields: Partial<SeoSuggestion> = {};
+    selected.forEach((field) => {
+      (fields as Record<string, unknown>)[field] = suggestion[field];
+    });
+    onApply(fields);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Suggested SEO metadata</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          Pick the suggestions to apply. Nothing is saved until you save the page.
+        </DialogContentText>
+        {suggestion && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell padding="checkbox" />
+                <TableCell>Field</TableCell>
+                <TableCell>Current</TableCell>
+                <TableCell>Suggested</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {FIELDS.map((field) => (
+                <TableRow key={field}>
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      checked={selected.includes(field)}
+                      onChange={() => toggle(field)}
+                    />
+                  </TableCell>
+                  <TableCell sx={{ whiteSpace: "nowrap" }}>
+                    {FIELD_LABELS[field]}
+                  </TableCell>
+                  <TableCell sx={{ color: "text.secondary" }}>
+                    {display(current[field])}
+                  </TableCell>
+                  <TableCell>{display(suggestion[field])}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={onClose}
+          sx={{ borderRadius: "8px", textTransform: "none" }}
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleApply}
+          variant="contained"
+          disabled={!selected.length}
+          sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+        >
+          Apply selected
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SeoSuggestionDialog;
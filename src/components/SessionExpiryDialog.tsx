@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  CircularProgress,
+} from "@mui/material";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Warns before the session runs out and lets the user sign back in in place,
+// so open forms keep their unsaved state
+const SessionExpiryDialog: React.FC = () => {
+  const { user, sessionStatus, sessionExpiresAt, extendSession, reauthenticate, logout } =
+    useAuth();
+  const navigate = useNavigate();
+  const [now, setNow] = useState(Date.now());
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [needsCode, setNeedsCode] = useState(false);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const open = sessionStatus !== "active";
+  const expired = sessionStatus === "expired";
+
+  useEffect(() => {
+    if (sessionStatus !== "expiring") return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [sessionStatus]);
+
+  useEffect(() => {
+    if (!open) {
+      setNeedsPassword(false);
+      setPassword("");
+      setCode("");
+      setNeedsCode(false);
+      setError("");
+    }
+  }, [open]);
+
+  const handleStaySignedIn = async () => {
+    setBusy(true);
+    const renewed = await extendSession();
+    setBusy(false);
+    if (!renewed) {
+      setNeedsPassword(true);
+    }
+  };
+
+  const handleReauthenticate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    const result = await reauthenticate(password, needsCode ? code : undefined);
+    setBusy(false);
+    if (result.status === "two_factor") {
+      setNeedsCode(true);
+    } else if (result.status === "error") {
+      setError(needsCode ? "Incorrect password or code" : "Incorrect password");
+    }
+  };
+
+  const handleLogout = () => {
+    logout();
+    navigate("/login");
+  };
+
+  const showPasswordForm = expired || needsPassword;
+
+  return (
+    <Dialog open={open} maxWidth="xs" fullWidth>
+      <form onSubmit={handleReauthenticate}>
+        <DialogTitle>{expired ? "Session expired" : "Session expiring"}</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: showPasswordForm ? 2 : 0 }}>
+            {expired
+              ? "Your session has expired. Sign in again to continue where you left off; nothing you were working on has been lost."
+              : `Your session expires in ${formatRemaining(
+                  (sessionExpiresAt || now) - now
+                )}.`}
+          </DialogContentText>
+          {showPasswordForm && (
+            <>
+              {error && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {error}
+                </Alert>
+              )}
+              <TextField
+                label={`Password for ${user?.username || "your account"}`}
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+                fullWidth
+                autoComplete="current-password"
+              />
+              {needsCode && (
+                <TextField
+                  label="Authentication code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoFocus
+                  fullWidth
+                  autoComplete="one-time-code"
+                  inputProps={{ inputMode: "numeric" }}
+                  sx={{ mt: 2 }}
+                />
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={handleLogout}
+            disabled={busy}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Log out
+          </Button>
+          {showPasswordForm ? (
+            <Button
+              type="submit"
+              variant="contained"
+              disabled={busy || !password || (needsCode && !code)}
+              sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+            >
+              {busy && <CircularProgress size={16} sx={{ mr: 1 }} color="inherit" />}
+              Sign in
+            </Button>
+          ) : (
+            <Button
+              onClick={handleStaySignedIn}
+              variant="contained"
+              disabled={busy}
+              sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+            >
+              {busy && <CircularProgress size={16} sx={{ mr: 1 }} color="inherit" />}
+              Stay signed in
+            </Button>
+          )}
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
+
+export default SessionExpiryDialog;
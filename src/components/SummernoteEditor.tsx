@@ -1,4 +1,6 @@
 import { forwardRef, useImperativeHandle, useRef, useEffect, useState, lazy, Suspense } from 'react'
+import { Menu, MenuItem, ListItemText } from '@mui/material'
+import { toast } from 'react-toastify'
 import 'react-summernote-lite/dist/font/summernote.ttf';
 import 'react-summernote-lite/dist/summernote-lite.min.css';
 
@@ -16,6 +18,12 @@ declare global {
 window.$ = $
 window.jQuery = $
 
+import AIRewritePreviewDialog from './AIRewritePreviewDialog'
+import { useAIRewrite } from '../hooks/useAIRewrite'
+import { AI_REWRITE_ACTIONS, AIRewriteAction, AIRewriteActionId, rewriteActionLabel } from '../utils/aiRewrite'
+import { DEFAULT_AI_PROVIDER, AIProviderId } from '../services/ai'
+import { sanitizeHtml } from '../utils/sanitizeHtml'
+
 // Lazy load ReactSummernoteLite to avoid build issues
 const ReactSummernoteLite = lazy(() => import('react-summernote-lite'))
 
@@ -24,6 +32,18 @@ interface SummernoteEditorProps {
   onChange: (content: string) => void
   placeholder?: string
   height?: number
+  // Enables AI actions on the selected text through this provider
+  aiProvider?: AIProviderId
+}
+
+interface EditorSelection {
+  range: Range
+  html: string
+}
+
+interface PendingRewrite {
+  actionId: AIRewriteActionId
+  option?: string
 }
 
 export interface SummernoteEditorRef {
@@ -31,9 +51,79 @@ export interface SummernoteEditorRef {
 }
 
 const SummernoteEditor = forwardRef<SummernoteEditorRef, SummernoteEditorProps>(
-  ({ value, onChange, placeholder = 'Enter content...'}, ref) => {
+  ({ value, onChange, placeholder = 'Enter content...', aiProvider }, ref) => {
     const editorRef = useRef<any>(null)
     const [isLoaded, setIsLoaded] = useState(false)
+    const [aiAnchor, setAIAnchor] = useState<HTMLElement | null>(null)
+    const [optionsFor, setOptionsFor] = useState<AIRewriteAction | null>(null)
+    const [selection, setSelection] = useState<EditorSelection | null>(null)
+    const [pending, setPending] = useState<PendingRewrite | null>(null)
+    const { rewrite, reset, result, error, generating } = useAIRewrite(aiProvider || DEFAULT_AI_PROVIDER)
+
+    // Toolbar buttons are created once by Summernote, so they call through a ref
+    const openAIMenuRef = useRef<(anchor: HTMLElement) => void>(() => {})
+    openAIMenuRef.current = (anchor: HTMLElement) => {
+      const nativeSelection = window.getSelection()
+      const range = nativeSelection && nativeSelection.rangeCount ? nativeSelection.getRangeAt(0) : null
+      const container = range?.commonAncestorContainer
+      const element = container instanceof Element ? container : container?.parentElement
+      if (!range || range.collapsed || !element?.closest('.note-editable')) {
+        toast.info('Select some text in the editor first')
+        return
+      }
+      const wrapper = document.createElement('div')
+      wrapper.appendChild(range.cloneContents())
+      setSelection({ range: range.cloneRange(), html: wrapper.innerHTML })
+      setAIAnchor(anchor)
+    }
+
+    const closeMenus = () => {
+      setAIAnchor(null)
+      setOptionsFor(null)
+    }
+
+    const runAction = (actionId: AIRewriteActionId, option?: string) => {
+      closeMenus()
+      if (!selection) return
+      setPending({ actionId, option })
+      rewrite(actionId, selection.html, option)
+    }
+
+    const handleActionClick = (action: AIRewriteAction) => {
+      if (action.options) {
+        setOptionsFor(action)
+      } else {
+        runAction(action.id)
+      }
+    }
+
+    const closePreview = () => {
+      reset()
+      setPending(null)
+      setSelection(null)
+    }
+
+    // Swap the saved selection for the accepted text as a single undo step
+    const acceptRewrite = () => {
+      if (!selection || !editorRef.current) return
+      const editor = editorRef.current
+      // codeview.purify only drops iframes and scripts, so strip handlers and javascript: URLs first
+      const html = editor.summernote('codeview.purify', sanitizeHtml(result))
+      editor.summernote('editor.beforeCommand')
+      const nativeSelection = window.getSelection()
+      nativeSelection?.removeAllRanges()
+      nativeSelection?.addRange(selection.range)
+      selection.range.deleteContents()
+      const fragment = selection.range.createContextualFragment(html)
+      const lastNode = fragment.lastChild
+      selection.range.insertNode(fragment)
+      if (lastNode) {
+        selection.range.setStartAfter(lastNode)
+        selection.range.collapse(true)
+      }
+      editor.summernote('editor.afterCommand')
+      closePreview()
+    }
 
     useEffect(() => {
       if (editorRef.current && value !== undefined && isLoaded) {
@@ -72,8 +162,17 @@ const SummernoteEditor = forwardRef<SummernoteEditorRef, SummernoteEditorProps>(
               ['para', ['ul', 'ol', 'paragraph']],
               ['table', ['table']],
               ['insert', ['link', 'picture', 'video', 'hr']],
-              ['view', ['fullscreen', 'codeview', 'help']]
+              ['view', ['fullscreen', 'codeview', 'help']],
+              ...(aiProvider ? [['ai', ['aiActions']]] : [])
             ],
+            buttons: {
+              aiActions: () =>
+                (window.$ as any).summernote.ui.button({
+                  contents: '<span style="font-weight:600">✨ AI</span>',
+                  tooltip: 'AI actions for the selected text',
+                  click: (event: MouseEvent) => openAIMenuRef.current(event.currentTarget as HTMLElement)
+                }).render()
+            },
             callbacks: {
               onInit: function() {
                 if (value) {
@@ -91,6 +190,31 @@ const SummernoteEditor = forwardRef<SummernoteEditorRef, SummernoteEditorProps>(
             }
           }}
         />
+        <Menu anchorEl={aiAnchor} open={!!aiAnchor && !optionsFor} onClose={closeMenus}>
+          {AI_REWRITE_ACTIONS.map((action) => (
+            <MenuItem key={action.id} onClick={() => handleActionClick(action)}>
+              <ListItemText primary={action.options ? `${action.label}…` : action.label} />
+            </MenuItem>
+          ))}
+        </Menu>
+        <Menu anchorEl={aiAnchor} open={!!aiAnchor && !!optionsFor} onClose={closeMenus}>
+          {optionsFor?.options?.map((option) => (
+            <MenuItem key={option.value} onClick={() => runAction(optionsFor.id, option.value)}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </Menu>
+        <AIRewritePreviewDialog
+          open={!!pending}
+          title={pending ? rewriteActionLabel(pending.actionId, pending.option) : ''}
+          original={selection?.html || ''}
+          proposed={result}
+          generating={generating}
+          error={error}
+          onAccept={acceptRewrite}
+          onReject={closePreview}
+          onRegenerate={() => pending && selection && rewrite(pending.actionId, selection.html, pending.option)}
+        />
       </Suspense>
     )
   }
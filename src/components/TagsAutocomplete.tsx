@@ -0,0 +1,76 @@
+import React from "react";
+import { Autocomplete, Chip, TextField, createFilterOptions } from "@mui/material";
+import { useTaxonomy } from "../hooks/useTaxonomy";
+import { termKey } from "../utils/taxonomy";
+
+interface TagsAutocompleteProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  max?: number;
+  placeholder?: string;
+  error?: boolean;
+  helperText?: React.ReactNode;
+}
+
+// Tag chips that suggest canonical tags and turn synonyms into their canonical spelling
+const TagsAutocomplete: React.FC<TagsAutocompleteProps> = ({
+  value,
+  onChange,
+  max,
+  placeholder = "Add tags (press Enter to add)",
+  error,
+  helperText,
+}) => {
+  const { terms, options, resolve } = useTaxonomy("tag");
+
+  // Typing a synonym should still surface the canonical tag
+  const filterOptions = createFilterOptions<string>({
+    stringify: (option) =>
+      [option, ...(terms.find((term) => term.name === option)?.synonyms || [])].join(" "),
+  });
+
+  const handleChange = (_event: React.SyntheticEvent, values: string[]) => {
+    const seen = new Set<string>();
+    const tags = values
+      .map(resolve)
+      .filter((tag) => {
+        const key = termKey(tag);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    onChange(max ? tags.slice(0, max) : tags);
+  };
+
+  return (
+    <Autocomplete
+      multiple
+      freeSolo
+      options={options}
+      filterOptions={filterOptions}
+      filterSelectedOptions
+      value={value}
+      onChange={handleChange}
+      renderTags={(tags, getTagProps) =>
+        tags.map((option, index) => (
+          <Chip label={option} {...getTagProps({ index })} size="small" />
+        ))
+      }
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          placeholder={placeholder}
+          error={error}
+          helperText={helperText}
+          sx={{
+            "& .MuiOutlinedInput-root": {
+              borderRadius: "8px",
+            },
+          }}
+        />
+      )}
+    />
+  );
+};
+
+export default TagsAutocomplete;
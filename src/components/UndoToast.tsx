@@ -0,0 +1,34 @@
+import React from "react";
+import { Box, Button, Typography } from "@mui/material";
+import { toast, ToastContentProps } from "react-toastify";
+
+interface UndoToastProps extends Partial<ToastContentProps> {
+  message: string;
+  onUndo: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, closeToast }) => (
+  <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+    <Typography variant="body2" sx={{ flex: 1 }}>
+      {message}
+    </Typography>
+    <Button
+      size="small"
+      onClick={() => {
+        closeToast?.();
+        onUndo();
+      }}
+      sx={{ textTransform: "none", fontWeight: 600 }}
+    >
+      Undo
+    </Button>
+  </Box>
+);
+
+// Confirm a move to the trash, with a way back while the toast is showing
+export const showUndoToast = (message: string, onUndo: () => void) =>
+  toast.success((props: ToastContentProps) => (
+    <UndoToast {...props} message={message} onUndo={onUndo} />
+  ), { autoClose: 8000 });
+
+export default UndoToast;
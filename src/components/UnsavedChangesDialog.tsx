@@ -0,0 +1,62 @@
+import React from "react";
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+} from "@mui/material";
+import type { Blocker } from "react-router-dom";
+
+interface UnsavedChangesDialogProps {
+  blocker: Blocker;
+  onLeave?: () => void;
+}
+
+const UnsavedChangesDialog: React.FC<UnsavedChangesDialogProps> = ({
+  blocker,
+  onLeave,
+}) => {
+  const handleLeave = () => {
+    onLeave?.();
+    blocker.proceed?.();
+  };
+
+  return (
+    <Dialog open={blocker.state === "blocked"} onClose={() => blocker.reset?.()}>
+      <DialogTitle>Unsaved Changes</DialogTitle>
+      <DialogContent>
+        <DialogContentText>
+          You have unsaved changes on this page. If you leave now they will be
+          lost.
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={() => blocker.reset?.()}
+          sx={{
+            borderRadius: "8px",
+            textTransform: "none",
+          }}
+        >
+          Stay
+        </Button>
+        <Button
+          onClick={handleLeave}
+          color="error"
+          variant="contained"
+          sx={{
+            borderRadius: "8px",
+            textTransform: "none",
+            fontWeight: 500,
+          }}
+        >
+          Leave without saving
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default UnsavedChangesDialog;
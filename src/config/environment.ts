@@ -0,0 +1,92 @@
+export type EnvironmentName = 'local' | 'staging' | 'production'
+
+export interface EnvironmentProfile {
+  name: EnvironmentName
+  label: string
+  apiBaseUrl: string
+}
+
+const env = (import.meta as any).env || {}
+
+const configuredProfile = (name: EnvironmentName, label: string, apiBaseUrl: string | undefined) =>
+  apiBaseUrl ? { [name]: { name, label, apiBaseUrl } } : {}
+
+// Only profiles whose backend URL is configured for this build are offered
+export const ENVIRONMENT_PROFILES: Partial<Record<EnvironmentName, EnvironmentProfile>> = {
+  ...configuredProfile('local', 'Local', env.VITE_LOCAL_API_URL),
+  ...configuredProfile('staging', 'Staging', env.VITE_STAGING_API_URL),
+  ...configuredProfile('production', 'Production', env.VITE_PRODUCTION_API_URL || 'https://be-thefunneleffect.vercel.app/api'),
+}
+
+const STORAGE_KEY = 'da-cms-environment'
+
+const isEnvironmentName = (value: unknown): value is EnvironmentName =>
+  value === 'local' || value === 'staging' || value === 'production'
+
+const buildEnvironment: EnvironmentName = isEnvironmentName(env.VITE_APP_ENV)
+  ? env.VITE_APP_ENV
+  : 'production'
+
+// A production build always talks to its own backend; runtime switching would let a
+// crafted ?env= link send credentials to another host
+export const canSwitchEnvironment = Boolean(env.DEV) || buildEnvironment !== 'production'
+
+const isAvailable = (value: unknown): value is EnvironmentName =>
+  isEnvironmentName(value) && value in ENVIRONMENT_PROFILES
+
+// Priority (non-production builds only): ?env= query param (remembered), then a previous
+// runtime choice, then the build-time default
+const resolveEnvironment = (): EnvironmentName => {
+  if (!canSwitchEnvironment) return buildEnvironment
+  try {
+    const fromQuery = new URLSearchParams(window.location.search).get('env')
+    if (isAvailable(fromQuery)) {
+      localStorage.setItem(STORAGE_KEY, fromQuery)
+      return fromQuery
+    }
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (isAvailable(stored)) return stored
+  } catch {
+    // Storage can be unavailable (private mode); fall back to the build default
+  }
+  return buildEnvironment
+}
+
+const selectedEnvironment = resolveEnvironment()
+const pinnedApiBaseUrl = env.VITE_API_BASE_URL as string | undefined
+const selectedProfile = ENVIRONMENT_PROFILES[selectedEnvironment]
+
+if (!selectedProfile && !pinnedApiBaseUrl) {
+  throw new Error(
+    `No backend URL configured for the "${selectedEnvironment}" environment. ` +
+      `Set VITE_${selectedEnvironment.toUpperCase()}_API_URL or VITE_API_BASE_URL.`
+  )
+}
+
+const activeProfile: EnvironmentProfile = selectedProfile || {
+  name: selectedEnvironment,
+  label: selectedEnvironment.charAt(0).toUpperCase() + selectedEnvironment.slice(1),
+  apiBaseUrl: pinnedApiBaseUrl as string,
+}
+
+export const appConfig = {
+  environment: activeProfile,
+  isProduction: activeProfile.name === 'production',
+  // VITE_API_BASE_URL pins the backend regardless of the selected profile
+  apiBaseUrl: pinnedApiBaseUrl || activeProfile.apiBaseUrl,
+  apiTimeout: 10000,
+  cloudinary: {
+    cloudName: env.VITE_CLOUDINARY_CLOUD_NAME || 'your-cloud-name',
+    uploadPreset: env.VITE_CLOUDINARY_UPLOAD_PRESET || 'your-upload-preset',
+    audioUploadPreset: env.VITE_CLOUDINARY_AUDIO_UPLOAD_PRESET || 'da-orbit-audio',
+  },
+}
+
+// Switch profile at runtime; the whole app reloads so every client picks up the new base URL
+export const switchEnvironment = (name: EnvironmentName) => {
+  if (!canSwitchEnvironment || !isAvailable(name)) return
+  localStorage.setItem(STORAGE_KEY, name)
+  const url = new URL(window.location.href)
+  url.searchParams.delete('env')
+  window.location.replace(url.toString())
+}
@@ -1,30 +1,66 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import React, { createContext, useContext, useEffect, useCallback, ReactNode } from 'react'
 import axios from 'axios'
+import { appConfig } from '../config/environment'
+import { useAppDispatch, useAppSelector } from '../store/hooks'
+import {
+  loginStart,
+  loginSuccess,
+  loginFailure,
+  twoFactorRequired,
+  sessionExpiring,
+  sessionStatusChanged,
+  sessionRestoreFailed,
+  sessionRestoreDeferred,
+  logout as logoutAction,
+} from '../store/slices/authSlice'
+import type { AuthUser, SessionStatus } from '../types'
+import { isKnownRole } from '../utils/permissions'
+import {
+  getToken,
+  getRefreshToken,
+  setTokens,
+  clearTokens,
+  isTokenExpired,
+  refreshSession,
+  completeReauthentication,
+  cancelReauthentication,
+} from '../services/session'
 
-// Helper function to check if JWT token is expired
-const isTokenExpired = (token: string): boolean => {
-  try {
-    const payload = JSON.parse(atob(token.split('.')[1]))
-    const currentTime = Date.now() / 1000
-    return payload.exp < currentTime
-  } catch {
-    return true // If we can't decode, assume it's expired
+// Try a silent refresh this long before the access token expires
+const REFRESH_LEAD = 3 * 60 * 1000
+// Warn the user this long before expiry when silent refresh was not possible
+const WARNING_LEAD = 2 * 60 * 1000
+// Longer setTimeout delays overflow and fire at once, so long waits are split into hops
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+// The reducer quietly downgrades unknown roles to viewer; say so here so the account can be fixed
+const warnOnUnknownRole = (user: AuthUser) => {
+  if (!isKnownRole(user.role)) {
+    console.warn(`Unknown user role "${user.role ?? ''}"; treating the account as a viewer`)
   }
 }
 
-interface User {
-  id: string
-  username: string
-  email: string
-  role: string
-}
+export type { SessionStatus }
+
+// Accounts with two-factor enabled get a challenge instead of a session after the password step
+export type LoginResult =
+  | { status: 'success' }
+  | { status: 'two_factor'; challengeToken: string }
+  | { status: 'error' }
+
+export type TwoFactorMethod = 'totp' | 'recovery'
 
 interface AuthContextType {
   isAuthenticated: boolean
-  user: User | null
-  login: (username: string, password: string) => Promise<boolean>
+  user: AuthUser | null
+  login: (username: string, password: string) => Promise<LoginResult>
+  verifyTwoFactor: (challengeToken: string, code: string, method?: TwoFactorMethod) => Promise<boolean>
   logout: () => void
   loading: boolean
+  sessionExpiresAt: number | null
+  sessionStatus: SessionStatus
+  extendSession: () => Promise<boolean>
+  reauthenticate: (password: string, code?: string) => Promise<LoginResult>
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
@@ -34,30 +70,66 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState(false)
-  const [user, setUser] = useState<User | null>(null)
-  const [loading, setLoading] = useState(true)
+  const dispatch = useAppDispatch()
+  // Token renewals are dispatched by the store itself, see store/index.ts
+  const { isAuthenticated, user, loading, sessionExpiresAt, sessionStatus } = useAppSelector(
+    state => state.auth
+  )
 
   useEffect(() => {
     // Check if user is already logged in (from localStorage)
-    const token = localStorage.getItem('da-cms-token')
+    const token = getToken()
     if (token) {
-      // Check if token is expired before making API call
-      if (isTokenExpired(token)) {
-        console.log('Token is expired, removing from storage')
-        localStorage.removeItem('da-cms-token')
-        setLoading(false)
-      } else {
+      if (!isTokenExpired(token)) {
         verifyToken(token)
+      } else if (getRefreshToken()) {
+        refreshSession()
+          .then(newToken => verifyToken(newToken))
+          .catch(() => {
+            clearTokens()
+            dispatch(sessionRestoreFailed())
+          })
+      } else {
+        console.log('Token is expired, removing from storage')
+        clearTokens()
+        dispatch(sessionRestoreFailed())
       }
     } else {
-      setLoading(false)
+      dispatch(sessionRestoreFailed())
     }
   }, [])
 
+  // Silent renewal, then a warning, then the expired state
+  useEffect(() => {
+    if (!isAuthenticated || !sessionExpiresAt) return
+
+    const timers = new Set<ReturnType<typeof setTimeout>>()
+    // Run the callback at the given time, re-arming when a clamped timer fires early
+    const scheduleAt = (at: number, callback: () => void) => {
+      const timer = setTimeout(() => {
+        timers.delete(timer)
+        if (Date.now() < at) scheduleAt(at, callback)
+        else callback()
+      }, Math.min(Math.max(0, at - Date.now()), MAX_TIMEOUT))
+      timers.add(timer)
+    }
+
+    if (getRefreshToken()) {
+      scheduleAt(sessionExpiresAt - REFRESH_LEAD, () => {
+        refreshSession().catch(error => {
+          console.log('Silent token refresh failed', error)
+        })
+      })
+    }
+    scheduleAt(sessionExpiresAt - WARNING_LEAD, () => dispatch(sessionExpiring()))
+    scheduleAt(sessionExpiresAt, () => dispatch(sessionStatusChanged('expired')))
+
+    return () => timers.forEach(clearTimeout)
+  }, [dispatch, isAuthenticated, sessionExpiresAt])
+
   const verifyToken = async (token: string, retryCount = 0) => {
     try {
-      const response = await axios.get('https://be-thefunneleffect.vercel.app/api/auth/verify', {
+      const response = await axios.get(`${appConfig.apiBaseUrl}/auth/verify`, {
         headers: {
           Authorization: `Bearer ${token}`
         },
@@ -65,14 +137,25 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       })
 
       if (response.data.user) {
-        setUser(response.data.user)
-        setIsAuthenticated(true)
+        warnOnUnknownRole(response.data.user)
+        dispatch(loginSuccess({ user: response.data.user, token }))
+      } else {
+        dispatch(sessionRestoreFailed())
       }
     } catch (error: any) {
       // Only remove token if it's an authentication error (401), not network errors
       if (error.response?.status === 401) {
+        if (retryCount === 0 && getRefreshToken()) {
+          try {
+            const newToken = await refreshSession()
+            return verifyToken(newToken, retryCount + 1)
+          } catch {
+            // Fall through and sign out
+          }
+        }
         console.log('Token is invalid or expired, removing from storage')
-        localStorage.removeItem('da-cms-token')
+        clearTokens()
+        dispatch(sessionRestoreFailed())
       } else if (retryCount < 2) {
         // Network error - retry up to 2 times with exponential backoff
         console.log(`Network error during token verification, retrying... (${retryCount + 1}/3)`)
@@ -81,43 +164,129 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       } else {
         // Network error after retries - keep the token and try again later
         console.log('Network error during token verification after retries, keeping token for later retry')
+        dispatch(sessionRestoreDeferred())
       }
-    } finally {
-      setLoading(false)
     }
   }
 
-  const login = async (username: string, password: string): Promise<boolean> => {
-    try {
-      const response = await axios.post('https://be-thefunneleffect.vercel.app/api/auth/login', {
-        username,
-        password
-      })
+  const startSession = (data: { token?: string; refreshToken?: string; user?: AuthUser }) => {
+    if (!data.token || !data.user) {
+      dispatch(loginFailure('Login response did not include a session'))
+      return null
+    }
+    const token = data.token
+    setTokens({ token, refreshToken: data.refreshToken })
+    warnOnUnknownRole(data.user)
+    dispatch(loginSuccess({ user: data.user, token }))
+    return token
+  }
 
-      if (response.data.token && response.data.user) {
-        const token = response.data.token
-        const userData = response.data.user
+  const requestLogin = async (username: string, password: string) => {
+    const response = await axios.post(`${appConfig.apiBaseUrl}/auth/login`, {
+      username,
+      password
+    })
+    return response.data
+  }
 
-        localStorage.setItem('da-cms-token', token)
-        setUser(userData)
-        setIsAuthenticated(true)
-        return true
+  const requestTwoFactor = async (challengeToken: string, code: string, method: TwoFactorMethod) => {
+    const response = await axios.post(`${appConfig.apiBaseUrl}/auth/2fa/verify`, {
+      challengeToken,
+      ...(method === 'recovery' ? { recoveryCode: code.trim() } : { code: code.replace(/\s/g, '') })
+    })
+    return response.data
+  }
+
+  const login = async (username: string, password: string): Promise<LoginResult> => {
+    dispatch(loginStart())
+    try {
+      const data = await requestLogin(username, password)
+      if (data.twoFactorRequired && data.challengeToken) {
+        dispatch(twoFactorRequired())
+        return { status: 'two_factor', challengeToken: data.challengeToken }
       }
-      return false
-    } catch (error) {
+      return startSession(data) ? { status: 'success' } : { status: 'error' }
+    } catch (error: any) {
       console.error('Login error:', error)
+      dispatch(loginFailure(error.response?.data?.message || 'Login failed'))
+      return { status: 'error' }
+    }
+  }
+
+  const verifyTwoFactor = async (
+    challengeToken: string,
+    code: string,
+    method: TwoFactorMethod = 'totp'
+  ): Promise<boolean> => {
+    try {
+      return !!startSession(await requestTwoFactor(challengeToken, code, method))
+    } catch (error: any) {
+      console.error('Two-factor verification error:', error)
+      dispatch(loginFailure(error.response?.data?.message || 'Invalid authentication code'))
       return false
     }
   }
 
+  // Sign back in without leaving the current screen; queued requests are retried.
+  // With two-factor enabled, call again with the code once the challenge is reported.
+  const reauthenticate = async (password: string, code?: string): Promise<LoginResult> => {
+    if (!user) return { status: 'error' }
+    try {
+      let data = await requestLogin(user.username, password)
+      if (data.twoFactorRequired && data.challengeToken) {
+        if (!code) {
+          return { status: 'two_factor', challengeToken: data.challengeToken }
+        }
+        data = await requestTwoFactor(data.challengeToken, code, 'totp')
+      }
+      const token = startSession(data)
+      if (token) {
+        completeReauthentication(token)
+        return { status: 'success' }
+      }
+      return { status: 'error' }
+    } catch (error: any) {
+      console.error('Re-authentication error:', error)
+      dispatch(loginFailure(error.response?.data?.message || 'Re-authentication failed'))
+      return { status: 'error' }
+    }
+  }
+
+  const extendSession = useCallback(async (): Promise<boolean> => {
+    try {
+      await refreshSession()
+      return true
+    } catch {
+      return false
+    }
+  }, [])
+
   const logout = () => {
-    setIsAuthenticated(false)
-    setUser(null)
-    localStorage.removeItem('da-cms-token')
+    const refreshToken = getRefreshToken()
+    if (refreshToken) {
+      // Best effort: revoke the refresh token server-side
+      axios.post(`${appConfig.apiBaseUrl}/auth/logout`, { refreshToken }).catch(() => {})
+    }
+    cancelReauthentication()
+    clearTokens()
+    dispatch(logoutAction())
   }
 
   return (
-    <AuthContext.Provider value={{ isAuthenticated, user, login, logout, loading }}>
+    <AuthContext.Provider
+      value={{
+        isAuthenticated,
+        user,
+        login,
+        verifyTwoFactor,
+        logout,
+        loading,
+        sessionExpiresAt,
+        sessionStatus,
+        extendSession,
+        reauthenticate,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   )
@@ -129,4 +298,4 @@ export const useAuth = (): AuthContextType => {
     throw new Error('useAuth must be used within an AuthProvider')
   }
   return context
-}
\ No newline at end of file
+}
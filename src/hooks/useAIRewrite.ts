@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from "react";
+import { aiClient, isAbortError, AIProviderId } from "../services/ai";
+import { buildRewritePrompt, AIRewriteActionId } from "../utils/aiRewrite";
+
+// Runs a rewrite action on a selected fragment and keeps the proposal for preview
+export const useAIRewrite = (provider: AIProviderId) => {
+  const [result, setResult] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const reset = () => {
+    cancel();
+    setResult("");
+    setError(null);
+  };
+
+  const rewrite = async (
+    actionId: AIRewriteActionId,
+    html: string,
+    option?: string
+  ) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult("");
+    setError(null);
+    setGenerating(true);
+
+    try {
+      await aiClient.stream(provider, buildRewritePrompt(actionId, html, option), {
+        signal: controller.signal,
+        onProgress: setResult,
+      });
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("Error rewriting selection:", err);
+        setError(err instanceof Error ? err.message : "Failed to rewrite selection");
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setGenerating(false);
+      }
+    }
+  };
+
+  return {
+    rewrite,
+    cancel,
+    reset,
+    result,
+    error,
+    generating,
+  };
+};
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface AutosaveDraft<T> {
+  data: T;
+  savedAt: number;
+}
+
+interface UseAutosaveProps<T> {
+  storageKey: string;
+  getData: () => T;
+  enabled: boolean;
+  interval?: number;
+}
+
+export const useAutosave = <T>({
+  storageKey,
+  getData,
+  enabled,
+  interval = 10000,
+}: UseAutosaveProps<T>) => {
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+
+  // Keep the latest getter without restarting the timer on every render
+  const getDataRef = useRef(getData);
+  getDataRef.current = getData;
+
+  const saveNow = useCallback(() => {
+    try {
+      const draft: AutosaveDraft<T> = {
+        data: getDataRef.current(),
+        savedAt: Date.now(),
+      };
+      localStorage.setItem(storageKey, JSON.stringify(draft));
+      setLastSavedAt(draft.savedAt);
+    } catch (err) {
+      // Quota errors should never break editing
+      console.error("Autosave failed:", err);
+    }
+  }, [storageKey]);
+
+  const readDraft = useCallback((): AutosaveDraft<T> | null => {
+    try {
+      const raw = localStorage.getItem(storageKey);
+      return raw ? (JSON.parse(raw) as AutosaveDraft<T>) : null;
+    } catch {
+      return null;
+    }
+  }, [storageKey]);
+
+  const clearDraft = useCallback(() => {
+    localStorage.removeItem(storageKey);
+    setLastSavedAt(null);
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timer = setInterval(saveNow, interval);
+    // Also save when the tab is hidden or closed so a crash loses as little as possible
+    const handleHide = () => {
+      if (document.visibilityState === "hidden") saveNow();
+    };
+    window.addEventListener("pagehide", saveNow);
+    document.addEventListener("visibilitychange", handleHide);
+
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("pagehide", saveNow);
+      document.removeEventListener("visibilitychange", handleHide);
+    };
+  }, [enabled, saveNow, interval]);
+
+  return {
+    lastSavedAt,
+    saveNow,
+    readDraft,
+    clearDraft,
+  };
+};
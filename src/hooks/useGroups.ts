@@ -0,0 +1,26 @@
+import { useEffect, useMemo } from "react";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { fetchGroups } from "../store/slices/groupsSlice";
+
+// Page groups from the taxonomy admin, as select options for forms and filters
+export const useGroups = () => {
+  const dispatch = useAppDispatch();
+  const { items, loading, lastFetched } = useAppSelector((state) => state.groups);
+
+  useEffect(() => {
+    if (!lastFetched) {
+      dispatch(fetchGroups());
+    }
+  }, [dispatch, lastFetched]);
+
+  const groupOptions = useMemo(
+    () => items.map((group) => ({ value: group.slug, label: group.name })),
+    [items]
+  );
+
+  // Pages can still carry a slug whose group was removed; show it as-is
+  const groupLabel = (slug: string) =>
+    items.find((group) => group.slug === slug)?.name || slug;
+
+  return { groups: items, groupOptions, groupLabel, loading, loaded: !!lastFetched };
+};
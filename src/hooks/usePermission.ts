@@ -0,0 +1,17 @@
+import { useAppSelector } from "../store/hooks";
+import { roleHasPermission } from "../utils/permissions";
+import type { Permission } from "../types";
+
+// Role of the signed-in user plus a checker for the permission matrix
+export const usePermissions = () => {
+  const { isAuthenticated, role } = useAppSelector((state) => state.auth);
+
+  return {
+    role,
+    can: (permission: Permission) =>
+      isAuthenticated && roleHasPermission(role, permission),
+  };
+};
+
+export const usePermission = (permission: Permission): boolean =>
+  usePermissions().can(permission);
@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { fetchPromptTemplates } from "../store/slices/promptTemplatesSlice";
+import { templatesFor, defaultTemplateFor } from "../utils/promptTemplates";
+import type { PromptContentType } from "../types";
+
+// Templates available for a content type plus the one currently picked in a form
+export const usePromptTemplates = (contentType: PromptContentType) => {
+  const dispatch = useAppDispatch();
+  const { items, lastFetched } = useAppSelector((state) => state.promptTemplates);
+  const [selectedId, setSelectedId] = useState<string>("");
+
+  useEffect(() => {
+    if (!lastFetched) {
+      dispatch(fetchPromptTemplates());
+    }
+  }, [dispatch, lastFetched]);
+
+  const templates = useMemo(() => templatesFor(items, contentType), [items, contentType]);
+  const selected =
+    templates.find((template) => template._id === selectedId) ||
+    defaultTemplateFor(items, contentType);
+
+  return {
+    templates,
+    selected,
+    setSelectedId,
+  };
+};
@@ -0,0 +1,20 @@
+import { useEffect, useMemo } from "react";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { fetchReplyTemplates } from "../store/slices/replyTemplatesSlice";
+import { BUILTIN_REPLY_TEMPLATES } from "../utils/replyTemplates";
+
+// Built-in reply templates followed by the ones saved on the server
+export const useReplyTemplates = () => {
+  const dispatch = useAppDispatch();
+  const { items, loading, lastFetched } = useAppSelector((state) => state.replyTemplates);
+
+  useEffect(() => {
+    if (!lastFetched) {
+      dispatch(fetchReplyTemplates());
+    }
+  }, [dispatch, lastFetched]);
+
+  const templates = useMemo(() => [...BUILTIN_REPLY_TEMPLATES, ...items], [items]);
+
+  return { templates, loading };
+};
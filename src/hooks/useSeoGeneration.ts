@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from "react";
+import { aiClient, isAbortError, AIProviderId } from "../services/ai";
+import { buildSeoPrompt, parseSeoSuggestion, SeoSuggestion } from "../utils/seo";
+import type { CreatePageData } from "../types";
+
+interface UseSeoGenerationProps {
+  onError: (error: string) => void;
+}
+
+// Proposes SEO metadata from the current page content through the AI layer
+export const useSeoGeneration = ({ onError }: UseSeoGenerationProps) => {
+  const [generating, setGenerating] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const generateSeo = async (
+    provider: AIProviderId,
+    page: Pick<CreatePageData, "title" | "description" | "content">
+  ): Promise<SeoSuggestion | null> => {
+    if (!page.title || !page.content) {
+      onError("Title and content are required to generate SEO metadata");
+      return null;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setGenerating(true);
+
+    try {
+      const text = await aiClient.generate(provider, buildSeoPrompt(page), {
+        signal: controller.signal,
+      });
+      return parseSeoSuggestion(text, page.content);
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("Error generating SEO metadata:", err);
+        onError(
+          err instanceof Error ? err.message : "Failed to generate SEO metadata"
+        );
+      }
+      return null;
+    } finally {
+      setGenerating(false);
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  return {
+    generateSeo,
+    cancel,
+    generating,
+  };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { pagesAPI } from "../services/api";
+import type { SlugAvailability } from "../types";
+
+export type SlugCheckStatus = "idle" | "checking" | "available" | "taken" | "error";
+
+// Wait for a pause in typing before asking the server
+const CHECK_DELAY_MS = 400;
+
+// Live check that no other page uses the slug; excludeId is the page being edited
+export const useSlugAvailability = (slug: string | undefined, excludeId?: string) => {
+  const [status, setStatus] = useState<SlugCheckStatus>("idle");
+  const [conflict, setConflict] = useState<SlugAvailability["conflict"]>();
+
+  useEffect(() => {
+    setConflict(undefined);
+    // Malformed slugs are reported by the form schema instead
+    if (!slug || !/^[a-z0-9-]+$/.test(slug)) {
+      setStatus("idle");
+      return;
+    }
+
+    setStatus("checking");
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await pagesAPI.checkSlug(slug, excludeId);
+        if (cancelled) return;
+        setStatus(response.data.available ? "available" : "taken");
+        setConflict(response.data.conflict);
+      } catch (error) {
+        console.error("Error checking slug availability:", error);
+        if (!cancelled) setStatus("error");
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [slug, excludeId]);
+
+  return { status, conflict };
+};
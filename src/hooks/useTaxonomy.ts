@@ -0,0 +1,29 @@
+import { useEffect, useMemo } from "react";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import { fetchTerms } from "../store/slices/taxonomySlice";
+import { resolveTerm } from "../utils/taxonomy";
+import type { TaxonomyKind } from "../types";
+
+// Canonical tags or categories for autocomplete, with synonym resolution
+export const useTaxonomy = (kind: TaxonomyKind) => {
+  const dispatch = useAppDispatch();
+  const { items, lastFetched } = useAppSelector((state) => state.taxonomy);
+
+  useEffect(() => {
+    if (!lastFetched) {
+      dispatch(fetchTerms());
+    }
+  }, [dispatch, lastFetched]);
+
+  const terms = useMemo(() => items.filter((term) => term.kind === kind), [items, kind]);
+  const options = useMemo(
+    () => terms.map((term) => term.name).sort((a, b) => a.localeCompare(b)),
+    [terms]
+  );
+
+  return {
+    terms,
+    options,
+    resolve: (value: string) => resolveTerm(value, terms),
+  };
+};
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useBlocker } from "react-router-dom";
+
+export const useUnsavedChangesGuard = (when: boolean) => {
+  // Set right before an intentional navigation (e.g. after a successful save)
+  const bypassRef = useRef(false);
+
+  const blocker = useBlocker(
+    ({ currentLocation, nextLocation }) =>
+      when &&
+      !bypassRef.current &&
+      currentLocation.pathname !== nextLocation.pathname
+  );
+
+  // Browser-level prompt for reloads and closing the tab
+  useEffect(() => {
+    if (!when) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [when]);
+
+  const allowNavigation = useCallback(() => {
+    bypassRef.current = true;
+  }, []);
+
+  return { blocker, allowNavigation };
+};
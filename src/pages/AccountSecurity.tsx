@@ -0,0 +1,396 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Card,
+  CardContent,
+  Chip,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Skeleton,
+  Link,
+} from "@mui/material";
+import {
+  ContentCopy as ContentCopyIcon,
+  Download as DownloadIcon,
+} from "@mui/icons-material";
+import { toast } from "react-toastify";
+import QRCode from "qrcode";
+import { twoFactorAPI } from "../services/api";
+import { useAuth } from "../contexts/AuthContext";
+import type { TwoFactorStatus, TwoFactorSetup } from "../types";
+
+type CodeAction = "disable" | "regenerate";
+
+const AccountSecurity: React.FC = () => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+
+  const loadStatus = async () => {
+    try {
+      const response = await twoFactorAPI.getStatus();
+      setStatus(response.data);
+      setError(null);
+    } catch (err) {
+      console.error("Error loading two-factor status:", err);
+      setError("Failed to load two-factor authentication settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Use the server's QR image when it sends one, otherwise draw it from the otpauth URL
+  useEffect(() => {
+    setQrCode(setup?.qrCode || null);
+    if (!setup || setup.qrCode) return;
+
+    let cancelled = false;
+    QRCode.toDataURL(setup.otpauthUrl, { width: 200, margin: 1 })
+      .then((dataUrl) => {
+        if (!cancelled) setQrCode(dataUrl);
+      })
+      .catch((err) => console.error("Error rendering two-factor QR code:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [setup]);
+
+  const startSetup = async () => {
+    setBusy(true);
+    try {
+      const response = await twoFactorAPI.setup();
+      setSetup(response.data);
+      setCode("");
+    } catch (err) {
+      console.error("Error starting two-factor setup:", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      const response = await twoFactorAPI.enable(code.replace(/\s/g, ""));
+      setSetup(null);
+      setCode("");
+      setBackupCodes(response.data.backupCodes);
+      await loadStatus();
+    } catch (err) {
+      console.error("Error enabling two-factor authentication:", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submitCodeAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeAction) return;
+    setBusy(true);
+    try {
+      if (codeAction === "disable") {
+        await twoFactorAPI.disable(code.trim());
+      } else {
+        const response = await twoFactorAPI.regenerateBackupCodes(code.trim());
+        setBackupCodes(response.data.backupCodes);
+      }
+      setCodeAction(null);
+      setCode("");
+      await loadStatus();
+    } catch (err) {
+      console.error("Error updating two-factor authentication:", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copyBackupCodes = async () => {
+    if (!backupCodes) return;
+    await navigator.clipboard.writeText(backupCodes.join("\n"));
+    toast.success("Backup codes copied");
+  };
+
+  const downloadBackupCodes = () => {
+    if (!backupCodes) return;
+    const blob = new Blob(
+      [
+        `Recovery codes for ${user?.username || "your account"}\n` +
+          "Each code can be used once.\n\n" +
+          backupCodes.join("\n"),
+      ],
+      { type: "text/plain" }
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "cms-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Box sx={{ maxWidth: 720 }}>
+      <Typography variant="h6" component="h1" sx={{ mb: 3 }}>
+        Account Security
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Card sx={{ boxShadow: "none", border: "1px solid #e0e0e0", borderRadius: 2 }}>
+        <CardContent>
+          <Box
+            sx={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              mb: 1,
+            }}
+          >
+            <Typography variant="subtitle1" fontWeight={600}>
+              Two-factor authentication
+            </Typography>
+            {loading ? (
+              <Skeleton variant="rounded" width={70} height={24} />
+            ) : (
+              status && (
+                <Chip
+                  label={status.enabled ? "On" : "Off"}
+                  color={status.enabled ? "success" : "default"}
+                  size="small"
+                />
+              )
+            )}
+          </Box>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Require a code from an authenticator app (Google Authenticator,
+            1Password, Authy...) in addition to your password when signing in.
+          </Typography>
+
+          {!loading && status && !status.enabled && !setup && (
+            <Button
+              variant="contained"
+              onClick={startSetup}
+              disabled={busy}
+              sx={{ borderRadius: "8px", textTransform: "none" }}
+            >
+              Set up two-factor authentication
+            </Button>
+          )}
+
+          {setup && (
+            <Box component="form" onSubmit={confirmSetup}>
+              <Typography variant="body2" sx={{ mb: 2 }}>
+                {qrCode
+                  ? "1. Scan this QR code with your authenticator app."
+                  : "1. Add this key to your authenticator app."}
+              </Typography>
+              {qrCode && (
+                <Box
+                  component="img"
+                  src={qrCode}
+                  alt="Two-factor authentication QR code"
+                  sx={{ width: 200, height: 200, mb: 2, display: "block" }}
+                />
+              )}
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {qrCode ? "Can't scan it? " : ""}Enter this key manually:{" "}
+                <Box
+                  component="code"
+                  sx={{ fontFamily: "monospace", bgcolor: "grey.100", px: 1, borderRadius: 1 }}
+                >
+                  {setup.secret.match(/.{1,4}/g)?.join(" ")}
+                </Box>{" "}
+                or <Link href={setup.otpauthUrl}>open it in an app on this device</Link>.
+              </Typography>
+              <Typography variant="body2" sx={{ mb: 1 }}>
+                2. Enter the 6-digit code the app shows.
+              </Typography>
+              <Box sx={{ display: "flex", gap: 2, alignItems: "center" }}>
+                <TextField
+                  size="small"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  inputProps={{ inputMode: "numeric", maxLength: 7 }}
+                  autoFocus
+                />
+                <Button
+                  type="submit"
+                  variant="contained"
+                  disabled={busy || code.replace(/\s/g, "").length < 6}
+                  sx={{ borderRadius: "8px", textTransform: "none" }}
+                >
+                  Verify and enable
+                </Button>
+                <Button
+                  onClick={() => setSetup(null)}
+                  disabled={busy}
+                  sx={{ borderRadius: "8px", textTransform: "none" }}
+                >
+                  Cancel
+                </Button>
+              </Box>
+            </Box>
+          )}
+
+          {!loading && status?.enabled && (
+            <Box>
+              <Typography variant="body2" sx={{ mb: 2 }}>
+                {status.backupCodesRemaining} unused recovery code
+                {status.backupCodesRemaining === 1 ? "" : "s"} left.
+              </Typography>
+              {status.backupCodesRemaining <= 2 && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  You are running out of recovery codes. Generate new ones so
+                  you do not get locked out if you lose your device.
+                </Alert>
+              )}
+              <Box sx={{ display: "flex", gap: 2 }}>
+                <Button
+                  variant="outlined"
+                  onClick={() => setCodeAction("regenerate")}
+                  sx={{ borderRadius: "8px", textTransform: "none" }}
+                >
+                  Generate new recovery codes
+                </Button>
+                <Button
+                  variant="outlined"
+                  color="error"
+                  onClick={() => setCodeAction("disable")}
+                  sx={{ borderRadius: "8px", textTransform: "none" }}
+                >
+                  Turn off
+                </Button>
+              </Box>
+            </Box>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Confirm with a code */}
+      <Dialog
+        open={!!codeAction}
+        onClose={() => !busy && setCodeAction(null)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <form onSubmit={submitCodeAction}>
+          <DialogTitle>
+            {codeAction === "disable"
+              ? "Turn off two-factor authentication"
+              : "Generate new recovery codes"}
+          </DialogTitle>
+          <DialogContent>
+            <DialogContentText sx={{ mb: 2 }}>
+              Enter a code from your authenticator app or one of your recovery
+              codes to confirm.
+              {codeAction === "regenerate" &&
+                " Your current recovery codes will stop working."}
+            </DialogContentText>
+            <TextField
+              label="Code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              autoFocus
+              fullWidth
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button
+              onClick={() => setCodeAction(null)}
+              disabled={busy}
+              sx={{ borderRadius: "8px", textTransform: "none" }}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="contained"
+              color={codeAction === "disable" ? "error" : "primary"}
+              disabled={busy || !code.trim()}
+              sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+            >
+              {codeAction === "disable" ? "Turn off" : "Generate"}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+
+      {/* Backup codes are shown exactly once */}
+      <Dialog open={!!backupCodes} maxWidth="xs" fullWidth>
+        <DialogTitle>Save your recovery codes</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            Each code signs you in once if you lose access to your authenticator
+            app. Store them somewhere safe; they will not be shown again.
+          </DialogContentText>
+          <Box
+            sx={{
+              display: "grid",
+              gridTemplateColumns: "1fr 1fr",
+              gap: 1,
+              fontFamily: "monospace",
+              bgcolor: "grey.100",
+              borderRadius: 1,
+              p: 2,
+            }}
+          >
+            {backupCodes?.map((backupCode) => (
+              <span key={backupCode}>{backupCode}</span>
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            startIcon={<ContentCopyIcon />}
+            onClick={copyBackupCodes}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Copy
+          </Button>
+          <Button
+            startIcon={<DownloadIcon />}
+            onClick={downloadBackupCodes}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Download
+          </Button>
+          <Button
+            variant="contained"
+            onClick={() => setBackupCodes(null)}
+            sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+          >
+            I have saved them
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default AccountSecurity;
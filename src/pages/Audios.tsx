@@ -30,6 +30,7 @@ import {
   setViewMode,
 } from "../store/slices/audiosSlice";
 import { uploadAudioToCloudinary } from "../services/api";
+import { usePermission } from "../hooks/usePermission";
 
 const Audios: React.FC = () => {
   const dispatch = useAppDispatch();
@@ -48,6 +49,7 @@ const Audios: React.FC = () => {
     viewMode,
   } = useAppSelector((state) => state.audios);
 
+  const canUpload = usePermission("media.upload");
   const [uploadLoading, setUploadLoading] = useState(false);
   const [playingId, setPlayingId] = useState<string | null>(null);
 
@@ -222,7 +224,7 @@ const Audios: React.FC = () => {
                 <CloudUploadIcon />
               )
             }
-            disabled={uploadLoading}
+            disabled={uploadLoading || !canUpload}
             sx={{ borderRadius: "8px", boxShadow: "none" }}
           >
             {uploadLoading ? "Uploading..." : "Upload Audio"}
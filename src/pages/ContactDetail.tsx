@@ -0,0 +1,480 @@
+import React, { useState, useEffect } from "react";
+import { useParams, useNavigate, Link as RouterLink } from "react-router-dom";
+import {
+  Box,
+  Typography,
+  Button,
+  CircularProgress,
+  Alert,
+  Paper,
+  Grid,
+  Chip,
+  Link,
+  MenuItem,
+  TextField,
+  Divider,
+  Tooltip,
+  IconButton,
+} from "@mui/material";
+import {
+  ArrowBack as ArrowBackIcon,
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  OpenInNew as OpenInNewIcon,
+} from "@mui/icons-material";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  fetchContacts,
+  fetchAssignees,
+  fetchContactReplies,
+  updateContactStatus,
+  assignContact,
+  addContactNote,
+  deleteContactNote,
+  setPagination,
+} from "../store/slices/contactsSlice";
+import { usePermission } from "../hooks/usePermission";
+import { contactsAPI } from "../services/api";
+import type { Contact, ContactStatus } from "../types";
+import ContactNotes from "../components/ContactNotes";
+import ContactReplyThread from "../components/ContactReplyThread";
+import ContactReplyComposer from "../components/ContactReplyComposer";
+import {
+  CONTACT_STATUSES,
+  CONTACT_STATUS_LABELS,
+  CONTACT_STATUS_COLORS,
+  getContactStatus,
+  contactActivity,
+  isWebUrl,
+} from "../utils/contacts";
+
+// Where the open contact sits in the contacts list, remembered even if an edit drops it from the filter
+interface ListPosition {
+  index: number;
+  prevId?: string;
+  nextId?: string;
+}
+
+const sectionSx = { p: 3, borderRadius: "12px", mb: 3 };
+
+// Anything but an http(s) URL (javascript:, data:...) is shown as text, never linked
+const SourceLink: React.FC<{ url: string }> = ({ url }) =>
+  isWebUrl(url) ? (
+    <Link href={url} target="_blank" rel="noopener noreferrer">
+      {url}
+      <OpenInNewIcon sx={{ fontSize: 14, ml: 0.5, verticalAlign: "middle" }} />
+    </Link>
+  ) : (
+    <>{url}</>
+  );
+
+const ContactDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const canEdit = usePermission("contacts.edit");
+  const {
+    items: contacts,
+    pagination,
+    searchTerm,
+    statusFilter,
+    assigneeFilter,
+    createdFrom,
+    createdTo,
+    assignees,
+    replies,
+  } = useAppSelector((state) => state.contacts);
+  const [contact, setContact] = useState<Contact | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [listPosition, setListPosition] = useState<ListPosition | null>(null);
+  const [stepping, setStepping] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchContact = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await contactsAPI.getById(id);
+        setContact(response.data);
+      } catch (err) {
+        console.error("Error fetching contact:", err);
+        setError("Failed to load contact");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchContact();
+    dispatch(fetchContactReplies(id));
+  }, [dispatch, id]);
+
+  useEffect(() => {
+    if (canEdit) dispatch(fetchAssignees());
+  }, [dispatch, canEdit]);
+
+  useEffect(() => {
+    setListPosition(null);
+  }, [id]);
+
+  useEffect(() => {
+    const index = contacts.findIndex((item) => item._id === id);
+    if (index !== -1) {
+      setListPosition({
+        index,
+        prevId: contacts[index - 1]?._id,
+        nextId: contacts[index + 1]?._id,
+      });
+    }
+  }, [contacts, id]);
+
+  const hasPrev = !!listPosition && (!!listPosition.prevId || pagination.page > 1);
+  const hasNext =
+    !!listPosition && (!!listPosition.nextId || pagination.page < pagination.totalPages);
+
+  // Step to the neighbouring contact, loading the adjacent list page when at an edge
+  const step = async (direction: -1 | 1) => {
+    if (!listPosition) return;
+    const neighbourId = direction === 1 ? listPosition.nextId : listPosition.prevId;
+    if (neighbourId) {
+      navigate(`/contacts/${neighbourId}`);
+      return;
+    }
+
+    const page = pagination.page + direction;
+    setStepping(true);
+    try {
+      dispatch(setPagination({ page, pageSize: pagination.pageSize }));
+      const result = await dispatch(
+        fetchContacts({
+          page,
+          pageSize: pagination.pageSize,
+          search: searchTerm,
+          status: statusFilter,
+          assignee: assigneeFilter,
+          createdFrom,
+          createdTo,
+        })
+      ).unwrap();
+      const target =
+        direction === 1 ? result.contacts[0] : result.contacts[result.contacts.length - 1];
+      if (target) navigate(`/contacts/${target._id}`);
+    } catch (err) {
+      console.error("Error loading contacts page:", err);
+    } finally {
+      setStepping(false);
+    }
+  };
+
+  const handleStatusChange = async (status: ContactStatus) => {
+    if (!contact) return;
+    try {
+      setContact(await dispatch(updateContactStatus({ id: contact._id, status })).unwrap());
+    } catch (err) {
+      console.error("Error updating contact status:", err);
+    }
+  };
+
+  const handleAssign = async (assigneeId: string | null) => {
+    if (!contact) return;
+    try {
+      setContact(await dispatch(assignContact({ id: contact._id, assigneeId })).unwrap());
+    } catch (err) {
+      console.error("Error assigning contact:", err);
+    }
+  };
+
+  const formatDate = (dateString: string) => new Date(dateString).toLocaleString();
+
+  const backButton = (
+    <Button
+      startIcon={<ArrowBackIcon />}
+      onClick={() => navigate("/contacts")}
+      variant="outlined"
+      sx={{
+        borderRadius: "8px",
+        textTransform: "none",
+        fontWeight: 500,
+      }}
+    >
+      Back to Contacts
+    </Button>
+  );
+
+  if (loading) {
+    return (
+      <Box
+        display="flex"
+        justifyContent="center"
+        alignItems="center"
+        minHeight="400px"
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !contact) {
+    return (
+      <Box>
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error || "Contact not found"}
+        </Alert>
+        {backButton}
+      </Box>
+    );
+  }
+
+  const status = getContactStatus(contact.status);
+  const source = contact.source;
+  const threadReplies = replies.contactId === contact._id ? replies.items : [];
+  const activity = contactActivity(contact, threadReplies);
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          mb: 3,
+        }}
+      >
+        {backButton}
+        {listPosition && (
+          <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            <Tooltip title="Previous contact">
+              <span>
+                <IconButton onClick={() => step(-1)} disabled={!hasPrev || stepping}>
+                  <ChevronLeftIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Typography variant="body2" color="text.secondary">
+              {(pagination.page - 1) * pagination.pageSize + listPosition.index + 1} of{" "}
+              {pagination.totalItems}
+            </Typography>
+            <Tooltip title="Next contact">
+              <span>
+                <IconButton onClick={() => step(1)} disabled={!hasNext || stepping}>
+                  <ChevronRightIcon />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
+        )}
+      </Box>
+
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 3 }}>
+        <Typography variant="h4" component="h1" fontWeight="bold">
+          {contact.name}
+        </Typography>
+        <Chip
+          label={CONTACT_STATUS_LABELS[status]}
+          color={CONTACT_STATUS_COLORS[status]}
+          size="small"
+        />
+      </Box>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={7}>
+          <Paper sx={sectionSx}>
+            <Typography variant="h6" gutterBottom>
+              Submission
+            </Typography>
+            <Grid container spacing={2} sx={{ mb: 2 }}>
+              <Grid item xs={12} sm={6}>
+                <Typography variant="caption" color="text.secondary">
+                  Email
+                </Typography>
+                <Typography variant="body2">
+                  <Link href={`mailto:${contact.email}`}>{contact.email}</Link>
+                </Typography>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <Typography variant="caption" color="text.secondary">
+                  Mobile
+                </Typography>
+                <Typography variant="body2">{contact.mobile || "—"}</Typography>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <Typography variant="caption" color="text.secondary">
+                  Received
+                </Typography>
+                <Typography variant="body2">{formatDate(contact.createdAt)}</Typography>
+              </Grid>
+              {Object.entries(contact.fields || {}).map(([name, value]) => (
+                <Grid item xs={12} sm={6} key={name}>
+                  <Typography variant="caption" color="text.secondary">
+                    {name}
+                  </Typography>
+                  <Typography variant="body2">{value || "—"}</Typography>
+                </Grid>
+              ))}
+            </Grid>
+            <Typography variant="caption" color="text.secondary">
+              Message
+            </Typography>
+            <Typography variant="body1" sx={{ whiteSpace: "pre-wrap" }}>
+              {contact.description}
+            </Typography>
+          </Paper>
+
+          <Paper sx={sectionSx}>
+            <Typography variant="h6" gutterBottom>
+              Replies
+            </Typography>
+            <ContactReplyThread replies={threadReplies} loading={replies.loading} />
+            {canEdit && (
+              <>
+                <Divider sx={{ my: 3 }} />
+                <ContactReplyComposer contact={contact} />
+              </>
+            )}
+          </Paper>
+        </Grid>
+
+        <Grid item xs={12} md={5}>
+          <Paper sx={sectionSx}>
+            <Typography variant="h6" gutterBottom>
+              Follow-up
+            </Typography>
+            <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+              <TextField
+                select
+                label="Status"
+                value={status}
+                onChange={(e) => handleStatusChange(e.target.value as ContactStatus)}
+                disabled={!canEdit}
+                size="small"
+                fullWidth
+              >
+                {CONTACT_STATUSES.map((value) => (
+                  <MenuItem key={value} value={value}>
+                    {CONTACT_STATUS_LABELS[value]}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                label="Assignee"
+                value={contact.assignee?._id || ""}
+                onChange={(e) => handleAssign(e.target.value || null)}
+                disabled={!canEdit}
+                size="small"
+                fullWidth
+                SelectProps={{ displayEmpty: true }}
+                InputLabelProps={{ shrink: true }}
+              >
+                <MenuItem value="">
+                  <em>Unassigned</em>
+                </MenuItem>
+                {/* Keep the current assignee selectable even if they left the team */}
+                {contact.assignee &&
+                  !assignees.some((user) => user._id === contact.assignee?._id) && (
+                    <MenuItem value={contact.assignee._id}>
+                      {contact.assignee.username}
+                    </MenuItem>
+                  )}
+                {assignees.map((user) => (
+                  <MenuItem key={user._id} value={user._id}>
+                    {user.username}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Box>
+          </Paper>
+
+          <Paper sx={sectionSx}>
+            <Typography variant="h6" gutterBottom>
+              Source
+            </Typography>
+            {!source ? (
+              <Typography variant="body2" color="text.secondary">
+                No source was recorded for this submission.
+              </Typography>
+            ) : (
+              <Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
+                {(source.pageTitle || source.pageSlug) && (
+                  <Typography variant="body2">
+                    Page:{" "}
+                    {source.pageSlug ? (
+                      <Link component={RouterLink} to={`/pages/preview/${source.pageSlug}`}>
+                        {source.pageTitle || source.pageSlug}
+                      </Link>
+                    ) : (
+                      source.pageTitle
+                    )}
+                  </Typography>
+                )}
+                {source.url && (
+                  <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+                    URL: <SourceLink url={source.url} />
+                  </Typography>
+                )}
+                {source.referrer && (
+                  <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+                    Referrer: <SourceLink url={source.referrer} />
+                  </Typography>
+                )}
+                {(source.utmSource || source.utmMedium || source.utmCampaign) && (
+                  <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1 }}>
+                    {source.utmSource && <Chip size="small" label={`source: ${source.utmSource}`} />}
+                    {source.utmMedium && <Chip size="small" label={`medium: ${source.utmMedium}`} />}
+                    {source.utmCampaign && (
+                      <Chip size="small" label={`campaign: ${source.utmCampaign}`} />
+                    )}
+                  </Box>
+                )}
+              </Box>
+            )}
+          </Paper>
+
+          <Paper sx={sectionSx}>
+            <Typography variant="h6" gutterBottom>
+              Notes
+            </Typography>
+            <ContactNotes
+              notes={contact.notes || []}
+              canEdit={canEdit}
+              onAdd={async (body) =>
+                setContact(await dispatch(addContactNote({ id: contact._id, body })).unwrap())
+              }
+              onDelete={async (noteId) => {
+                try {
+                  setContact(
+                    await dispatch(deleteContactNote({ id: contact._id, noteId })).unwrap()
+                  );
+                } catch (err) {
+                  console.error("Error deleting note:", err);
+                }
+              }}
+            />
+          </Paper>
+
+          <Paper sx={sectionSx}>
+            <Typography variant="h6" gutterBottom>
+              Activity
+            </Typography>
+            {activity.map((event) => (
+              <Box
+                key={event.id}
+                sx={{ py: 1, borderBottom: "1px solid #e0e0e0" }}
+              >
+                <Typography variant="body2">{event.text}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {event.by ? `${event.by} · ` : ""}
+                  {formatDate(event.at)}
+                </Typography>
+              </Box>
+            ))}
+          </Paper>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
+
+export default ContactDetail;
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import {
   Box,
   Typography,
@@ -12,6 +13,12 @@ import {
   Tooltip,
   TextField,
   InputAdornment,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Chip,
+  Badge,
 } from "@mui/material";
 import {
   DataGrid,
@@ -23,27 +30,63 @@ import {
   Delete as DeleteIcon,
   Refresh as RefreshIcon,
   Visibility as VisibilityIcon,
+  OpenInNew as OpenIcon,
   Search as SearchIcon,
+  StickyNote2 as NotesIcon,
+  Download as DownloadIcon,
+  Reply as ReplyIcon,
+  AutoDelete as TrashIcon,
 } from "@mui/icons-material";
+import { toast } from "react-toastify";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import {
   fetchContacts,
+  fetchAssignees,
   deleteContactById,
+  updateContactStatus,
+  assignContact,
+  addContactNote,
+  deleteContactNote,
+  fetchContactReplies,
   setPagination,
   clearError,
   forceRefresh,
 } from "../store/slices/contactsSlice";
-import type { Contact } from "../types";
+import { restoreTrashItem } from "../store/slices/trashSlice";
+import { usePermission } from "../hooks/usePermission";
+import { contactsAPI } from "../services/api";
+import type { Contact, ContactStatus } from "../types";
 import TableSkeleton from "../components/TableSkeleton";
+import ContactNotes from "../components/ContactNotes";
+import ContactReplyThread from "../components/ContactReplyThread";
+import ContactReplyComposer from "../components/ContactReplyComposer";
+import { showUndoToast } from "../components/UndoToast";
+import {
+  CONTACT_STATUSES,
+  CONTACT_STATUS_LABELS,
+  CONTACT_STATUS_COLORS,
+  getContactStatus,
+  contactFilterParams,
+  contactsToCsv,
+} from "../utils/contacts";
+import { downloadFile } from "../utils/csv";
+import { trashPath } from "../utils/trash";
 
 const ContactList: React.FC = () => {
   const dispatch = useAppDispatch();
+  const navigate = useNavigate();
   const {
     items: contacts,
     loading,
     error,
     pagination,
     searchTerm: reduxSearchTerm,
+    statusFilter: reduxStatusFilter,
+    assigneeFilter: reduxAssigneeFilter,
+    createdFrom: reduxCreatedFrom,
+    createdTo: reduxCreatedTo,
+    assignees,
+    replies,
     lastFetched,
   } = useAppSelector((state) => state.contacts);
 
@@ -52,6 +95,17 @@ const ContactList: React.FC = () => {
   const [searchTimeout, setSearchTimeout] = useState<NodeJS.Timeout | null>(
     null
   );
+  const [statusFilter, setStatusFilter] = useState<ContactStatus | "">(reduxStatusFilter);
+  const [assigneeFilter, setAssigneeFilter] = useState(reduxAssigneeFilter);
+  const [createdFrom, setCreatedFrom] = useState(reduxCreatedFrom);
+  const [createdTo, setCreatedTo] = useState(reduxCreatedTo);
+  const canDelete = usePermission("contacts.delete");
+  const canEdit = usePermission("contacts.edit");
+  const [notesContactId, setNotesContactId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const notesContact = contacts.find((contact) => contact._id === notesContactId);
+  // Kept as a snapshot so the dialog stays open if the row leaves the filtered list
+  const [replyContact, setReplyContact] = useState<Contact | null>(null);
   const [descriptionDialogOpen, setDescriptionDialogOpen] = useState(false);
   const [selectedDescription, setSelectedDescription] = useState("");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -63,12 +117,20 @@ const ContactList: React.FC = () => {
     setSearchInput(reduxSearchTerm);
   }, [reduxSearchTerm]);
 
+  useEffect(() => {
+    dispatch(fetchAssignees());
+  }, [dispatch]);
+
   useEffect(() => {
     // Check if we need to fetch data
     const shouldFetch =
       !lastFetched || // No data cached
       contacts.length === 0 || // No contacts in state
-      searchTerm !== reduxSearchTerm; // Search term changed
+      searchTerm !== reduxSearchTerm || // Search term changed
+      statusFilter !== reduxStatusFilter ||
+      assigneeFilter !== reduxAssigneeFilter ||
+      createdFrom !== reduxCreatedFrom ||
+      createdTo !== reduxCreatedTo; // Filters changed
 
     if (shouldFetch) {
       dispatch(
@@ -76,6 +138,10 @@ const ContactList: React.FC = () => {
           page: pagination.page,
           pageSize: pagination.pageSize,
           search: searchTerm,
+          status: statusFilter,
+          assignee: assigneeFilter,
+          createdFrom,
+          createdTo,
         })
       );
     }
@@ -85,6 +151,14 @@ const ContactList: React.FC = () => {
     pagination.pageSize,
     searchTerm,
     reduxSearchTerm,
+    statusFilter,
+    reduxStatusFilter,
+    assigneeFilter,
+    reduxAssigneeFilter,
+    createdFrom,
+    reduxCreatedFrom,
+    createdTo,
+    reduxCreatedTo,
     lastFetched,
     contacts.length,
   ]);
@@ -135,6 +209,54 @@ const ContactList: React.FC = () => {
     };
   }, [searchTimeout]);
 
+  // Apply a filter change and go back to the first page
+  const changeFilter = <T,>(setter: (value: T) => void, value: T) => {
+    setter(value);
+    dispatch(
+      setPagination({
+        page: 1,
+        pageSize: pagination.pageSize,
+      })
+    );
+  };
+
+  const hasFilters = !!(statusFilter || assigneeFilter || createdFrom || createdTo);
+
+  const clearFilters = () => {
+    setStatusFilter("");
+    setAssigneeFilter("");
+    setCreatedFrom("");
+    setCreatedTo("");
+    dispatch(
+      setPagination({
+        page: 1,
+        pageSize: pagination.pageSize,
+      })
+    );
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const rows = await contactsAPI.getAllMatching(
+        contactFilterParams({
+          search: searchTerm,
+          status: statusFilter,
+          assignee: assigneeFilter,
+          createdFrom,
+          createdTo,
+        })
+      );
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(`contacts-${date}.csv`, contactsToCsv(rows), "text/csv;charset=utf-8");
+      toast.success(`Exported ${rows.length} contact${rows.length === 1 ? "" : "s"}`);
+    } catch (error) {
+      console.error("Error exporting contacts:", error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleDelete = (contact: Contact) => {
     setContactToDelete(contact);
     setDeleteDialogOpen(true);
@@ -144,9 +266,13 @@ const ContactList: React.FC = () => {
     if (!contactToDelete) return;
 
     try {
-      await dispatch(deleteContactById(contactToDelete._id));
+      const { _id: id, name } = contactToDelete;
+      await dispatch(deleteContactById(id)).unwrap();
       setDeleteDialogOpen(false);
       setContactToDelete(null);
+      showUndoToast(`"${name}" moved to trash`, () => {
+        dispatch(restoreTrashItem({ type: "contacts", id }));
+      });
 
       // If this was the last item on the current page and we're not on page 1,
       // go back to the previous page
@@ -186,6 +312,11 @@ const ContactList: React.FC = () => {
     setDescriptionDialogOpen(true);
   };
 
+  const handleReply = (contact: Contact) => {
+    setReplyContact(contact);
+    dispatch(fetchContactReplies(contact._id));
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -209,7 +340,12 @@ const ContactList: React.FC = () => {
       minWidth: 200,
       renderCell: (params) => (
         <Box>
-          <Typography variant="subtitle2" fontWeight="bold">
+          <Typography
+            variant="subtitle2"
+            fontWeight="bold"
+            onClick={() => navigate(`/contacts/${params.row._id}`)}
+            sx={{ cursor: "pointer", "&:hover": { textDecoration: "underline" } }}
+          >
             {params.row.name}
           </Typography>
           <Typography variant="body2" color="text.secondary">
@@ -249,6 +385,85 @@ const ContactList: React.FC = () => {
         </Box>
       ),
     },
+    {
+      field: "status",
+      headerName: "Status",
+      width: 150,
+      renderCell: (params: { row: Contact }) => {
+        const status = getContactStatus(params.row.status);
+        return canEdit ? (
+          <Select
+            value={status}
+            size="small"
+            variant="standard"
+            onChange={(e) =>
+              dispatch(
+                updateContactStatus({
+                  id: params.row._id,
+                  status: e.target.value as ContactStatus,
+                })
+              )
+            }
+            sx={{ minWidth: 120 }}
+          >
+            {CONTACT_STATUSES.map((value) => (
+              <MenuItem key={value} value={value}>
+                {CONTACT_STATUS_LABELS[value]}
+              </MenuItem>
+            ))}
+          </Select>
+        ) : (
+          <Chip
+            label={CONTACT_STATUS_LABELS[status]}
+            color={CONTACT_STATUS_COLORS[status]}
+            size="small"
+          />
+        );
+      },
+    },
+    {
+      field: "assignee",
+      headerName: "Assignee",
+      width: 160,
+      renderCell: (params: { row: Contact }) =>
+        canEdit ? (
+          <Select
+            value={params.row.assignee?._id || ""}
+            size="small"
+            variant="standard"
+            displayEmpty
+            onChange={(e) =>
+              dispatch(
+                assignContact({
+                  id: params.row._id,
+                  assigneeId: (e.target.value as string) || null,
+                })
+              )
+            }
+            sx={{ minWidth: 130 }}
+          >
+            <MenuItem value="">
+              <em>Unassigned</em>
+            </MenuItem>
+            {/* Keep the current assignee selectable even if they left the team */}
+            {params.row.assignee &&
+              !assignees.some((user) => user._id === params.row.assignee?._id) && (
+                <MenuItem value={params.row.assignee._id}>
+                  {params.row.assignee.username}
+                </MenuItem>
+              )}
+            {assignees.map((user) => (
+              <MenuItem key={user._id} value={user._id}>
+                {user.username}
+              </MenuItem>
+            ))}
+          </Select>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            {params.row.assignee?.username || "Unassigned"}
+          </Typography>
+        ),
+    },
     {
       field: "createdAt",
       headerName: "Date",
@@ -263,18 +478,47 @@ const ContactList: React.FC = () => {
       field: "actions",
       type: "actions",
       headerName: "Actions",
-      width: 100,
+      width: 180,
       getActions: (params: GridRowParams<Contact>) => [
         <GridActionsCellItem
-          key="view"
+          key="open"
+          icon={
+            <Tooltip title="Open Contact">
+              <OpenIcon />
+            </Tooltip>
+          }
+          label="Open Contact"
+          onClick={() => navigate(`/contacts/${params.row._id}`)}
+        />,
+        <GridActionsCellItem
+          key="notes"
+          icon={
+            <Tooltip title="Notes">
+              <Badge
+                badgeContent={params.row.notes?.length || 0}
+                color="primary"
+                max={99}
+              >
+                <NotesIcon />
+              </Badge>
+            </Tooltip>
+          }
+          label="Notes"
+          onClick={() => setNotesContactId(params.row._id)}
+        />,
+        ...(canEdit ? [
+        <GridActionsCellItem
+          key="reply"
           icon={
-            <Tooltip title="View Description">
-              <VisibilityIcon />
+            <Tooltip title="Reply">
+              <ReplyIcon />
             </Tooltip>
           }
-          label="View Description"
-          onClick={() => handleViewDescription(params.row.description)}
+          label="Reply"
+          onClick={() => handleReply(params.row)}
         />,
+        ] : []),
+        ...(canDelete ? [
         <GridActionsCellItem
           key="delete"
           icon={
@@ -285,6 +529,7 @@ const ContactList: React.FC = () => {
           label="Delete"
           onClick={() => handleDelete(params.row)}
         />,
+        ] : []),
       ],
     },
   ];
@@ -320,24 +565,57 @@ const ContactList: React.FC = () => {
             Contact Messages
           </Typography>
         </Box>
-        <Button
-          variant="contained"
-          startIcon={<RefreshIcon />}
-          onClick={handleRefresh}
-          sx={{
-            borderRadius: "8px",
-            textTransform: "none",
-            fontWeight: 500,
-            px: 3,
-            py: 1,
-          }}
-        >
-          Refresh
-        </Button>
+        <Box sx={{ display: "flex", gap: 1 }}>
+          {canDelete && (
+            <Button
+              variant="outlined"
+              startIcon={<TrashIcon />}
+              onClick={() => navigate(trashPath("contacts"))}
+              sx={{
+                borderRadius: "8px",
+                textTransform: "none",
+                fontWeight: 500,
+                px: 3,
+                py: 1,
+              }}
+            >
+              Trash
+            </Button>
+          )}
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={handleExport}
+            disabled={exporting}
+            sx={{
+              borderRadius: "8px",
+              textTransform: "none",
+              fontWeight: 500,
+              px: 3,
+              py: 1,
+            }}
+          >
+            Export CSV
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<RefreshIcon />}
+            onClick={handleRefresh}
+            sx={{
+              borderRadius: "8px",
+              textTransform: "none",
+              fontWeight: 500,
+              px: 3,
+              py: 1,
+            }}
+          >
+            Refresh
+          </Button>
+        </Box>
       </Box>
 
-      {/* Search */}
-      <Box sx={{ display: "flex", gap: 2, mb: 2, alignItems: "center" }}>
+      {/* Search and filters */}
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2, mb: 2, alignItems: "center" }}>
         <TextField
           placeholder="Search contacts..."
           value={searchInput}
@@ -358,6 +636,74 @@ const ContactList: React.FC = () => {
           size="small"
         />
 
+        <FormControl sx={{ minWidth: 150 }} size="small">
+          <InputLabel>Status</InputLabel>
+          <Select
+            value={statusFilter}
+            onChange={(e) =>
+              changeFilter(setStatusFilter, e.target.value as ContactStatus | "")
+            }
+            label="Status"
+            sx={{ borderRadius: "8px" }}
+          >
+            <MenuItem value="">All Statuses</MenuItem>
+            {CONTACT_STATUSES.map((status) => (
+              <MenuItem key={status} value={status}>
+                {CONTACT_STATUS_LABELS[status]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl sx={{ minWidth: 160 }} size="small">
+          <InputLabel>Assignee</InputLabel>
+          <Select
+            value={assigneeFilter}
+            onChange={(e) => changeFilter(setAssigneeFilter, e.target.value)}
+            label="Assignee"
+            sx={{ borderRadius: "8px" }}
+          >
+            <MenuItem value="">Everyone</MenuItem>
+            <MenuItem value="unassigned">Unassigned</MenuItem>
+            {assignees.map((user) => (
+              <MenuItem key={user._id} value={user._id}>
+                {user.username}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={createdFrom}
+          onChange={(e) => changeFilter(setCreatedFrom, e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ max: createdTo || undefined }}
+          sx={{ "& .MuiOutlinedInput-root": { borderRadius: "8px" } }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={createdTo}
+          onChange={(e) => changeFilter(setCreatedTo, e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          inputProps={{ min: createdFrom || undefined }}
+          sx={{ "& .MuiOutlinedInput-root": { borderRadius: "8px" } }}
+        />
+
+        {hasFilters && (
+          <Button
+            size="small"
+            onClick={clearFilters}
+            sx={{ textTransform: "none" }}
+          >
+            Clear filters
+          </Button>
+        )}
+
         {searchTerm && (
           <Typography variant="body2" color="text.secondary">
             Searching for: "{searchTerm}"
@@ -378,7 +724,13 @@ const ContactList: React.FC = () => {
         </Alert>
       )}
 
-      {!loading && contacts.length === 0 && !searchTerm && (
+      {!loading && contacts.length === 0 && !searchTerm && hasFilters && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          No contacts match the selected filters.
+        </Alert>
+      )}
+
+      {!loading && contacts.length === 0 && !searchTerm && !hasFilters && (
         <Alert severity="info" sx={{ mb: 2 }}>
           No contact messages found.
         </Alert>
@@ -445,6 +797,72 @@ const ContactList: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Notes Dialog */}
+      <Dialog
+        open={!!notesContact}
+        onClose={() => setNotesContactId(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Notes for {notesContact?.name}</DialogTitle>
+        <DialogContent>
+          {notesContact && (
+            <ContactNotes
+              notes={notesContact.notes || []}
+              canEdit={canEdit}
+              onAdd={(body) =>
+                dispatch(addContactNote({ id: notesContact._id, body })).unwrap()
+              }
+              onDelete={(noteId) =>
+                dispatch(deleteContactNote({ id: notesContact._id, noteId }))
+              }
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setNotesContactId(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Reply Dialog */}
+      <Dialog
+        open={!!replyContact}
+        onClose={() => setReplyContact(null)}
+        maxWidth="md"
+        fullWidth
+      >
+        <DialogTitle>Reply to {replyContact?.name}</DialogTitle>
+        <DialogContent dividers>
+          {replyContact && (
+            <>
+              <Typography variant="subtitle2" gutterBottom>
+                Their message
+              </Typography>
+              <Typography
+                variant="body2"
+                color="text.secondary"
+                sx={{ whiteSpace: "pre-wrap", mb: 3 }}
+              >
+                {replyContact.description}
+              </Typography>
+              <Typography variant="subtitle2" gutterBottom>
+                Sent replies
+              </Typography>
+              <Box sx={{ mb: 3 }}>
+                <ContactReplyThread
+                  replies={replies.contactId === replyContact._id ? replies.items : []}
+                  loading={replies.loading}
+                />
+              </Box>
+              <ContactReplyComposer contact={replyContact} />
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReplyContact(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog
         open={deleteDialogOpen}
@@ -455,8 +873,9 @@ const ContactList: React.FC = () => {
         <DialogTitle>Delete Contact</DialogTitle>
         <DialogContent>
           <DialogContentText>
-            Are you sure you want to delete the contact "{contactToDelete?.name}
-            "? This action cannot be undone.
+            Are you sure you want to delete the contact "{contactToDelete?.name}"?
+            It will be moved to the trash, where it can be restored until it is
+            permanently deleted.
           </DialogContentText>
         </DialogContent>
         <DialogActions>
@@ -7,48 +7,99 @@ import {
   CardContent,
   Alert,
   Skeleton,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
 } from "@mui/material";
 import {
   FileText,
-  Users,
   Activity,
-  Eye,
-  TrendingUp,
-  DollarSign,
   Music,
   ListMusic,
+  Mail,
+  MailPlus,
+  Image,
+  AudioLines,
 } from "lucide-react";
 import Charts from "../components/Charts";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
-import { fetchDashboardData } from "../store/slices/dashboardSlice";
+import {
+  fetchDashboardData,
+  setDateRange,
+  rangeForPreset,
+  DashboardRangePreset,
+} from "../store/slices/dashboardSlice";
+
+const RANGE_PRESETS: Array<{ value: Exclude<DashboardRangePreset, "custom">; label: string }> = [
+  { value: "7d", label: "7 days" },
+  { value: "30d", label: "30 days" },
+  { value: "90d", label: "90 days" },
+  { value: "12m", label: "12 months" },
+];
 
 const Dashboard: React.FC = () => {
-  // Hard coded stats
+  const dispatch = useAppDispatch();
+  const {
+    loading,
+    error,
+    lastFetched,
+    counts,
+    createdInRange,
+    imagesTruncated,
+    statusCounts,
+    series,
+    range,
+  } = useAppSelector((state) => state.dashboard);
+
   const stats = [
-    { title: "Total Pages", value: 156, icon: FileText, color: "#2196f3" },
-    { title: "Total Tracks", value: 89, icon: Music, color: "#ff5722" },
-    { title: "Total Playlists", value: 23, icon: ListMusic, color: "#673ab7" },
-    { title: "Total Users", value: 1250, icon: Users, color: "#4caf50" },
-    { title: "Active Pages", value: 45, icon: Activity, color: "#ff9800" },
-    { title: "Views Today", value: 3200, icon: Eye, color: "#9c27b0" },
-    { title: "Growth Rate", value: "+12%", icon: TrendingUp, color: "#00bcd4" },
-    { title: "Revenue", value: "$24,500", icon: DollarSign, color: "#8bc34a" },
+    { title: "Total Pages", value: counts.pages, icon: FileText, color: "#2196f3" },
+    { title: "Published Pages", value: statusCounts.published, icon: Activity, color: "#ff9800" },
+    { title: "Total Tracks", value: counts.tracks, icon: Music, color: "#ff5722" },
+    { title: "Total Playlists", value: counts.playlists, icon: ListMusic, color: "#673ab7" },
+    { title: "Total Contacts", value: counts.contacts, icon: Mail, color: "#4caf50" },
+    { title: "New Contacts", value: createdInRange.contacts, icon: MailPlus, color: "#00bcd4" },
+    { title: "Images", value: imagesTruncated ? `${counts.images}+` : counts.images, icon: Image, color: "#9c27b0" },
+    { title: "Audios", value: counts.audios, icon: AudioLines, color: "#8bc34a" },
   ];
 
-  const dispatch = useAppDispatch();
-  const { loading, error, lastFetched } = useAppSelector(
-    (state) => state.dashboard
-  );
-
   useEffect(() => {
+    // Presets are relative to today, so a range restored from an earlier visit may be a day behind
+    if (range.preset !== "custom") {
+      const current = rangeForPreset(range.preset);
+      if (current.from !== range.from || current.to !== range.to) {
+        dispatch(setDateRange(current));
+        return;
+      }
+    }
+
     const CACHE_DURATION = 5 * 60 * 1000;
     const shouldFetch =
       !lastFetched || Date.now() - lastFetched > CACHE_DURATION;
 
     if (shouldFetch) {
-      dispatch(fetchDashboardData());
+      dispatch(fetchDashboardData(range));
+    }
+  }, [dispatch, lastFetched, range]);
+
+  const handlePresetChange = (
+    _: React.MouseEvent<HTMLElement>,
+    preset: Exclude<DashboardRangePreset, "custom"> | null
+  ) => {
+    if (preset) {
+      dispatch(setDateRange(rangeForPreset(preset)));
     }
-  }, [dispatch, lastFetched]);
+  };
+
+  const handleCustomDateChange = (key: "from" | "to", value: string) => {
+    if (!value) return;
+    const next = { ...range, preset: "custom" as const, [key]: value };
+    // Keep the range ordered when one end is moved past the other
+    if (next.from > next.to) {
+      if (key === "from") next.to = value;
+      else next.from = value;
+    }
+    dispatch(setDateRange(next));
+  };
 
   if (error) {
     return (
@@ -60,9 +111,63 @@ const Dashboard: React.FC = () => {
 
   return (
     <Box>
-      <Typography variant="h6" component="h1" gutterBottom sx={{ mb: 2 }}>
-        Dashboard
-      </Typography>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: 2,
+          mb: 2,
+        }}
+      >
+        <Typography variant="h6" component="h1">
+          Dashboard
+        </Typography>
+        <Box sx={{ display: "flex", gap: 2, alignItems: "center", flexWrap: "wrap" }}>
+          <ToggleButtonGroup
+            value={range.preset === "custom" ? null : range.preset}
+            exclusive
+            size="small"
+            onChange={handlePresetChange}
+          >
+            {RANGE_PRESETS.map((preset) => (
+              <ToggleButton
+                key={preset.value}
+                value={preset.value}
+                sx={{ textTransform: "none" }}
+              >
+                {preset.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <TextField
+            type="date"
+            size="small"
+            label="From"
+            value={range.from}
+            onChange={(e) => handleCustomDateChange("from", e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            sx={{ "& .MuiOutlinedInput-root": { borderRadius: "8px" } }}
+          />
+          <TextField
+            type="date"
+            size="small"
+            label="To"
+            value={range.to}
+            onChange={(e) => handleCustomDateChange("to", e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            sx={{ "& .MuiOutlinedInput-root": { borderRadius: "8px" } }}
+          />
+        </Box>
+      </Box>
+
+      {imagesTruncated && !loading && (
+        <Alert severity="info" sx={{ mt: 2 }}>
+          Only the {counts.images} most recent images were counted, so image totals and the
+          image series may be incomplete for this range.
+        </Alert>
+      )}
 
       <Grid container spacing={4} sx={{ mb: 6, mt: 2 }}>
         {stats.map((stat, index) => (
@@ -107,7 +212,7 @@ const Dashboard: React.FC = () => {
         ))}
       </Grid>
 
-      <Charts loading={loading} />
+      <Charts loading={loading} series={series} statusCounts={statusCounts} />
     </Box>
   );
 };
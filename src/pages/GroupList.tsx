@@ -0,0 +1,543 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Tooltip,
+  TextField,
+  MenuItem,
+  IconButton,
+  Avatar,
+} from "@mui/material";
+import {
+  DataGrid,
+  GridColDef,
+  GridActionsCellItem,
+  GridRowParams,
+} from "@mui/x-data-grid";
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  MergeType as MergeIcon,
+  Refresh as RefreshIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
+  Image as ImageIcon,
+} from "@mui/icons-material";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  fetchGroups,
+  createGroup,
+  updateGroup,
+  reorderGroups,
+  mergeGroup,
+  deleteGroup,
+  forceRefresh,
+} from "../store/slices/groupsSlice";
+import { forceRefresh as refreshPages } from "../store/slices/pagesSlice";
+import { slugify } from "../utils/slug";
+import type { CreatePageGroupData, PageGroup } from "../types";
+import TableSkeleton from "../components/TableSkeleton";
+import ImageDialog from "../components/ImageDialog";
+
+const EMPTY_GROUP: CreatePageGroupData = {
+  name: "",
+  slug: "",
+  description: "",
+  heroImageUrl: "",
+};
+
+const GroupList: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { items, loading, error, lastFetched } = useAppSelector(
+    (state) => state.groups
+  );
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<PageGroup | null>(null);
+  const [form, setForm] = useState<CreatePageGroupData>(EMPTY_GROUP);
+  const [slugTouched, setSlugTouched] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [imageDialogOpen, setImageDialogOpen] = useState(false);
+  const [mergeSource, setMergeSource] = useState<PageGroup | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [merging, setMerging] = useState(false);
+  const [groupToDelete, setGroupToDelete] = useState<PageGroup | null>(null);
+
+  useEffect(() => {
+    if (!lastFetched) {
+      dispatch(fetchGroups());
+    }
+  }, [dispatch, lastFetched]);
+
+  const openEditor = (group?: PageGroup) => {
+    setEditing(group || null);
+    setForm(
+      group
+        ? {
+            name: group.name,
+            slug: group.slug,
+            description: group.description || "",
+            heroImageUrl: group.heroImageUrl || "",
+          }
+        : EMPTY_GROUP
+    );
+    setSlugTouched(false);
+    setEditorOpen(true);
+  };
+
+  const handleNameChange = (name: string) => {
+    setForm({
+      ...form,
+      name,
+      // New groups follow the name until the slug is edited by hand
+      slug: editing || slugTouched ? form.slug : slugify(name),
+    });
+  };
+
+  const slugTaken =
+    !editing && items.some((group) => group.slug === form.slug);
+  const slugInvalid = !/^[a-z0-9-]+$/.test(form.slug);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (editing) {
+        await dispatch(
+          updateGroup({
+            id: editing._id,
+            groupData: {
+              name: form.name,
+              description: form.description,
+              heroImageUrl: form.heroImageUrl,
+            },
+          })
+        ).unwrap();
+      } else {
+        await dispatch(createGroup(form)).unwrap();
+      }
+      setEditorOpen(false);
+    } catch (err) {
+      console.error("Error saving group:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const move = (group: PageGroup, offset: -1 | 1) => {
+    const ids = items.map((item) => item._id);
+    const from = ids.indexOf(group._id);
+    const to = from + offset;
+    if (to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    dispatch(reorderGroups(ids));
+  };
+
+  const openMerge = (group: PageGroup) => {
+    setMergeSource(group);
+    setMergeTargetId("");
+  };
+
+  const mergeTarget = items.find((group) => group._id === mergeTargetId);
+
+  const confirmMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+    setMerging(true);
+    try {
+      await dispatch(
+        mergeGroup({ id: mergeSource._id, targetId: mergeTargetId })
+      ).unwrap();
+      // Cached page lists still carry the old group slug
+      dispatch(refreshPages());
+      setMergeSource(null);
+    } catch (err) {
+      console.error("Error merging groups:", err);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!groupToDelete) return;
+    await dispatch(deleteGroup(groupToDelete._id));
+    setGroupToDelete(null);
+  };
+
+  const columns: GridColDef[] = [
+    {
+      field: "order",
+      headerName: "Order",
+      width: 100,
+      sortable: false,
+      renderCell: (params) => {
+        const index = items.findIndex((item) => item._id === params.row._id);
+        return (
+          <Box sx={{ display: "flex" }}>
+            <IconButton
+              size="small"
+              onClick={() => move(params.row, -1)}
+              disabled={index === 0}
+            >
+              <ArrowUpwardIcon fontSize="small" />
+            </IconButton>
+            <IconButton
+              size="small"
+              onClick={() => move(params.row, 1)}
+              disabled={index === items.length - 1}
+            >
+              <ArrowDownwardIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        );
+      },
+    },
+    {
+      field: "heroImageUrl",
+      headerName: "Hero",
+      width: 80,
+      sortable: false,
+      renderCell: (params) => (
+        <Avatar
+          src={params.value || undefined}
+          variant="rounded"
+          sx={{ width: 48, height: 48 }}
+        >
+          <ImageIcon />
+        </Avatar>
+      ),
+    },
+    {
+      field: "name",
+      headerName: "Group",
+      flex: 1,
+      minWidth: 220,
+      sortable: false,
+      renderCell: (params) => (
+        <Box>
+          <Typography variant="subtitle2" fontWeight="bold">
+            {params.row.name}
+          </Typography>
+          {params.row.description && (
+            <Typography variant="body2" color="text.secondary" noWrap>
+              {params.row.description}
+            </Typography>
+          )}
+        </Box>
+      ),
+    },
+    {
+      field: "slug",
+      headerName: "Slug",
+      width: 180,
+      sortable: false,
+    },
+    {
+      field: "pageCount",
+      headerName: "Pages",
+      width: 100,
+      sortable: false,
+      renderCell: (params) => params.value ?? "—",
+    },
+    {
+      field: "actions",
+      type: "actions",
+      headerName: "Actions",
+      width: 140,
+      getActions: (params: GridRowParams<PageGroup>) => [
+        <GridActionsCellItem
+          key="edit"
+          icon={
+            <Tooltip title="Edit Group">
+              <EditIcon />
+            </Tooltip>
+          }
+          label="Edit"
+          onClick={() => openEditor(params.row)}
+        />,
+        <GridActionsCellItem
+          key="merge"
+          icon={
+            <Tooltip title="Merge into another group">
+              <MergeIcon />
+            </Tooltip>
+          }
+          label="Merge"
+          onClick={() => openMerge(params.row)}
+          disabled={items.length < 2}
+        />,
+        <GridActionsCellItem
+          key="delete"
+          icon={
+            <Tooltip
+              title={
+                params.row.pageCount
+                  ? "Only empty groups can be deleted; merge it instead"
+                  : "Delete Group"
+              }
+            >
+              <DeleteIcon />
+            </Tooltip>
+          }
+          label="Delete"
+          onClick={() => setGroupToDelete(params.row)}
+          disabled={!!params.row.pageCount}
+        />,
+      ],
+    },
+  ];
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 3,
+        }}
+      >
+        <Typography variant="h6" component="h1">
+          Groups
+        </Typography>
+        <Box sx={{ display: "flex", gap: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={() => dispatch(forceRefresh())}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Refresh
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => openEditor()}
+            sx={{
+              borderRadius: "8px",
+              textTransform: "none",
+              fontWeight: 500,
+              px: 3,
+              py: 1,
+            }}
+          >
+            New Group
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ height: 600, width: "100%" }}>
+        <DataGrid
+          rows={items}
+          columns={columns}
+          getRowId={(row) => row._id}
+          loading={loading && items.length === 0}
+          slots={{
+            loadingOverlay: () => <TableSkeleton columns={6} />,
+          }}
+          getRowHeight={() => "auto"}
+          disableRowSelectionOnClick
+          disableColumnMenu
+          sx={{
+            "& .MuiDataGrid-cell": {
+              border: "none",
+              py: 1,
+              "&:focus": { outline: "none" },
+              "&:focus-within": { outline: "none" },
+            },
+            "& .MuiDataGrid-columnHeaders": {
+              backgroundColor: "grey.50",
+              border: "none",
+            },
+            "& .MuiDataGrid-row": {
+              borderBottom: "1px solid #e0e0e0",
+            },
+          }}
+        />
+      </Box>
+
+      {/* Create / Edit Dialog */}
+      <Dialog
+        open={editorOpen}
+        onClose={() => !saving && setEditorOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>{editing ? `Edit ${editing.name}` : "New Group"}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+            <TextField
+              label="Name"
+              value={form.name}
+              onChange={(e) => handleNameChange(e.target.value)}
+              fullWidth
+              required
+            />
+            <TextField
+              label="Slug"
+              value={form.slug}
+              onChange={(e) => {
+                setSlugTouched(true);
+                setForm({ ...form, slug: e.target.value });
+              }}
+              disabled={!!editing}
+              error={!editing && !!form.slug && (slugInvalid || slugTaken)}
+              helperText={
+                editing
+                  ? "Slugs are fixed once created; merge into a new group to change it"
+                  : slugTaken
+                  ? "Another group already uses this slug"
+                  : "Used in page URLs and filters. Lowercase letters, numbers and hyphens"
+              }
+              fullWidth
+              required
+            />
+            <TextField
+              label="Description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              multiline
+              minRows={2}
+              fullWidth
+            />
+            <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+              <TextField
+                label="Hero image URL"
+                value={form.heroImageUrl}
+                onChange={(e) => setForm({ ...form, heroImageUrl: e.target.value })}
+                fullWidth
+              />
+              <Tooltip title="Choose from media library">
+                <IconButton
+                  onClick={() => setImageDialogOpen(true)}
+                  sx={{ border: "1px solid #e0e0e0", borderRadius: "8px" }}
+                >
+                  <ImageIcon />
+                </IconButton>
+              </Tooltip>
+            </Box>
+            {form.heroImageUrl && (
+              <Box
+                component="img"
+                src={form.heroImageUrl}
+                alt=""
+                sx={{
+                  width: "100%",
+                  maxHeight: 180,
+                  objectFit: "cover",
+                  borderRadius: "8px",
+                }}
+              />
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditorOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={
+              saving ||
+              !form.name.trim() ||
+              (!editing && (slugInvalid || slugTaken))
+            }
+          >
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <ImageDialog
+        open={imageDialogOpen}
+        onClose={() => setImageDialogOpen(false)}
+        onSelectImage={(url) => {
+          setForm({ ...form, heroImageUrl: url });
+          setImageDialogOpen(false);
+        }}
+      />
+
+      {/* Merge Dialog */}
+      <Dialog
+        open={!!mergeSource}
+        onClose={() => !merging && setMergeSource(null)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>Merge {mergeSource?.name}</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            label="Merge into"
+            value={mergeTargetId}
+            onChange={(e) => setMergeTargetId(e.target.value)}
+            fullWidth
+            margin="dense"
+          >
+            {items
+              .filter((group) => group._id !== mergeSource?._id)
+              .map((group) => (
+                <MenuItem key={group._id} value={group._id}>
+                  {group.name}
+                </MenuItem>
+              ))}
+          </TextField>
+          {mergeTarget && (
+            <DialogContentText sx={{ mt: 2 }}>
+              {mergeSource?.pageCount ?? "All"} page
+              {mergeSource?.pageCount === 1 ? "" : "s"} will move from "
+              {mergeSource?.name}" to "{mergeTarget.name}", and "{mergeSource?.name}"
+              will be removed. This cannot be undone.
+            </DialogContentText>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setMergeSource(null)} disabled={merging}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={confirmMerge}
+            disabled={merging || !mergeTargetId}
+          >
+            {merging ? "Merging..." : "Merge"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!groupToDelete} onClose={() => setGroupToDelete(null)}>
+        <DialogTitle>Delete Group</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Are you sure you want to delete "{groupToDelete?.name}"? This action
+            cannot be undone.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setGroupToDelete(null)}>Cancel</Button>
+          <Button onClick={confirmDelete} color="error" variant="contained">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default GroupList;
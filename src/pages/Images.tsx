@@ -25,6 +25,7 @@ import {
   deleteImage,
 } from "../store/slices/imagesSlice";
 import { uploadToCloudinary } from "../services/api";
+import { usePermissions } from "../hooks/usePermission";
 
 const Images: React.FC = () => {
   const dispatch = useAppDispatch();
@@ -38,6 +39,7 @@ const Images: React.FC = () => {
     nextCursor,
   } = useAppSelector((state) => state.images);
 
+  const { can } = usePermissions();
   const [uploadLoading, setUploadLoading] = useState(false);
 
   useEffect(() => {
@@ -162,7 +164,7 @@ const Images: React.FC = () => {
                 <CloudUploadIcon />
               )
             }
-            disabled={uploadLoading}
+            disabled={uploadLoading || !can("media.upload")}
             sx={{ borderRadius: "8px", boxShadow: "none" }}
           >
             {uploadLoading ? "Uploading..." : "Upload Image"}
@@ -191,22 +193,24 @@ const Images: React.FC = () => {
                   borderRadius: "8px",
                 }}
               >
-                <IconButton
-                  onClick={() => handleDeleteImage(image.public_id)}
-                  sx={{
-                    position: "absolute",
-                    top: 8,
-                    right: 8,
-                    backgroundColor: "rgba(255, 255, 255, 0.8)",
-                    "&:hover": {
-                      backgroundColor: "rgba(255, 255, 255, 0.9)",
-                    },
-                    display: "none", // Hidden for now
-                  }}
-                  size="small"
-                >
-                  <DeleteIcon color="error" />
-                </IconButton>
+                {can("media.delete") && (
+                  <IconButton
+                    onClick={() => handleDeleteImage(image.public_id)}
+                    sx={{
+                      position: "absolute",
+                      top: 8,
+                      right: 8,
+                      backgroundColor: "rgba(255, 255, 255, 0.8)",
+                      "&:hover": {
+                        backgroundColor: "rgba(255, 255, 255, 0.9)",
+                      },
+                      display: "none", // Hidden for now
+                    }}
+                    size="small"
+                  >
+                    <DeleteIcon color="error" />
+                  </IconButton>
+                )}
                 <CardMedia
                   component="img"
                   height="200"
@@ -14,12 +14,13 @@ import {
   VisibilityOff,
   Person,
   Lock,
+  Security,
 } from '@mui/icons-material'
 import { useNavigate, Link as RouterLink } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 
 const Login: React.FC = () => {
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
   const navigate = useNavigate();
   const [formData, setFormData] = useState({
     username: "",
@@ -28,6 +29,10 @@ const Login: React.FC = () => {
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  // Set once the password step passes for an account with two-factor enabled
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -44,9 +49,11 @@ const Login: React.FC = () => {
     setError("");
 
     try {
-      const success = await login(formData.username, formData.password);
-      if (success) {
+      const result = await login(formData.username, formData.password);
+      if (result.status === "success") {
         navigate("/");
+      } else if (result.status === "two_factor") {
+        setChallengeToken(result.challengeToken);
       } else {
         setError("Invalid username or password");
       }
@@ -57,6 +64,42 @@ const Login: React.FC = () => {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setLoading(true);
+    setError("");
+
+    try {
+      const success = await verifyTwoFactor(
+        challengeToken,
+        code,
+        useRecoveryCode ? "recovery" : "totp"
+      );
+      if (success) {
+        navigate("/");
+      } else {
+        setError(
+          useRecoveryCode
+            ? "Invalid or already used recovery code"
+            : "Invalid authentication code"
+        );
+      }
+    } catch (err) {
+      setError("Verification failed. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBackToLogin = () => {
+    setChallengeToken(null);
+    setCode("");
+    setUseRecoveryCode(false);
+    setError("");
+    setFormData((prev) => ({ ...prev, password: "" }));
+  };
+
   const togglePasswordVisibility = () => {
     setShowPassword(!showPassword);
   };
@@ -106,7 +149,11 @@ const Login: React.FC = () => {
               fontSize: "1rem",
             }}
           >
-            Enter your Credentials to access your account
+            {challengeToken
+              ? useRecoveryCode
+                ? "Enter one of your recovery codes"
+                : "Enter the 6-digit code from your authenticator app"
+              : "Enter your Credentials to access your account"}
           </Typography>
 
           {error && (
@@ -124,175 +171,290 @@ const Login: React.FC = () => {
             </Alert>
           )}
 
-          <Box component="form" onSubmit={handleSubmit}>
-            <Typography
-              variant="body2"
-              sx={{
-                color: "#495057",
-                mb: 1,
-                fontWeight: 500,
-                fontSize: "0.875rem",
-              }}
-            >
-              Username
-            </Typography>
-            <TextField
-              fullWidth
-              name="username"
-              type="text"
-              placeholder="Enter your username"
-              value={formData.username}
-              onChange={handleChange}
-              disabled={loading}
-              required
-              sx={{
-                mb: 3,
-                "& .MuiOutlinedInput-root": {
-                  borderRadius: 2,
-                  backgroundColor: "#f8f9fa",
-                  border: "none",
-                  "& fieldset": {
-                    border: "1px solid #e9ecef",
-                  },
-                  "&:hover fieldset": {
-                    border: "1px solid #ced4da",
+          {challengeToken ? (
+            <Box component="form" onSubmit={handleVerify}>
+              <Typography
+                variant="body2"
+                sx={{
+                  color: "#495057",
+                  mb: 1,
+                  fontWeight: 500,
+                  fontSize: "0.875rem",
+                }}
+              >
+                {useRecoveryCode ? "Recovery code" : "Authentication code"}
+              </Typography>
+              <TextField
+                fullWidth
+                name="code"
+                placeholder={useRecoveryCode ? "xxxx-xxxx" : "123456"}
+                value={code}
+                onChange={(e) => {
+                  setCode(e.target.value);
+                  setError("");
+                }}
+                disabled={loading}
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputProps={{
+                  inputMode: useRecoveryCode ? "text" : "numeric",
+                }}
+                sx={{
+                  mb: 2,
+                  "& .MuiOutlinedInput-root": {
+                    borderRadius: 2,
+                    backgroundColor: "#f8f9fa",
+                    "& fieldset": {
+                      border: "1px solid #e9ecef",
+                    },
+                    "&.Mui-focused fieldset": {
+                      border: "2px solid #4CAF50",
+                    },
                   },
-                  "&.Mui-focused fieldset": {
-                    border: "2px solid #4CAF50",
+                  "& .MuiInputBase-input": {
+                    padding: "12px 14px",
+                    fontSize: "1rem",
+                    letterSpacing: useRecoveryCode ? "normal" : "0.3em",
                   },
-                },
-                "& .MuiInputBase-input": {
-                  padding: "12px 14px",
-                  fontSize: "1rem",
-                },
-              }}
-              InputProps={{
-                startAdornment: (
-                  <InputAdornment position="start">
-                    <Person sx={{ color: "#6c757d", fontSize: "1.25rem" }} />
-                  </InputAdornment>
-                ),
-              }}
-            />
+                }}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <Security sx={{ color: "#6c757d", fontSize: "1.25rem" }} />
+                    </InputAdornment>
+                  ),
+                }}
+              />
 
-            <Typography
-              variant="body2"
-              sx={{
-                color: "#495057",
-                mb: 1,
-                fontWeight: 500,
-                fontSize: "0.875rem",
-              }}
-            >
-              Password
-            </Typography>
-            <TextField
-              fullWidth
-              name="password"
-              type={showPassword ? "text" : "password"}
-              placeholder="Enter your password"
-              value={formData.password}
-              onChange={handleChange}
-              disabled={loading}
-              required
-              sx={{
-                mb: 2,
-                "& .MuiOutlinedInput-root": {
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                disabled={loading || !code.trim()}
+                sx={{
+                  backgroundColor: "#4CAF50",
+                  color: "white",
+                  padding: "6px 0",
                   borderRadius: 2,
-                  backgroundColor: "#f8f9fa",
-                  border: "none",
-                  "& fieldset": {
-                    border: "1px solid #e9ecef",
-                  },
-                  "&:hover fieldset": {
-                    border: "1px solid #ced4da",
+                  fontSize: "1rem",
+                  fontWeight: 600,
+                  textTransform: "none",
+                  boxShadow: "none",
+                  mb: 2,
+                  mt: 2,
+                  "&:hover": {
+                    backgroundColor: "#45a049",
+                    boxShadow: "none",
                   },
-                  "&.Mui-focused fieldset": {
-                    border: "2px solid #4CAF50",
+                  "&:disabled": {
+                    backgroundColor: "#c8e6c9",
                   },
-                },
-                "& .MuiInputBase-input": {
-                  padding: "12px 14px",
-                  fontSize: "1rem",
-                },
-              }}
-              InputProps={{
-                startAdornment: (
-                  <InputAdornment position="start">
-                    <Lock sx={{ color: "#6c757d", fontSize: "1.25rem" }} />
-                  </InputAdornment>
-                ),
-                endAdornment: (
-                  <InputAdornment position="end">
-                    <IconButton
-                      onClick={togglePasswordVisibility}
-                      edge="end"
-                      sx={{ color: "#6c757d" }}
-                    >
-                      {showPassword ? <VisibilityOff /> : <Visibility />}
-                    </IconButton>
-                  </InputAdornment>
-                ),
-              }}
-            />
-
- 
-
-            <Button
-              type="submit"
-              fullWidth
-              variant="contained"
-              disabled={loading}
-              sx={{
-                backgroundColor: "#4CAF50",
-                color: "white",
-                padding: "6px 0",
-                borderRadius: 2,
-                fontSize: "1rem",
-                fontWeight: 600,
-                textTransform: "none",
-                boxShadow: "none",
+                }}
+              >
+                {loading ? "Verifying..." : "Verify"}
+              </Button>
 
-                mb: 3,
-                mt: 2,
-                "&:hover": {
-                  backgroundColor: "#45a049",
-                  boxShadow: "none",
-                },
-                "&:disabled": {
-                  backgroundColor: "#c8e6c9",
-                },
-              }}
-            >
-              {loading ? "Signing in..." : "Login"}
-            </Button>
+              <Box
+                sx={{ display: "flex", justifyContent: "space-between" }}
+              >
+                <Link
+                  component="button"
+                  type="button"
+                  variant="body2"
+                  onClick={handleBackToLogin}
+                  sx={{ color: "#6c757d" }}
+                >
+                  Back to login
+                </Link>
+                <Link
+                  component="button"
+                  type="button"
+                  variant="body2"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                    setError("");
+                  }}
+                  sx={{ color: "#4CAF50", fontWeight: 500 }}
+                >
+                  {useRecoveryCode
+                    ? "Use authenticator app"
+                    : "Use a recovery code"}
+                </Link>
+              </Box>
+            </Box>
+          ) : (
+            <Box component="form" onSubmit={handleSubmit}>
+              <Typography
+                variant="body2"
+                sx={{
+                  color: "#495057",
+                  mb: 1,
+                  fontWeight: 500,
+                  fontSize: "0.875rem",
+                }}
+              >
+                Username
+              </Typography>
+              <TextField
+                fullWidth
+                name="username"
+                type="text"
+                placeholder="Enter your username"
+                value={formData.username}
+                onChange={handleChange}
+                disabled={loading}
+                required
+                sx={{
+                  mb: 3,
+                  "& .MuiOutlinedInput-root": {
+                    borderRadius: 2,
+                    backgroundColor: "#f8f9fa",
+                    border: "none",
+                    "& fieldset": {
+                      border: "1px solid #e9ecef",
+                    },
+                    "&:hover fieldset": {
+                      border: "1px solid #ced4da",
+                    },
+                    "&.Mui-focused fieldset": {
+                      border: "2px solid #4CAF50",
+                    },
+                  },
+                  "& .MuiInputBase-input": {
+                    padding: "12px 14px",
+                    fontSize: "1rem",
+                  },
+                }}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <Person sx={{ color: "#6c757d", fontSize: "1.25rem" }} />
+                    </InputAdornment>
+                  ),
+                }}
+              />
 
-            <Box sx={{ textAlign: "center" }}>
               <Typography
                 variant="body2"
                 sx={{
-                  color: "#6c757d",
+                  color: "#495057",
+                  mb: 1,
+                  fontWeight: 500,
                   fontSize: "0.875rem",
                 }}
               >
-                Don't have an account?{" "}
-                <Link
-                  component={RouterLink}
-                  to="/signup"
-                  sx={{
-                    color: "#4CAF50",
-                    textDecoration: "none",
-                    fontWeight: 500,
-                    "&:hover": {
-                      textDecoration: "underline",
+                Password
+              </Typography>
+              <TextField
+                fullWidth
+                name="password"
+                type={showPassword ? "text" : "password"}
+                placeholder="Enter your password"
+                value={formData.password}
+                onChange={handleChange}
+                disabled={loading}
+                required
+                sx={{
+                  mb: 2,
+                  "& .MuiOutlinedInput-root": {
+                    borderRadius: 2,
+                    backgroundColor: "#f8f9fa",
+                    border: "none",
+                    "& fieldset": {
+                      border: "1px solid #e9ecef",
+                    },
+                    "&:hover fieldset": {
+                      border: "1px solid #ced4da",
                     },
+                    "&.Mui-focused fieldset": {
+                      border: "2px solid #4CAF50",
+                    },
+                  },
+                  "& .MuiInputBase-input": {
+                    padding: "12px 14px",
+                    fontSize: "1rem",
+                  },
+                }}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <Lock sx={{ color: "#6c757d", fontSize: "1.25rem" }} />
+                    </InputAdornment>
+                  ),
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      <IconButton
+                        onClick={togglePasswordVisibility}
+                        edge="end"
+                        sx={{ color: "#6c757d" }}
+                      >
+                        {showPassword ? <VisibilityOff /> : <Visibility />}
+                      </IconButton>
+                    </InputAdornment>
+                  ),
+                }}
+              />
+
+ 
+
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                disabled={loading}
+                sx={{
+                  backgroundColor: "#4CAF50",
+                  color: "white",
+                  padding: "6px 0",
+                  borderRadius: 2,
+                  fontSize: "1rem",
+                  fontWeight: 600,
+                  textTransform: "none",
+                  boxShadow: "none",
+
+                  mb: 3,
+                  mt: 2,
+                  "&:hover": {
+                    backgroundColor: "#45a049",
+                    boxShadow: "none",
+                  },
+                  "&:disabled": {
+                    backgroundColor: "#c8e6c9",
+                  },
+                }}
+              >
+                {loading ? "Signing in..." : "Login"}
+              </Button>
+
+              <Box sx={{ textAlign: "center" }}>
+                <Typography
+                  variant="body2"
+                  sx={{
+                    color: "#6c757d",
+                    fontSize: "0.875rem",
                   }}
                 >
-                  Sign up
-                </Link>
-              </Typography>
+                  Don't have an account?{" "}
+                  <Link
+                    component={RouterLink}
+                    to="/signup"
+                    sx={{
+                      color: "#4CAF50",
+                      textDecoration: "none",
+                      fontWeight: 500,
+                      "&:hover": {
+                        textDecoration: "underline",
+                      },
+                    }}
+                  >
+                    Sign up
+                  </Link>
+                </Typography>
+              </Box>
             </Box>
-          </Box>
+          )}
         </Box>
       </Box>
 
@@ -1,8 +1,7 @@
-import React, { useState, useEffect, useRef } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { useForm, Controller } from "react-hook-form";
 import { yupResolver } from "@hookform/resolvers/yup";
-import * as yup from "yup";
 import {
   Box,
   Typography,
@@ -18,158 +17,255 @@ import {
   FormHelperText,
   Divider,
   IconButton,
+  InputLabel,
+  InputAdornment,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
 } from "@mui/material";
-import { Image } from "@mui/icons-material";
+import {
+  Image,
+  History,
+  CheckCircle as CheckCircleIcon,
+  ErrorOutline as ErrorOutlineIcon,
+} from "@mui/icons-material";
+import { toast } from "react-toastify";
 import { pagesAPI } from "../services/api";
 import SummernoteEditor, {
   SummernoteEditorRef,
 } from "../components/SummernoteEditor";
 import ImageDialog from "../components/ImageDialog";
 import AudioDialog from "../components/AudioDialog";
+import RevisionHistoryDialog from "../components/RevisionHistoryDialog";
+import AutosaveRestoreDialog from "../components/AutosaveRestoreDialog";
+import UnsavedChangesDialog from "../components/UnsavedChangesDialog";
 import { useAppDispatch } from "../store/hooks";
 import { createPage, updatePage } from "../store/slices/pagesSlice";
 import { useAIGeneration, AIProvider } from "../hooks/useAIGeneration";
-import type { CreatePageData } from "../types";
-
-// Group options for the select dropdown
-const GROUP_OPTIONS = [
-  { value: "blogs", label: "Blogs" },
-  { value: "cardiology", label: "Cardiology" },
-  { value: "case-studies", label: "Case Studies" },
-];
-
-const pageSchema = yup.object({
-  title: yup
-    .string()
-    .required("Title is required")
-    .max(200, "Title cannot be more than 200 characters"),
-  description: yup
-    .string()
-    .required("Description is required")
-    .max(500, "Description cannot be more than 500 characters"),
-  imageUrl: yup
-    .string()
-    .required("Image URL is required")
-    .url("Must be a valid URL"),
-  thumbnailUrl: yup
-    .string()
-    .required("Thumbnail URL is required")
-    .url("Must be a valid URL"),
-  audioUrl: yup.string().optional(),
-  groups: yup
-    .array()
-    .of(yup.string().required().oneOf(["blogs", "cardiology", "case-studies"], "Invalid group option"))
-    .defined()
-    .default([])
-    .max(10, "Cannot have more than 10 groups"),
-
-  slug: yup
-    .string()
-    .optional()
-    .max(100, "Slug cannot be more than 100 characters")
-    .matches(
-      /^[a-z0-9-]*$/,
-      "Slug can only contain lowercase letters, numbers, and hyphens"
-    ),
-  content: yup.string(),
-  metaTitle: yup
-    .string()
-    .optional()
-    .max(60, "Meta title cannot be more than 60 characters"),
-  metaDescription: yup
-    .string()
-    .optional()
-    .max(160, "Meta description cannot be more than 160 characters"),
-  metaKeywords: yup
-    .string()
-    .optional()
-    .max(255, "Meta keywords cannot be more than 255 characters"),
-  popular: yup
-    .boolean()
-    .optional(),
-  tags: yup
-    .array()
-    .of(yup.string().required())
-    .default([])
-    .max(20, "Cannot have more than 20 tags"),
-  category: yup
-    .string()
-    .optional()
-    .max(100, "Category cannot be more than 100 characters"),
-  readTime: yup
-    .number()
-    .optional()
-    .min(1, "Read time must be at least 1 minute")
-    .max(999, "Read time cannot exceed 999 minutes")
-    .integer("Read time must be a whole number"),
-}) satisfies yup.ObjectSchema<CreatePageData>;
+import { getAIProviders, DEFAULT_AI_PROVIDER } from "../services/ai";
+import { usePromptTemplates } from "../hooks/usePromptTemplates";
+import { TONE_OPTIONS, LENGTH_OPTIONS, DEFAULT_PROMPT_VARIABLES } from "../utils/promptTemplates";
+import { useSeoGeneration } from "../hooks/useSeoGeneration";
+import { analyzeSeo, SeoSuggestion } from "../utils/seo";
+import SeoPanel from "../components/SeoPanel";
+import SeoSuggestionDialog from "../components/SeoSuggestionDialog";
+import { usePermission } from "../hooks/usePermission";
+import { useAutosave, AutosaveDraft } from "../hooks/useAutosave";
+import { useUnsavedChangesGuard } from "../hooks/useUnsavedChangesGuard";
+import type {
+  CreatePageData,
+  Page,
+  PageStatus,
+  PageRevision,
+  SlugAvailability,
+} from "../types";
+import {
+  PAGE_STATUS_LABELS,
+  PAGE_STATUS_COLORS,
+  getPageStatus,
+  toDateTimeLocal,
+  fromDateTimeLocal,
+} from "../utils/pageStatus";
+import { changedPageFields } from "../utils/pageFields";
+import { createPageSchema } from "../utils/pageSchema";
+import { slugify } from "../utils/slug";
+import { sanitizeHtml } from "../utils/sanitizeHtml";
+import { useGroups } from "../hooks/useGroups";
+import { useSlugAvailability } from "../hooks/useSlugAvailability";
+import { pagePath } from "../utils/redirects";
+import { DUPLICATE_PARAM, copyTitle } from "../utils/duplicate";
+import TagsAutocomplete from "../components/TagsAutocomplete";
+import CategoryAutocomplete from "../components/CategoryAutocomplete";
+
+const EMPTY_PAGE: CreatePageData = {
+  title: "",
+  description: "",
+  imageUrl: "",
+  thumbnailUrl: "",
+  audioUrl: "",
+  groups: [],
+  slug: "",
+  content: undefined,
+  metaTitle: "",
+  metaDescription: "",
+  metaKeywords: "",
+  popular: undefined,
+  tags: [],
+  category: "",
+  readTime: undefined,
+  status: "draft",
+  publishAt: "",
+};
+
+const pageToFormValues = (page: Page): CreatePageData => ({
+  title: page.title,
+  description: page.description,
+  imageUrl: page.imageUrl,
+  thumbnailUrl: page.thumbnailUrl,
+  audioUrl: page.audioUrl,
+  groups: page.groups,
+  slug: page.slug,
+  content: page.content,
+  metaTitle: page.metaTitle || "",
+  metaDescription: page.metaDescription || "",
+  metaKeywords: page.metaKeywords || "",
+  popular: page.popular || false,
+  tags: page.tags || [],
+  category: page.category || "",
+  readTime: page.readTime || undefined,
+  status: getPageStatus(page.status),
+  publishAt: toDateTimeLocal(page.publishAt),
+});
+
+const MAX_COPY_SLUG_PROBES = 20;
+
+// First of slug-copy, slug-copy-2, ... the server reports as free (trashed pages included)
+const freeCopySlug = async (slug: string): Promise<string> => {
+  let candidate = `${slug}-copy`;
+  for (let suffix = 2; suffix <= MAX_COPY_SLUG_PROBES + 1; suffix++) {
+    const response = await pagesAPI.checkSlug(candidate);
+    if (response.data.available) return candidate;
+    candidate = `${slug}-copy-${suffix}`;
+  }
+  // Give up probing; the live slug check flags it if this one is taken too
+  return candidate;
+};
 
 const PageForm: React.FC = () => {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const isEditing = Boolean(id);
+  const [searchParams] = useSearchParams();
+  const duplicateId = isEditing ? null : searchParams.get(DUPLICATE_PARAM);
   const dispatch = useAppDispatch();
 
+  const canPublish = usePermission("pages.publish");
+  const canManageRedirects = usePermission("redirects.manage");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedAI, setSelectedAI] = useState<AIProvider>("gemini");
+  const [selectedAI, setSelectedAI] = useState<AIProvider>(DEFAULT_AI_PROVIDER);
   const [imageDialogOpen, setImageDialogOpen] = useState(false);
   const [thumbnailDialogOpen, setThumbnailDialogOpen] = useState(false);
   const [audioDialogOpen, setAudioDialogOpen] = useState(false);
-  const [tagInput, setTagInput] = useState("");
+  const [savingAs, setSavingAs] = useState<PageStatus | null>(null);
+  const [tone, setTone] = useState(DEFAULT_PROMPT_VARIABLES.tone);
+  const [length, setLength] = useState(DEFAULT_PROMPT_VARIABLES.length);
+  const [references, setReferences] = useState("");
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [historySnapshot, setHistorySnapshot] = useState<CreatePageData | null>(null);
+  const [serverValues, setServerValues] = useState<CreatePageData | null>(
+    isEditing || duplicateId ? null : EMPTY_PAGE
+  );
+  const [pendingDraft, setPendingDraft] = useState<AutosaveDraft<CreatePageData> | null>(null);
+  // A save that would take over the path of a manually created redirect, waiting for confirmation
+  const [redirectConflict, setRedirectConflict] = useState<{
+    redirect: NonNullable<SlugAvailability["redirect"]>;
+    data: CreatePageData;
+    status: PageStatus;
+  } | null>(null);
+  const [draftChecked, setDraftChecked] = useState(false);
+  const [seoSuggestion, setSeoSuggestion] = useState<SeoSuggestion | null>(null);
 
-  const { generateContent, generating } = useAIGeneration({
+  const { generateContent, cancel: cancelGeneration, generating } = useAIGeneration({
     onContentGenerated: (content: string) => {
-      setValue("content", content);
+      // Model output lands straight in the editor, so strip scripts and handlers on every update
+      setValue("content", sanitizeHtml(content), { shouldDirty: true });
     },
     onError: (errorMessage: string) => {
       setError(errorMessage);
     },
   });
 
+  const {
+    generateSeo,
+    cancel: cancelSeoGeneration,
+    generating: generatingSeo,
+  } = useSeoGeneration({
+    onError: (errorMessage: string) => {
+      setError(errorMessage);
+    },
+  });
+
+  const {
+    templates: promptTemplates,
+    selected: promptTemplate,
+    setSelectedId: setPromptTemplateId,
+  } = usePromptTemplates("page");
+
+  const { groups, groupOptions, groupLabel } = useGroups();
+  const pageSchema = useMemo(
+    () => createPageSchema(groups.map((group) => group.slug)),
+    [groups]
+  );
+
   const summernoteRef = useRef<SummernoteEditorRef>(null);
+  // Title given to a duplicate; its slug was picked to be unique, so don't derive one from it
+  const copyTitleRef = useRef<string | null>(null);
 
   const {
     control,
     handleSubmit,
-    formState: { errors },
+    formState: { errors, isDirty },
     setValue,
     watch,
     reset,
+    getValues,
   } = useForm<CreatePageData>({
     resolver: yupResolver(pageSchema),
-    defaultValues: {
-      title: "",
-      description: "",
-      imageUrl: "",
-      thumbnailUrl: "",
-      audioUrl: "",
-      groups: [],
-      slug: "",
-      content: undefined,
-      metaTitle: "",
-      metaDescription: "",
-      metaKeywords: "",
-      popular: undefined,
-      tags: [],
-      category: "",
-      readTime: undefined,
-    },
+    defaultValues: EMPTY_PAGE,
   });
 
+  // Summernote keeps the freshest content; the form field can lag until blur
+  const getCurrentValues = (): CreatePageData => {
+    const values = getValues();
+    return {
+      ...values,
+      content: summernoteRef.current?.getContent() ?? values.content,
+    };
+  };
+
+  const { lastSavedAt, readDraft, clearDraft } = useAutosave<CreatePageData>({
+    storageKey: `da-cms-page-autosave-${id || (duplicateId ? `copy-${duplicateId}` : "new")}`,
+    getData: getCurrentValues,
+    enabled: draftChecked && isDirty,
+  });
+
+  const { blocker, allowNavigation } = useUnsavedChangesGuard(
+    draftChecked && isDirty
+  );
+
   const watchedTitle = watch("title");
   const watchedTags = watch("tags");
+  const watchedStatus = getPageStatus(watch("status"));
+  const watchedPublishAt = watch("publishAt");
+  const watchedContent = watch("content");
+  const watchedMetaTitle = watch("metaTitle");
+  const watchedMetaDescription = watch("metaDescription");
+  const watchedMetaKeywords = watch("metaKeywords");
+  const watchedSlug = watch("slug");
+  const slugCheck = useSlugAvailability(watchedSlug, id);
+  // Editing an existing slug leaves its old URL behind; a redirect is added on save
+  const previousSlug = isEditing ? serverValues?.slug : undefined;
+  const slugChanged = !!previousSlug && !!watchedSlug && watchedSlug !== previousSlug;
+
+  const seoReport = useMemo(
+    () =>
+      analyzeSeo({
+        title: watchedTitle,
+        content: watchedContent,
+        metaTitle: watchedMetaTitle,
+        metaDescription: watchedMetaDescription,
+        metaKeywords: watchedMetaKeywords,
+      }),
+    [watchedTitle, watchedContent, watchedMetaTitle, watchedMetaDescription, watchedMetaKeywords]
+  );
 
   // Auto-generate slug from title
   useEffect(() => {
-    if (watchedTitle && !isEditing) {
-      const slug = watchedTitle
-        .toLowerCase()
-        .replace(/[^a-z0-9\s-]/g, "")
-        .replace(/\s+/g, "-")
-        .replace(/-+/g, "-")
-        .trim();
-      setValue("slug", slug);
+    if (watchedTitle && !isEditing && watchedTitle !== copyTitleRef.current) {
+      setValue("slug", slugify(watchedTitle));
     }
   }, [watchedTitle, setValue, isEditing]);
 
@@ -180,25 +276,9 @@ const PageForm: React.FC = () => {
         try {
           setLoading(true);
           const response = await pagesAPI.getById(id);
-          const page = response.data;
-
-          reset({
-            title: page.title,
-            description: page.description,
-            imageUrl: page.imageUrl,
-            thumbnailUrl: page.thumbnailUrl,
-            audioUrl: page.audioUrl,
-            groups: page.groups,
-            slug: page.slug,
-            content: page.content,
-            metaTitle: page.metaTitle || "",
-            metaDescription: page.metaDescription || "",
-            metaKeywords: page.metaKeywords || "",
-            popular: page.popular || false,
-            tags: page.tags || [],
-            category: page.category || "",
-            readTime: page.readTime || undefined,
-          });
+          const values = pageToFormValues(response.data);
+          reset(values);
+          setServerValues(values);
         } catch (err) {
           console.error("Error loading page:", err);
           setError("Failed to load page data");
@@ -211,57 +291,198 @@ const PageForm: React.FC = () => {
     }
   }, [id, isEditing, reset]);
 
-  const onSubmit = async (data: CreatePageData) => {
+  // Prefill a new draft from the page being duplicated
+  useEffect(() => {
+    if (!duplicateId) return;
+
+    const loadSource = async () => {
+      try {
+        setLoading(true);
+        const response = await pagesAPI.getById(duplicateId);
+        const source = pageToFormValues(response.data);
+        const title = copyTitle(source.title);
+        const values: CreatePageData = {
+          ...source,
+          title,
+          slug: await freeCopySlug(source.slug || slugify(source.title || "page")),
+          status: "draft",
+          publishAt: "",
+        };
+        copyTitleRef.current = title;
+        reset(values);
+        setServerValues(values);
+      } catch (err) {
+        console.error("Error loading page to duplicate:", err);
+        setError("Failed to load the page to duplicate");
+        setServerValues(EMPTY_PAGE);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSource();
+  }, [duplicateId, reset]);
+
+  // Offer to recover a local autosave once the server copy is known
+  useEffect(() => {
+    if (!serverValues || draftChecked) return;
+
+    const draft = readDraft();
+    if (draft && changedPageFields(draft.data, serverValues).length > 0) {
+      setPendingDraft(draft);
+    } else if (draft) {
+      clearDraft();
+    }
+    setDraftChecked(true);
+  }, [serverValues, draftChecked, readDraft, clearDraft]);
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return;
+    // Keep the server copy as the baseline so the form stays dirty
+    reset(pendingDraft.data, { keepDefaultValues: true });
+    setPendingDraft(null);
+  };
+
+  const handleDiscardDraft = () => {
+    clearDraft();
+    setPendingDraft(null);
+  };
+
+  const onSubmit = async (data: CreatePageData, status: PageStatus, replaceRedirect = false) => {
+    // The live check is debounced and may still be in flight, so ask again for the slug being saved
+    let conflict = slugCheck.status === "taken" ? slugCheck.conflict : undefined;
+    let taken = slugCheck.status === "taken" && watchedSlug === data.slug;
+    let redirect: SlugAvailability["redirect"];
+    if (data.slug) {
+      try {
+        const response = await pagesAPI.checkSlug(data.slug, id);
+        taken = !response.data.available;
+        conflict = response.data.conflict;
+        redirect = response.data.redirect;
+      } catch (err) {
+        // The server still rejects duplicates on save
+        console.error("Error checking slug availability:", err);
+      }
+    }
+    if (taken) {
+      setError(
+        `The slug "${data.slug}" is already used by ${
+          conflict ? `"${conflict.title}"` : "another page"
+        }`
+      );
+      return;
+    }
+
+    // Only rules left behind by earlier slug changes are replaced without asking
+    const slugMoved = !!previousSlug && !!data.slug && data.slug !== previousSlug;
+    if (slugMoved && redirect && redirect.source !== "slug-change" && !replaceRedirect) {
+      if (canManageRedirects) {
+        setRedirectConflict({ redirect, data, status });
+      } else {
+        setError(
+          `${redirect.from} is used by a redirect rule to ${redirect.to}. Ask an admin to remove it before using this slug.`
+        );
+      }
+      return;
+    }
+
+    const publishAt = fromDateTimeLocal(data.publishAt);
+    if (status === "scheduled" && (!publishAt || new Date(publishAt).getTime() <= Date.now())) {
+      setError("Choose a publish date in the future to schedule this page");
+      return;
+    }
+
     let currentContent = data.content;
     if (summernoteRef.current) {
       currentContent = summernoteRef.current.getContent();
     }
-    const finalData = { ...data, content: currentContent };
+    const finalData = {
+      ...data,
+      content: currentContent,
+      status,
+      // Only scheduled pages carry a publish date; anything else goes out on save
+      publishAt: status === "scheduled" ? publishAt : undefined,
+    };
     try {
       setLoading(true);
+      setSavingAs(status);
       setError(null);
 
       if (isEditing && id) {
-        await dispatch(updatePage({ id, pageData: finalData }));
+        await dispatch(
+          updatePage({ id, pageData: { ...finalData, replaceRedirect } })
+        ).unwrap();
+        if (slugMoved && canManageRedirects) {
+          toast.success(
+            `Redirect added from ${pagePath(previousSlug)} to ${pagePath(data.slug as string)}`
+          );
+        }
       } else {
-        await dispatch(createPage(finalData));
+        await dispatch(createPage(finalData)).unwrap();
       }
+      clearDraft();
+      allowNavigation();
       navigate("/pages");
     } catch (err) {
       console.error("Error saving page:", err);
       setError(isEditing ? "Failed to update page" : "Failed to create page");
     } finally {
       setLoading(false);
+      setSavingAs(null);
     }
   };
 
-  const handleGenerateContent = () => {
-    const title = watch("title");
-    const description = watch("description");
-    generateContent(selectedAI, title, description);
+  const confirmReplaceRedirect = () => {
+    if (!redirectConflict) return;
+    const { data, status } = redirectConflict;
+    setRedirectConflict(null);
+    onSubmit(data, status, true);
   };
 
-  const handleAddTag = () => {
-    const currentTags = watchedTags || [];
-    if (tagInput.trim() && !currentTags.includes(tagInput.trim()) && currentTags.length < 20) {
-      setValue("tags", [...currentTags, tagInput.trim()]);
-      setTagInput("");
+  const submitAs = (status: PageStatus) =>
+    handleSubmit((data) => onSubmit(data as CreatePageData, status));
+
+  const handleGenerateSeo = async () => {
+    const { title, description, content } = getCurrentValues();
+    const suggestion = await generateSeo(selectedAI, { title, description, content });
+    if (suggestion) {
+      setSeoSuggestion(suggestion);
     }
   };
 
-  const handleRemoveTag = (tagToRemove: string) => {
-    const currentTags = watchedTags || [];
-    setValue(
-      "tags",
-      currentTags.filter((tag) => tag !== tagToRemove)
-    );
+  const applySeoSuggestion = (fields: Partial<SeoSuggestion>) => {
+    (Object.keys(fields) as Array<keyof SeoSuggestion>).forEach((field) => {
+      setValue(field, fields[field], { shouldDirty: true, shouldValidate: true });
+    });
+    setSeoSuggestion(null);
+  };
+
+  const handleGenerateContent = () => {
+    generateContent(selectedAI, promptTemplate.body, {
+      title: watch("title"),
+      description: watch("description"),
+      group: (watch("groups") || []).join(", "),
+      tone,
+      length,
+      references,
+    });
   };
 
-  const handleTagInputKeyPress = (event: React.KeyboardEvent) => {
-    if (event.key === "Enter") {
-      event.preventDefault();
-      handleAddTag();
+  const handleOpenHistory = () => {
+    // Compare revisions against what is in the editor right now, including unsynced content
+    setHistorySnapshot(getCurrentValues());
+    setHistoryOpen(true);
+  };
+
+  const handleRestoreRevision = (revision: PageRevision) => {
+    setValue("title", revision.title, { shouldDirty: true });
+    if (revision.description !== undefined) {
+      setValue("description", revision.description, { shouldDirty: true });
     }
+    setValue("metaTitle", revision.metaTitle || "", { shouldDirty: true });
+    setValue("metaDescription", revision.metaDescription || "", { shouldDirty: true });
+    setValue("metaKeywords", revision.metaKeywords || "", { shouldDirty: true });
+    setValue("content", revision.content, { shouldDirty: true });
   };
 
   const handleImageSelect = (imageUrl: string) => {
@@ -276,7 +497,7 @@ const PageForm: React.FC = () => {
     setValue("audioUrl", audioUrl);
   };
 
-  if (loading && isEditing) {
+  if (loading && (isEditing || duplicateId)) {
     return (
       <Box
         display="flex"
@@ -291,9 +512,31 @@ const PageForm: React.FC = () => {
 
   return (
     <Box>
-      <Typography variant="h6" gutterBottom>
-        {isEditing ? "Edit Page" : "Create New Page"}
-      </Typography>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <Typography variant="h6" gutterBottom>
+          {isEditing ? "Edit Page" : duplicateId ? "Duplicate Page" : "Create New Page"}
+        </Typography>
+        {isEditing && (
+          <Button
+            variant="outlined"
+            startIcon={<History />}
+            onClick={handleOpenHistory}
+            sx={{
+              borderRadius: "8px",
+              textTransform: "none",
+              fontWeight: 500,
+            }}
+          >
+            History
+          </Button>
+        )}
+      </Box>
 
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
@@ -302,7 +545,7 @@ const PageForm: React.FC = () => {
       )}
 
       <Box sx={{ py: 2 }}>
-        <form onSubmit={handleSubmit(onSubmit as any)}>
+        <form onSubmit={submitAs(canPublish ? watchedStatus : "draft")}>
           <Box
             sx={{
               display: "flex",
@@ -349,6 +592,45 @@ const PageForm: React.FC = () => {
                 Page Details
               </Typography>
               <Grid container spacing={3}>
+                <Grid item xs={12}>
+                  <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 1 }}>
+                    <Typography variant="body1" sx={{ fontSize: "13px" }}>
+                      Status
+                    </Typography>
+                    <Chip
+                      label={PAGE_STATUS_LABELS[watchedStatus]}
+                      color={PAGE_STATUS_COLORS[watchedStatus]}
+                      size="small"
+                      variant={watchedStatus === "draft" ? "outlined" : "filled"}
+                    />
+                  </Box>
+                  <Typography variant="body1" sx={{ mb: 1, fontSize: "13px" }}>
+                    Publish At
+                  </Typography>
+                  <Controller
+                    name="publishAt"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        fullWidth
+                        type="datetime-local"
+                        InputLabelProps={{ shrink: true }}
+                        error={!!errors.publishAt}
+                        helperText={
+                          errors.publishAt?.message ||
+                          "Set a date and use Schedule to publish later"
+                        }
+                        sx={{
+                          "& .MuiOutlinedInput-root": {
+                            borderRadius: "8px",
+                          },
+                        }}
+                      />
+                    )}
+                  />
+                </Grid>
+
                 <Grid item xs={12}>
                   <Typography variant="body1" sx={{ mb: 1, fontSize: "13px" }}>
                     Title *
@@ -383,8 +665,32 @@ const PageForm: React.FC = () => {
                       <TextField
                         {...field}
                         fullWidth
-                        error={!!errors.slug}
-                        helperText={errors.slug?.message}
+                        error={!!errors.slug || slugCheck.status === "taken"}
+                        helperText={
+                          errors.slug?.message ||
+                          (slugCheck.status === "taken"
+                            ? `Already used by ${
+                                slugCheck.conflict ? `"${slugCheck.conflict.title}"` : "another page"
+                              }`
+                            : slugCheck.status === "available"
+                            ? "Available"
+                            : slugCheck.status === "error"
+                            ? "Couldn't check availability right now"
+                            : undefined)
+                        }
+                        InputProps={{
+                          endAdornment: (
+                            <InputAdornment position="end">
+                              {slugCheck.status === "checking" && <CircularProgress size={18} />}
+                              {slugCheck.status === "available" && (
+                                <CheckCircleIcon color="success" fontSize="small" />
+                              )}
+                              {slugCheck.status === "taken" && (
+                                <ErrorOutlineIcon color="error" fontSize="small" />
+                              )}
+                            </InputAdornment>
+                          ),
+                        }}
                         sx={{
                           "& .MuiOutlinedInput-root": {
                             borderRadius: "8px",
@@ -393,6 +699,12 @@ const PageForm: React.FC = () => {
                       />
                     )}
                   />
+                  {slugChanged && previousSlug && canManageRedirects && (
+                    <Alert severity="info" sx={{ mt: 1 }}>
+                      Saving adds a 301 redirect from {pagePath(previousSlug)} to{" "}
+                      {pagePath(watchedSlug || "")} so existing links keep working.
+                    </Alert>
+                  )}
                 </Grid>
 
                 <Grid item xs={12}>
@@ -552,7 +864,7 @@ const PageForm: React.FC = () => {
                               {(selected as string[]).map((value) => (
                                 <Chip
                                   key={value}
-                                  label={GROUP_OPTIONS.find(option => option.value === value)?.label || value}
+                                  label={groupLabel(value)}
                                   size="small"
                                 />
                               ))}
@@ -562,7 +874,7 @@ const PageForm: React.FC = () => {
                             borderRadius: "8px",
                           }}
                         >
-                          {GROUP_OPTIONS.map((option) => (
+                          {groupOptions.map((option) => (
                             <MenuItem key={option.value} value={option.value}>
                               {option.label}
                             </MenuItem>
@@ -608,32 +920,13 @@ const PageForm: React.FC = () => {
                   <Typography variant="body1" sx={{ mb: 1, fontSize: "13px" }}>
                     Tags
                   </Typography>
-                  <Box>
-                    <TextField
-                      fullWidth
-                      value={tagInput}
-                      onChange={(e) => setTagInput(e.target.value)}
-                      onKeyPress={handleTagInputKeyPress}
-                      placeholder="Add tags (max 20)"
-                      helperText={`${(watchedTags || []).length}/20 tags`}
-                      sx={{
-                        "& .MuiOutlinedInput-root": {
-                          borderRadius: "8px",
-                        },
-                      }}
-                    />
-                    <Box
-                      sx={{ display: "flex", flexWrap: "wrap", gap: 1, mt: 1 }}
-                    >
-                      {(watchedTags || []).map((tag, index) => (
-                        <Chip
-                          key={index}
-                          label={tag}
-                          onDelete={() => handleRemoveTag(tag)}
-                        />
-                      ))}
-                    </Box>
-                  </Box>
+                  <TagsAutocomplete
+                    value={watchedTags || []}
+                    onChange={(tags) => setValue("tags", tags, { shouldDirty: true })}
+                    max={20}
+                    placeholder="Add tags (max 20)"
+                    helperText={`${(watchedTags || []).length}/20 tags`}
+                  />
                 </Grid>
 
                 <Grid item xs={12}>
@@ -644,17 +937,11 @@ const PageForm: React.FC = () => {
                     name="category"
                     control={control}
                     render={({ field }) => (
-                      <TextField
-                        {...field}
-                        fullWidth
-                        placeholder="Enter category"
+                      <CategoryAutocomplete
+                        value={field.value || ""}
+                        onChange={field.onChange}
                         error={!!errors.category}
                         helperText={errors.category?.message}
-                        sx={{
-                          "& .MuiOutlinedInput-root": {
-                            borderRadius: "8px",
-                          },
-                        }}
                       />
                     )}
                   />
@@ -691,6 +978,12 @@ const PageForm: React.FC = () => {
                   <Typography variant="h6" sx={{ mb: 2, mt: 2, color: "primary.main" }}>
                     SEO Settings
                   </Typography>
+                  <SeoPanel
+                    report={seoReport}
+                    generating={generatingSeo}
+                    onGenerate={handleGenerateSeo}
+                    onCancel={cancelSeoGeneration}
+                  />
                 </Grid>
 
                 <Grid item xs={12}>
@@ -820,35 +1113,113 @@ const PageForm: React.FC = () => {
                                 displayEmpty
                                 size="small"
                               >
-                                <MenuItem value="gemini">Gemini</MenuItem>
-                                <MenuItem value="perplexity">
-                                  Perplexity
-                                </MenuItem>
+                                {getAIProviders().map((provider) => (
+                                  <MenuItem key={provider.id} value={provider.id}>
+                                    {provider.label}
+                                  </MenuItem>
+                                ))}
                               </Select>
                             </FormControl>
-                            <Button
-                              variant="contained"
-                              onClick={handleGenerateContent}
-                              size="large"
-                              sx={{
-                                minWidth: 150,
-                                borderRadius: "8px",
-                                boxShadow: "none",
-                                color: "#fff",
-                              }}
-                            >
-                              {generating ? (
+                            {generating ? (
+                              <Button
+                                variant="contained"
+                                color="error"
+                                onClick={cancelGeneration}
+                                size="large"
+                                sx={{
+                                  minWidth: 150,
+                                  borderRadius: "8px",
+                                  boxShadow: "none",
+                                  color: "#fff",
+                                }}
+                              >
                                 <CircularProgress
                                   size={18}
                                   sx={{ color: "#fff", marginRight: "8px" }}
                                 />
-                              ) : (
-                                ""
-                              )}
-                              Generate with AI
-                            </Button>
+                                Stop generating
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="contained"
+                                onClick={handleGenerateContent}
+                                size="large"
+                                sx={{
+                                  minWidth: 150,
+                                  borderRadius: "8px",
+                                  boxShadow: "none",
+                                  color: "#fff",
+                                }}
+                              >
+                                Generate with AI
+                              </Button>
+                            )}
                           </Box>
                         </Box>
+                        {/* AI prompt options */}
+                        <Box
+                          sx={{
+                            display: "flex",
+                            gap: 2,
+                            flexWrap: "wrap",
+                            alignItems: "flex-start",
+                            mb: 2,
+                          }}
+                        >
+                          <FormControl size="small" sx={{ minWidth: 200 }}>
+                            <InputLabel>Prompt template</InputLabel>
+                            <Select
+                              value={promptTemplate._id}
+                              label="Prompt template"
+                              onChange={(e) => setPromptTemplateId(e.target.value)}
+                            >
+                              {promptTemplates.map((template) => (
+                                <MenuItem key={template._id} value={template._id}>
+                                  {template.name}
+                                  {template.builtIn ? " (built-in)" : ` (v${template.version})`}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </FormControl>
+                          <FormControl size="small" sx={{ minWidth: 160 }}>
+                            <InputLabel>Tone</InputLabel>
+                            <Select
+                              value={tone}
+                              label="Tone"
+                              onChange={(e) => setTone(e.target.value)}
+                            >
+                              {TONE_OPTIONS.map((option) => (
+                                <MenuItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </FormControl>
+                          <FormControl size="small" sx={{ minWidth: 140 }}>
+                            <InputLabel>Length</InputLabel>
+                            <Select
+                              value={length}
+                              label="Length"
+                              onChange={(e) => setLength(e.target.value)}
+                            >
+                              {LENGTH_OPTIONS.map((option) => (
+                                <MenuItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                          </FormControl>
+                          <TextField
+                            size="small"
+                            label="References"
+                            placeholder="Sources, links or notes for the AI (optional)"
+                            value={references}
+                            onChange={(e) => setReferences(e.target.value)}
+                            multiline
+                            maxRows={4}
+                            sx={{ flex: 1, minWidth: 240 }}
+                          />
+                        </Box>
                         {/* Summernote Editor */}
                         <Box
                           sx={{
@@ -865,6 +1236,7 @@ const PageForm: React.FC = () => {
                             value={field.value}
                             onChange={field.onChange}
                             placeholder="Enter your page content here..."
+                            aiProvider={selectedAI}
                             height={11800}
                           />
                         </Box>
@@ -885,9 +1257,15 @@ const PageForm: React.FC = () => {
                       display: "flex",
                       gap: 2,
                       justifyContent: "flex-end",
+                      alignItems: "center",
                       mt: 2,
                     }}
                   >
+                    {lastSavedAt && (
+                      <Typography variant="body2" color="text.secondary" sx={{ mr: "auto" }}>
+                        Autosaved locally at {new Date(lastSavedAt).toLocaleTimeString()}
+                      </Typography>
+                    )}
                     <Button
                       variant="outlined"
                       onClick={() => navigate("/pages")}
@@ -902,8 +1280,9 @@ const PageForm: React.FC = () => {
                       Cancel
                     </Button>
                     <Button
-                      type="submit"
-                      variant="contained"
+                      variant="outlined"
+                      onClick={submitAs("draft")}
+                      disabled={loading}
                       sx={{
                         borderRadius: "8px",
                         textTransform: "none",
@@ -911,16 +1290,68 @@ const PageForm: React.FC = () => {
                         px: 3,
                       }}
                     >
-                      {loading ? (
-                        <CircularProgress
-                          size={16}
-                          style={{ color: "#fff", marginRight: "8px" }}
-                        />
-                      ) : (
-                        ""
+                      {savingAs === "draft" && (
+                        <CircularProgress size={16} sx={{ mr: 1 }} />
                       )}
-                      Save
+                      Save draft
                     </Button>
+                    <Button
+                      variant="outlined"
+                      onClick={submitAs("in_review")}
+                      disabled={loading}
+                      sx={{
+                        borderRadius: "8px",
+                        textTransform: "none",
+                        fontWeight: 500,
+                        px: 3,
+                      }}
+                    >
+                      {savingAs === "in_review" && (
+                        <CircularProgress size={16} sx={{ mr: 1 }} />
+                      )}
+                      Submit for review
+                    </Button>
+                    {/* Authors can only save drafts and submit for review */}
+                    {canPublish && (
+                      <>
+                        <Button
+                          variant="outlined"
+                          color="warning"
+                          onClick={submitAs("scheduled")}
+                          disabled={loading || !watchedPublishAt}
+                          sx={{
+                            borderRadius: "8px",
+                            textTransform: "none",
+                            fontWeight: 500,
+                            px: 3,
+                          }}
+                        >
+                          {savingAs === "scheduled" && (
+                            <CircularProgress size={16} sx={{ mr: 1 }} />
+                          )}
+                          Schedule
+                        </Button>
+                        <Button
+                          variant="contained"
+                          onClick={submitAs("published")}
+                          disabled={loading}
+                          sx={{
+                            borderRadius: "8px",
+                            textTransform: "none",
+                            fontWeight: 500,
+                            px: 3,
+                          }}
+                        >
+                          {savingAs === "published" && (
+                            <CircularProgress
+                              size={16}
+                              style={{ color: "#fff", marginRight: "8px" }}
+                            />
+                          )}
+                          {watchedStatus === "published" ? "Update" : "Publish"}
+                        </Button>
+                      </>
+                    )}
                   </Box>
                 </Grid>
               </Grid>
@@ -946,6 +1377,56 @@ const PageForm: React.FC = () => {
         onClose={() => setAudioDialogOpen(false)}
         onSelectAudio={handleAudioSelect}
       />
+
+      {pendingDraft && serverValues && (
+        <AutosaveRestoreDialog
+          open
+          savedAt={pendingDraft.savedAt}
+          draft={pendingDraft.data}
+          server={serverValues}
+          serverLabel={isEditing ? "Saved version" : duplicateId ? "Duplicated page" : "Empty page"}
+          onRestore={handleRestoreDraft}
+          onDiscard={handleDiscardDraft}
+        />
+      )}
+
+      <UnsavedChangesDialog blocker={blocker} onLeave={clearDraft} />
+
+      {/* Slug Takes Over A Redirect Rule Dialog */}
+      <Dialog open={!!redirectConflict} onClose={() => setRedirectConflict(null)}>
+        <DialogTitle>Replace redirect rule?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {redirectConflict?.redirect.from} currently redirects to{" "}
+            {redirectConflict?.redirect.to}. Saving this slug removes that rule so the page
+            can be reached at its new address.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRedirectConflict(null)}>Cancel</Button>
+          <Button onClick={confirmReplaceRedirect} color="warning" variant="contained">
+            Replace and save
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <SeoSuggestionDialog
+        open={!!seoSuggestion}
+        suggestion={seoSuggestion}
+        current={getCurrentValues()}
+        onApply={applySeoSuggestion}
+        onClose={() => setSeoSuggestion(null)}
+      />
+
+      {isEditing && id && historySnapshot && (
+        <RevisionHistoryDialog
+          open={historyOpen}
+          onClose={() => setHistoryOpen(false)}
+          pageId={id}
+          current={historySnapshot}
+          onRestore={handleRestoreRevision}
+        />
+      )}
     </Box>
   );
 };
@@ -24,6 +24,7 @@ import {
   GridColDef,
   GridActionsCellItem,
   GridRowParams,
+  GridRowSelectionModel,
 } from "@mui/x-data-grid";
 import {
   Plus as AddIcon,
@@ -32,6 +33,11 @@ import {
   Search as SearchIcon,
   Eye as VisibilityIcon,
   RefreshCw as RefreshIcon,
+  Archive as ArchiveIcon,
+  ArchiveRestore as UnarchiveIcon,
+  Upload as UploadIcon,
+  ArchiveX as TrashIcon,
+  CopyPlus as DuplicateIcon,
 } from "lucide-react";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import {
@@ -39,18 +45,27 @@ import {
   deletePage,
   setPagination,
   setGroupFilter,
+  setStatusFilter,
+  changePageStatus,
   forceRefresh,
 } from "../store/slices/pagesSlice";
-import type { Page } from "../types";
+import { restoreTrashItem } from "../store/slices/trashSlice";
+import { usePermissions } from "../hooks/usePermission";
+import { useGroups } from "../hooks/useGroups";
+import type { Page, PageStatus } from "../types";
 import TableSkeleton from "../components/TableSkeleton";
-
-// Group options for filtering
-const GROUP_OPTIONS = [
-  { value: "", label: "All Groups" },
-  { value: "blogs", label: "Blogs" },
-  { value: "cardiology", label: "Cardiology" },
-  { value: "case-studies", label: "Case Studies" },
-];
+import PageBulkActions from "../components/PageBulkActions";
+import PageExportButton from "../components/PageExportButton";
+import PageImportDialog from "../components/PageImportDialog";
+import { showUndoToast } from "../components/UndoToast";
+import { trashPath } from "../utils/trash";
+import { duplicatePath } from "../utils/duplicate";
+import {
+  PAGE_STATUSES,
+  PAGE_STATUS_LABELS,
+  PAGE_STATUS_COLORS,
+  getPageStatus,
+} from "../utils/pageStatus";
 
 const PageList: React.FC = () => {
   const navigate = useNavigate();
@@ -62,16 +77,26 @@ const PageList: React.FC = () => {
     pagination,
     searchTerm: reduxSearchTerm,
     groupFilter: reduxGroupFilter,
+    statusFilter: reduxStatusFilter,
     lastFetched,
   } = useAppSelector((state) => state.pages);
 
+  const { can } = usePermissions();
+  const { groupOptions, groupLabel } = useGroups();
   const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
   const [pageToDelete, setPageToDelete] = React.useState<Page | null>(null);
   const [searchTerm, setSearchTerm] = React.useState(reduxSearchTerm);
   const [searchInput, setSearchInput] = React.useState(reduxSearchTerm); // Local input state
   const [searchTimeout, setSearchTimeout] = React.useState<NodeJS.Timeout | null>(null);
   const [selectedGroupFilter, setSelectedGroupFilter] = React.useState(reduxGroupFilter); // Local group filter state
+  const [selectedStatusFilter, setSelectedStatusFilter] = React.useState<PageStatus | "">(reduxStatusFilter); // Local status filter state
+
+  const [selectionModel, setSelectionModel] = React.useState<GridRowSelectionModel>([]);
+  const canBulkEdit = can("pages.edit") || can("pages.publish") || can("pages.delete");
+  const selectedPages = pages.filter((page) => selectionModel.includes(page._id));
+  const tagOptions = [...new Set(pages.flatMap((page) => page.tags))].sort();
 
+  const [importDialogOpen, setImportDialogOpen] = React.useState(false);
   const [imageDialogOpen, setImageDialogOpen] = React.useState(false);
   const [selectedImage, setSelectedImage] = React.useState<string>("");
 
@@ -80,7 +105,8 @@ const PageList: React.FC = () => {
     setSearchTerm(reduxSearchTerm);
     setSearchInput(reduxSearchTerm);
     setSelectedGroupFilter(reduxGroupFilter);
-  }, [reduxSearchTerm, reduxGroupFilter]);
+    setSelectedStatusFilter(reduxStatusFilter);
+  }, [reduxSearchTerm, reduxGroupFilter, reduxStatusFilter]);
 
   useEffect(() => {
     // Check if we need to fetch data
@@ -88,7 +114,8 @@ const PageList: React.FC = () => {
       !lastFetched || // No data cached
       pages.length === 0 || // No pages in state
       searchTerm !== reduxSearchTerm || // Search term changed
-      selectedGroupFilter !== reduxGroupFilter // Group filter changed
+      selectedGroupFilter !== reduxGroupFilter || // Group filter changed
+      selectedStatusFilter !== reduxStatusFilter // Status filter changed
     );
 
     if (shouldFetch) {
@@ -98,10 +125,23 @@ const PageList: React.FC = () => {
           pageSize: pagination.pageSize,
           search: searchTerm,
           group: selectedGroupFilter,
+          status: selectedStatusFilter,
+        })
+      );
+    }
+  }, [dispatch, pagination.page, pagination.pageSize, searchTerm, selectedGroupFilter, selectedStatusFilter, reduxSearchTerm, reduxGroupFilter, reduxStatusFilter, lastFetched, pages.length]);
+
+  // Step back when bulk deletes emptied the last page
+  useEffect(() => {
+    if (lastFetched && !loading && pages.length === 0 && pagination.page > 1) {
+      dispatch(
+        setPagination({
+          page: pagination.page - 1,
+          pageSize: pagination.pageSize,
         })
       );
     }
-  }, [dispatch, pagination.page, pagination.pageSize, searchTerm, selectedGroupFilter, reduxSearchTerm, reduxGroupFilter, lastFetched, pages.length]);
+  }, [dispatch, lastFetched, loading, pages.length, pagination.page, pagination.pageSize]);
 
   const handleEdit = (id: string) => {
     navigate(`/pages/edit/${id}`);
@@ -116,9 +156,13 @@ const PageList: React.FC = () => {
     if (!pageToDelete) return;
 
     try {
-      await dispatch(deletePage(pageToDelete._id));
+      const { _id: id, title } = pageToDelete;
+      await dispatch(deletePage(id)).unwrap();
       setDeleteDialogOpen(false);
       setPageToDelete(null);
+      showUndoToast(`"${title}" moved to trash`, () => {
+        dispatch(restoreTrashItem({ type: "pages", id }));
+      });
       
       // If this was the last item on the current page and we're not on page 1,
       // go back to the previous page
@@ -172,6 +216,24 @@ const PageList: React.FC = () => {
     );
   };
 
+  const handleStatusFilterChange = (event: any) => {
+    const value = event.target.value as PageStatus | "";
+    setSelectedStatusFilter(value);
+    dispatch(setStatusFilter(value));
+    // Reset to first page when filtering
+    dispatch(
+      setPagination({
+        page: 1,
+        pageSize: pagination.pageSize,
+      })
+    );
+  };
+
+  const handleToggleArchive = (page: Page) => {
+    const status = getPageStatus(page.status) === "archived" ? "draft" : "archived";
+    dispatch(changePageStatus({ id: page._id, status }));
+  };
+
   const handleRefresh = () => {
     dispatch(forceRefresh());
   };
@@ -215,6 +277,29 @@ const PageList: React.FC = () => {
       flex: 1,
       minWidth: 120,
     },
+    {
+      field: "status",
+      headerName: "Status",
+      width: 130,
+      renderCell: (params: { row: Page }) => {
+        const status = getPageStatus(params.row.status);
+        const chip = (
+          <Chip
+            label={PAGE_STATUS_LABELS[status]}
+            color={PAGE_STATUS_COLORS[status]}
+            size="small"
+            variant={status === "draft" ? "outlined" : "filled"}
+          />
+        );
+        return status === "scheduled" && params.row.publishAt ? (
+          <Tooltip title={`Publishes ${new Date(params.row.publishAt).toLocaleString()}`}>
+            {chip}
+          </Tooltip>
+        ) : (
+          chip
+        );
+      },
+    },
     {
       field: "slug",
       headerName: "Slug",
@@ -278,7 +363,7 @@ const PageList: React.FC = () => {
       renderCell: (params) => (
         <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5 }}>
           {params.value.slice(0, 2).map((group: string, index: number) => (
-            <Chip key={index} label={group} size="small" />
+            <Chip key={index} label={groupLabel(group)} size="small" />
           ))}
           {params.value.length > 2 && (
             <Chip
@@ -357,7 +442,7 @@ const PageList: React.FC = () => {
       field: "actions",
       type: "actions",
       headerName: "Actions",
-      width: 120,
+      width: 200,
       getActions: (params: GridRowParams<Page>) => [
         <GridActionsCellItem
           key="preview"
@@ -369,26 +454,60 @@ const PageList: React.FC = () => {
           label="Preview"
           onClick={() => handlePreview(params.row)}
         />,
-        <GridActionsCellItem
-          key="edit"
-          icon={
-            <Tooltip title="Edit">
-              <EditIcon size={18} />
-            </Tooltip>
-          }
-          label="Edit"
-          onClick={() => handleEdit(params.row._id)}
-        />,
-        <GridActionsCellItem
-          key="delete"
-          icon={
-            <Tooltip title="Delete">
-              <DeleteIcon size={18} />
-            </Tooltip>
-          }
-          label="Delete"
-          onClick={() => handleDelete(params.row)}
-        />,
+        ...(can("pages.edit") ? [
+          <GridActionsCellItem
+            key="edit"
+            icon={
+              <Tooltip title="Edit">
+                <EditIcon size={18} />
+              </Tooltip>
+            }
+            label="Edit"
+            onClick={() => handleEdit(params.row._id)}
+          />,
+        ] : []),
+        ...(can("pages.create") ? [
+          <GridActionsCellItem
+            key="duplicate"
+            icon={
+              <Tooltip title="Duplicate">
+                <DuplicateIcon size={18} />
+              </Tooltip>
+            }
+            label="Duplicate"
+            onClick={() => navigate(duplicatePath("/pages", params.row._id))}
+          />,
+        ] : []),
+        ...(can("pages.publish") ? [
+          <GridActionsCellItem
+            key="archive"
+            icon={
+              getPageStatus(params.row.status) === "archived" ? (
+                <Tooltip title="Unarchive">
+                  <UnarchiveIcon size={18} />
+                </Tooltip>
+              ) : (
+                <Tooltip title="Archive">
+                  <ArchiveIcon size={18} />
+                </Tooltip>
+              )
+            }
+            label={getPageStatus(params.row.status) === "archived" ? "Unarchive" : "Archive"}
+            onClick={() => handleToggleArchive(params.row)}
+          />,
+        ] : []),
+        ...(can("pages.delete") ? [
+          <GridActionsCellItem
+            key="delete"
+            icon={
+              <Tooltip title="Delete">
+                <DeleteIcon size={18} />
+              </Tooltip>
+            }
+            label="Delete"
+            onClick={() => handleDelete(params.row)}
+          />,
+        ] : []),
       ],
     },
   ];
@@ -421,20 +540,59 @@ const PageList: React.FC = () => {
           >
             Refresh
           </Button>
-          <Button
-            variant="contained"
-            startIcon={<AddIcon size={20} />}
-            onClick={() => navigate("/pages/new")}
-            sx={{
-              borderRadius: "8px",
-              textTransform: "none",
-              fontWeight: 500,
-              px: 3,
-              py: 1,
-            }}
-          >
-            Create New Page
-          </Button>
+          {can("pages.delete") && (
+            <Button
+              variant="outlined"
+              startIcon={<TrashIcon size={20} />}
+              onClick={() => navigate(trashPath("pages"))}
+              sx={{
+                borderRadius: "8px",
+                textTransform: "none",
+                fontWeight: 500,
+                px: 2,
+                py: 1,
+              }}
+            >
+              Trash
+            </Button>
+          )}
+          <PageExportButton
+            search={searchTerm}
+            group={selectedGroupFilter}
+            status={selectedStatusFilter}
+          />
+          {can("pages.create") && (
+            <Button
+              variant="outlined"
+              startIcon={<UploadIcon size={20} />}
+              onClick={() => setImportDialogOpen(true)}
+              sx={{
+                borderRadius: "8px",
+                textTransform: "none",
+                fontWeight: 500,
+                px: 2,
+                py: 1,
+              }}
+            >
+              Import
+            </Button>
+          )}
+          {can("pages.create") && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon size={20} />}
+              onClick={() => navigate("/pages/new")}
+              sx={{
+                borderRadius: "8px",
+                textTransform: "none",
+                fontWeight: 500,
+                px: 3,
+                py: 1,
+              }}
+            >
+              Create New Page
+            </Button>
+          )}
         </Box>
       </Box>
 
@@ -469,13 +627,33 @@ const PageList: React.FC = () => {
               borderRadius: "8px",
             }}
           >
-            {GROUP_OPTIONS.map((option) => (
+            <MenuItem value="">All Groups</MenuItem>
+            {groupOptions.map((option) => (
               <MenuItem key={option.value} value={option.value}>
                 {option.label}
               </MenuItem>
             ))}
           </Select>
         </FormControl>
+
+        <FormControl sx={{ minWidth: 180 }} size="small">
+          <InputLabel>Filter by Status</InputLabel>
+          <Select
+            value={selectedStatusFilter}
+            onChange={handleStatusFilterChange}
+            label="Filter by Status"
+            sx={{
+              borderRadius: "8px",
+            }}
+          >
+            <MenuItem value="">All Statuses</MenuItem>
+            {PAGE_STATUSES.map((status) => (
+              <MenuItem key={status} value={status}>
+                {PAGE_STATUS_LABELS[status]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
         
         {searchTerm && (
           <Typography variant="body2" color="text.secondary">
@@ -485,7 +663,13 @@ const PageList: React.FC = () => {
 
         {selectedGroupFilter && (
           <Typography variant="body2" color="text.secondary">
-            Filtered by: {GROUP_OPTIONS.find(option => option.value === selectedGroupFilter)?.label}
+            Filtered by: {groupLabel(selectedGroupFilter)}
+          </Typography>
+        )}
+
+        {selectedStatusFilter && (
+          <Typography variant="body2" color="text.secondary">
+            Status: {PAGE_STATUS_LABELS[selectedStatusFilter]}
           </Typography>
         )}
       </Box>
@@ -496,6 +680,13 @@ const PageList: React.FC = () => {
         </Alert>
       )}
 
+      <PageBulkActions
+        selectedPages={selectedPages}
+        groupOptions={groupOptions}
+        tagOptions={tagOptions}
+        onClearSelection={() => setSelectionModel([])}
+      />
+
       {!loading && pages.length === 0 && searchTerm && (
         <Alert severity="info" sx={{ mb: 2 }}>
           No pages found matching "{searchTerm}". Try adjusting your search terms.
@@ -523,8 +714,11 @@ const PageList: React.FC = () => {
           paginationMode="server"
           loading={loading}
           slots={{
-            loadingOverlay: () => <TableSkeleton columns={10} />,
+            loadingOverlay: () => <TableSkeleton columns={11} />,
           }}
+          checkboxSelection={canBulkEdit}
+          rowSelectionModel={selectionModel}
+          onRowSelectionModelChange={setSelectionModel}
           disableRowSelectionOnClick
           sx={{
             "& .MuiDataGrid-cell": {
@@ -562,7 +756,8 @@ const PageList: React.FC = () => {
         <DialogContent>
           <DialogContentText>
             Are you sure you want to delete the page "{pageToDelete?.title}"?
-            This action cannot be undone.
+            It will be moved to the trash, where it can be restored until it is
+            permanently deleted.
           </DialogContentText>
         </DialogContent>
         <DialogActions>
@@ -589,6 +784,11 @@ const PageList: React.FC = () => {
           </Button>
         </DialogActions>
       </Dialog>
+      <PageImportDialog
+        open={importDialogOpen}
+        onClose={() => setImportDialogOpen(false)}
+      />
+
       {/* Image Preview Dialog */}
       <Dialog
         open={imageDialogOpen}
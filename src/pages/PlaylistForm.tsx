@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { useForm, Controller } from "react-hook-form";
 import { yupResolver } from "@hookform/resolvers/yup";
 import * as yup from "yup";
@@ -23,7 +23,9 @@ import { createPlaylist, updatePlaylist } from "../store/slices/playlistsSlice";
 import { fetchTracks } from "../store/slices/tracksSlice";
 import { playlistsAPI } from "../services/api";
 import ImageDialog from "../components/ImageDialog";
+import TagsAutocomplete from "../components/TagsAutocomplete";
 import type { CreatePlaylistData, Track } from "../types";
+import { DUPLICATE_PARAM, copyTitle } from "../utils/duplicate";
 
 const playlistSchema = yup.object({
   title: yup.string().optional().max(200, "Title cannot be more than 200 characters"),
@@ -40,6 +42,9 @@ const PlaylistForm: React.FC = () => {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const isEditing = Boolean(id);
+  const [searchParams] = useSearchParams();
+  const duplicateId = isEditing ? null : searchParams.get(DUPLICATE_PARAM);
+  const sourceId = id || duplicateId;
   const dispatch = useAppDispatch();
   const { loading } = useAppSelector((state) => state.playlists);
   const { items: availableTracks } = useAppSelector((state) => state.tracks);
@@ -48,6 +53,9 @@ const PlaylistForm: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [selectedTracks, setSelectedTracks] = useState<Track[]>([]);
   const [imageDialogOpen, setImageDialogOpen] = useState(false);
+  // Tracks of the playlist being duplicated, so the copy can take them or start empty
+  const [sourceTracks, setSourceTracks] = useState<Track[]>([]);
+  const [copyTracks, setCopyTracks] = useState(true);
 
   const {
     control,
@@ -75,15 +83,17 @@ const PlaylistForm: React.FC = () => {
     dispatch(fetchTracks({ page: 1, pageSize: 100 })); // Load more tracks for selection
   }, [dispatch]);
 
+  // Load the playlist being edited, or the one being duplicated into a new playlist
   useEffect(() => {
-    if (isEditing && id) {
+    if (sourceId) {
       setLoadingPlaylist(true);
       playlistsAPI
-        .getById(id)
+        .getById(sourceId)
         .then((response) => {
           setSelectedTracks(response.data.tracks);
+          setSourceTracks(response.data.tracks);
           reset({
-            title: response.data.title || '',
+            title: duplicateId ? copyTitle(response.data.title) : response.data.title || '',
             description: response.data.description || '',
             duration: response.data.duration || '',
             thumbnail: response.data.thumbnail || '',
@@ -101,7 +111,7 @@ const PlaylistForm: React.FC = () => {
           setLoadingPlaylist(false);
         });
     }
-  }, [id, isEditing, reset, dispatch]);
+  }, [sourceId, duplicateId, reset, dispatch]);
 
   const onSubmit = async (data: CreatePlaylistData) => {
     try {
@@ -121,7 +131,14 @@ const PlaylistForm: React.FC = () => {
     setValue('tracks', newValue.map(track => track._id));
   };
 
-  const handleTagChange = (_event: any, newValue: string[]) => {
+  const handleCopyTracksChange = (checked: boolean) => {
+    const tracks = checked ? sourceTracks : [];
+    setCopyTracks(checked);
+    setSelectedTracks(tracks);
+    setValue('tracks', tracks.map(track => track._id));
+  };
+
+  const handleTagChange = (newValue: string[]) => {
     setValue('tags', newValue);
   };
 
@@ -140,7 +157,7 @@ const PlaylistForm: React.FC = () => {
   return (
     <Box>
       <Typography variant="h6" gutterBottom>
-        {isEditing ? 'Edit Playlist' : 'Create New Playlist'}
+        {isEditing ? 'Edit Playlist' : duplicateId ? 'Duplicate Playlist' : 'Create New Playlist'}
       </Typography>
 
       {error && (
@@ -289,6 +306,18 @@ const PlaylistForm: React.FC = () => {
               <Typography variant="body1" sx={{ mb: 1, fontSize: "13px" }}>
                 Tracks
               </Typography>
+              {duplicateId && sourceTracks.length > 0 && (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={copyTracks}
+                      onChange={(e) => handleCopyTracksChange(e.target.checked)}
+                    />
+                  }
+                  label={`Copy its ${sourceTracks.length} track${sourceTracks.length === 1 ? '' : 's'}`}
+                  sx={{ mb: 1 }}
+                />
+              )}
               <Controller
                 name="tracks"
                 control={control}
@@ -334,34 +363,11 @@ const PlaylistForm: React.FC = () => {
                 name="tags"
                 control={control}
                 render={() => (
-                  <Autocomplete
-                    multiple
-                    options={[]} // Allow free text entry
-                    freeSolo
+                  <TagsAutocomplete
                     value={watch('tags') || []}
                     onChange={handleTagChange}
-                    renderTags={(value, getTagProps) =>
-                      value.map((option, index) => (
-                        <Chip
-                          label={option}
-                          {...getTagProps({ index })}
-                          size="small"
-                        />
-                      ))
-                    }
-                    renderInput={(params) => (
-                      <TextField
-                        {...params}
-                        placeholder="Add tags (press Enter to add)"
-                        error={!!errors.tags}
-                        helperText={errors.tags?.message}
-                        sx={{
-                          "& .MuiOutlinedInput-root": {
-                            borderRadius: "8px",
-                          },
-                        }}
-                      />
-                    )}
+                    error={!!errors.tags}
+                    helperText={errors.tags?.message}
                   />
                 )}
               />
@@ -31,6 +31,8 @@ import {
   Trash2 as DeleteIcon,
   Search as SearchIcon,
   Eye as VisibilityIcon,
+  ArchiveX as TrashIcon,
+  CopyPlus as DuplicateIcon,
 } from 'lucide-react'
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import {
@@ -41,7 +43,12 @@ import {
   setCreatedByFilter,
   setIsPublicFilter,
 } from "../store/slices/playlistsSlice";
+import { restoreTrashItem } from "../store/slices/trashSlice";
+import { usePermissions } from "../hooks/usePermission";
 import type { Playlist } from "../types";
+import { showUndoToast } from "../components/UndoToast";
+import { trashPath } from "../utils/trash";
+import { duplicatePath } from "../utils/duplicate";
 import TableSkeleton from "../components/TableSkeleton";
 
 const PlaylistList: React.FC = () => {
@@ -60,6 +67,7 @@ const PlaylistList: React.FC = () => {
     lastFetchParams,
   } = useAppSelector((state) => state.playlists);
 
+  const { can } = usePermissions();
   const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
   const [playlistToDelete, setPlaylistToDelete] = React.useState<Playlist | null>(null);
   const [localSearchTerm, setLocalSearchTerm] = React.useState(searchTerm);
@@ -140,7 +148,15 @@ const PlaylistList: React.FC = () => {
 
   const handleDeleteConfirm = async () => {
     if (playlistToDelete) {
-      await dispatch(deletePlaylist(playlistToDelete._id));
+      const { _id: id, title } = playlistToDelete;
+      try {
+        await dispatch(deletePlaylist(id)).unwrap();
+        showUndoToast(`"${title || 'Playlist'}" moved to trash`, () => {
+          dispatch(restoreTrashItem({ type: 'playlists', id }));
+        });
+      } catch (error) {
+        console.error('Error deleting playlist:', error);
+      }
       setDeleteDialogOpen(false);
       setPlaylistToDelete(null);
     }
@@ -245,7 +261,7 @@ const PlaylistList: React.FC = () => {
       field: 'actions',
       type: 'actions',
       headerName: 'Actions',
-      width: 120,
+      width: 160,
       getActions: (params: GridRowParams) => [
         <GridActionsCellItem
           key="view"
@@ -257,26 +273,40 @@ const PlaylistList: React.FC = () => {
           label="View"
           onClick={() => navigate(`/playlists/${params.id}`)}
         />,
-        <GridActionsCellItem
-          key="edit"
-          icon={
-            <Tooltip title="Edit">
-              <EditIcon size={18} />
-            </Tooltip>
-          }
-          label="Edit"
-          onClick={() => navigate(`/playlists/${params.id}/edit`)}
-        />,
-        <GridActionsCellItem
-          key="delete"
-          icon={
-            <Tooltip title="Delete">
-              <DeleteIcon size={18} />
-            </Tooltip>
-          }
-          label="Delete"
-          onClick={() => handleDeleteClick(params.row)}
-        />,
+        ...(can("playlists.edit") ? [
+          <GridActionsCellItem
+            key="edit"
+            icon={
+              <Tooltip title="Edit">
+                <EditIcon size={18} />
+              </Tooltip>
+            }
+            label="Edit"
+            onClick={() => navigate(`/playlists/${params.id}/edit`)}
+          />,
+          <GridActionsCellItem
+            key="duplicate"
+            icon={
+              <Tooltip title="Duplicate">
+                <DuplicateIcon size={18} />
+              </Tooltip>
+            }
+            label="Duplicate"
+            onClick={() => navigate(duplicatePath("/playlists", String(params.id)))}
+          />,
+        ] : []),
+        ...(can("playlists.delete") ? [
+          <GridActionsCellItem
+            key="delete"
+            icon={
+              <Tooltip title="Delete">
+                <DeleteIcon size={18} />
+              </Tooltip>
+            }
+            label="Delete"
+            onClick={() => handleDeleteClick(params.row)}
+          />,
+        ] : []),
       ],
     },
   ];
@@ -287,20 +317,40 @@ const PlaylistList: React.FC = () => {
         <Typography variant="h6" component="h1">
           Playlists
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon size={20} />}
-          onClick={() => navigate('/playlists/new')}
-          sx={{
-            borderRadius: "8px",
-            textTransform: "none",
-            fontWeight: 500,
-            px: 3,
-            py: 1,
-          }}
-        >
-          Add Playlist
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {can('playlists.delete') && (
+            <Button
+              variant="outlined"
+              startIcon={<TrashIcon size={20} />}
+              onClick={() => navigate(trashPath('playlists'))}
+              sx={{
+                borderRadius: "8px",
+                textTransform: "none",
+                fontWeight: 500,
+                px: 2,
+                py: 1,
+              }}
+            >
+              Trash
+            </Button>
+          )}
+          {can('playlists.edit') && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon size={20} />}
+              onClick={() => navigate('/playlists/new')}
+              sx={{
+                borderRadius: "8px",
+                textTransform: "none",
+                fontWeight: 500,
+                px: 3,
+                py: 1,
+              }}
+            >
+              Add Playlist
+            </Button>
+          )}
+        </Box>
       </Box>
 
       {error && (
@@ -438,7 +488,8 @@ const PlaylistList: React.FC = () => {
         <DialogContent>
           <DialogContentText>
             Are you sure you want to delete "{playlistToDelete?.title || 'this playlist'}"?
-            This action cannot be undone.
+            It will be moved to the trash, where it can be restored until it is
+            permanently deleted.
           </DialogContentText>
         </DialogContent>
         <DialogActions>
@@ -0,0 +1,585 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Tooltip,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
+  List,
+  ListItem,
+  ListItemText,
+  CircularProgress,
+} from "@mui/material";
+import {
+  DataGrid,
+  GridColDef,
+  GridActionsCellItem,
+  GridRowParams,
+} from "@mui/x-data-grid";
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  History as HistoryIcon,
+  ContentCopy as ContentCopyIcon,
+  Refresh as RefreshIcon,
+} from "@mui/icons-material";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  fetchPromptTemplates,
+  createPromptTemplate,
+  updatePromptTemplate,
+  deletePromptTemplate,
+  forceRefresh,
+} from "../store/slices/promptTemplatesSlice";
+import { promptTemplatesAPI } from "../services/api";
+import {
+  BUILTIN_PROMPT_TEMPLATES,
+  PROMPT_CONTENT_TYPE_LABELS,
+  PROMPT_VARIABLES,
+  templateVariables,
+} from "../utils/promptTemplates";
+import type {
+  CreatePromptTemplateData,
+  PromptContentType,
+  PromptTemplate,
+  PromptTemplateVersion,
+} from "../types";
+import TableSkeleton from "../components/TableSkeleton";
+
+const EMPTY_TEMPLATE: CreatePromptTemplateData = {
+  name: "",
+  description: "",
+  contentType: "page",
+  body: "",
+  isDefault: false,
+};
+
+const PromptTemplates: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { items, loading, error, lastFetched } = useAppSelector(
+    (state) => state.promptTemplates
+  );
+
+  const [contentType, setContentType] = useState<PromptContentType | "all">("all");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+  const [form, setForm] = useState<CreatePromptTemplateData>(EMPTY_TEMPLATE);
+  const [saving, setSaving] = useState(false);
+  const [templateToDelete, setTemplateToDelete] = useState<PromptTemplate | null>(null);
+  const [versionsFor, setVersionsFor] = useState<PromptTemplate | null>(null);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!lastFetched) {
+      dispatch(fetchPromptTemplates());
+    }
+  }, [dispatch, lastFetched]);
+
+  const rows = [...items, ...BUILTIN_PROMPT_TEMPLATES].filter(
+    (template) => contentType === "all" || template.contentType === contentType
+  );
+
+  const openEditor = (template?: PromptTemplate, copy = false) => {
+    setEditing(template && !copy ? template : null);
+    setForm(
+      template
+        ? {
+            name: copy ? `Copy of ${template.name}` : template.name,
+            description: template.description || "",
+            contentType: template.contentType,
+            body: template.body,
+            isDefault: copy ? false : !!template.isDefault,
+          }
+        : EMPTY_TEMPLATE
+    );
+    setEditorOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (editing) {
+        await dispatch(
+          updatePromptTemplate({ id: editing._id, templateData: form })
+        ).unwrap();
+      } else {
+        await dispatch(createPromptTemplate(form)).unwrap();
+      }
+      setEditorOpen(false);
+    } catch (err) {
+      console.error("Error saving prompt template:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!templateToDelete) return;
+    await dispatch(deletePromptTemplate(templateToDelete._id));
+    setTemplateToDelete(null);
+  };
+
+  const openVersions = async (template: PromptTemplate) => {
+    setVersionsFor(template);
+    setVersions([]);
+    setVersionsLoading(true);
+    try {
+      const response = await promptTemplatesAPI.getVersions(template._id);
+      setVersions(response.data);
+    } catch (err) {
+      console.error("Error fetching template versions:", err);
+    } finally {
+      setVersionsLoading(false);
+    }
+  };
+
+  // Restoring saves the old body as a new version, so nothing is lost
+  const restoreVersion = async (version: PromptTemplateVersion) => {
+    if (!versionsFor) return;
+    await dispatch(
+      updatePromptTemplate({
+        id: versionsFor._id,
+        templateData: {
+          name: versionsFor.name,
+          description: versionsFor.description,
+          contentType: versionsFor.contentType,
+          body: version.body,
+          isDefault: versionsFor.isDefault,
+        },
+      })
+    );
+    setVersionsFor(null);
+  };
+
+  const unknownVariables = templateVariables(form.body).filter(
+    (name) => !PROMPT_VARIABLES.includes(name as (typeof PROMPT_VARIABLES)[number])
+  );
+
+  const columns: GridColDef[] = [
+    {
+      field: "name",
+      headerName: "Template",
+      flex: 1,
+      minWidth: 220,
+      renderCell: (params) => (
+        <Box>
+          <Typography variant="subtitle2" fontWeight="bold">
+            {params.row.name}
+          </Typography>
+          {params.row.description && (
+            <Typography variant="body2" color="text.secondary" noWrap>
+              {params.row.description}
+            </Typography>
+          )}
+        </Box>
+      ),
+    },
+    {
+      field: "contentType",
+      headerName: "Content Type",
+      width: 140,
+      renderCell: (params) =>
+        PROMPT_CONTENT_TYPE_LABELS[params.value as PromptContentType],
+    },
+    {
+      field: "variables",
+      headerName: "Variables",
+      flex: 1,
+      minWidth: 200,
+      sortable: false,
+      renderCell: (params) => (
+        <Box sx={{ display: "flex", gap: 0.5, flexWrap: "wrap" }}>
+          {templateVariables(params.row.body).map((name) => (
+            <Chip key={name} label={name} size="small" variant="outlined" />
+          ))}
+        </Box>
+      ),
+    },
+    {
+      field: "version",
+      headerName: "Version",
+      width: 140,
+      renderCell: (params) => (
+        <Box sx={{ display: "flex", gap: 0.5 }}>
+          {params.row.builtIn ? (
+            <Chip label="Built-in" size="small" />
+          ) : (
+            <Typography variant="body2">v{params.value}</Typography>
+          )}
+          {params.row.isDefault && (
+            <Chip label="Default" size="small" color="primary" />
+          )}
+        </Box>
+      ),
+    },
+    {
+      field: "actions",
+      type: "actions",
+      headerName: "Actions",
+      width: 160,
+      getActions: (params: GridRowParams<PromptTemplate>) =>
+        params.row.builtIn
+          ? [
+              <GridActionsCellItem
+                key="copy"
+                icon={
+                  <Tooltip title="Copy to a new template">
+                    <ContentCopyIcon />
+                  </Tooltip>
+                }
+                label="Copy"
+                onClick={() => openEditor(params.row, true)}
+              />,
+            ]
+          : [
+              <GridActionsCellItem
+                key="edit"
+                icon={
+                  <Tooltip title="Edit Template">
+                    <EditIcon />
+                  </Tooltip>
+                }
+                label="Edit"
+                onClick={() => openEditor(params.row)}
+              />,
+              <GridActionsCellItem
+                key="versions"
+                icon={
+                  <Tooltip title="Version History">
+                    <HistoryIcon />
+                  </Tooltip>
+                }
+                label="Versions"
+                onClick={() => openVersions(params.row)}
+              />,
+              <GridActionsCellItem
+                key="copy"
+                icon={
+                  <Tooltip title="Duplicate Template">
+                    <ContentCopyIcon />
+                  </Tooltip>
+                }
+                label="Duplicate"
+                onClick={() => openEditor(params.row, true)}
+              />,
+              <GridActionsCellItem
+                key="delete"
+                icon={
+                  <Tooltip title="Delete Template">
+                    <DeleteIcon />
+                  </Tooltip>
+                }
+                label="Delete"
+                onClick={() => setTemplateToDelete(params.row)}
+              />,
+            ],
+    },
+  ];
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 3,
+        }}
+      >
+        <Typography variant="h6" component="h1">
+          Prompt Templates
+        </Typography>
+        <Box sx={{ display: "flex", gap: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={() => dispatch(forceRefresh())}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Refresh
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => openEditor()}
+            sx={{
+              borderRadius: "8px",
+              textTransform: "none",
+              fontWeight: 500,
+              px: 3,
+              py: 1,
+            }}
+          >
+            New Template
+          </Button>
+        </Box>
+      </Box>
+
+      <ToggleButtonGroup
+        value={contentType}
+        exclusive
+        size="small"
+        onChange={(_, value) => value && setContentType(value)}
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="all" sx={{ textTransform: "none" }}>
+          All
+        </ToggleButton>
+        {(Object.keys(PROMPT_CONTENT_TYPE_LABELS) as PromptContentType[]).map(
+          (type) => (
+            <ToggleButton key={type} value={type} sx={{ textTransform: "none" }}>
+              {PROMPT_CONTENT_TYPE_LABELS[type]}
+            </ToggleButton>
+          )
+        )}
+      </ToggleButtonGroup>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ height: 600, width: "100%" }}>
+        <DataGrid
+          rows={rows}
+          columns={columns}
+          getRowId={(row) => row._id}
+          loading={loading && items.length === 0}
+          slots={{
+            loadingOverlay: () => <TableSkeleton columns={5} />,
+          }}
+          getRowHeight={() => "auto"}
+          disableRowSelectionOnClick
+          sx={{
+            "& .MuiDataGrid-cell": {
+              border: "none",
+              py: 1,
+              "&:focus": { outline: "none" },
+              "&:focus-within": { outline: "none" },
+            },
+            "& .MuiDataGrid-columnHeaders": {
+              backgroundColor: "grey.50",
+              border: "none",
+            },
+            "& .MuiDataGrid-row": {
+              borderBottom: "1px solid #e0e0e0",
+            },
+          }}
+        />
+      </Box>
+
+      {/* Create / Edit Dialog */}
+      <Dialog
+        open={editorOpen}
+        onClose={() => !saving && setEditorOpen(false)}
+        maxWidth="md"
+        fullWidth
+      >
+        <DialogTitle>
+          {editing ? `Edit ${editing.name} (v${editing.version})` : "New Prompt Template"}
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+            <Box sx={{ display: "flex", gap: 2 }}>
+              <TextField
+                label="Name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                fullWidth
+                required
+              />
+              <TextField
+                select
+                label="Content Type"
+                value={form.contentType}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    contentType: e.target.value as PromptContentType,
+                  })
+                }
+                sx={{ minWidth: 180 }}
+              >
+                {(Object.keys(PROMPT_CONTENT_TYPE_LABELS) as PromptContentType[]).map(
+                  (type) => (
+                    <MenuItem key={type} value={type}>
+                      {PROMPT_CONTENT_TYPE_LABELS[type]}
+                    </MenuItem>
+                  )
+                )}
+              </TextField>
+            </Box>
+            <TextField
+              label="Description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              fullWidth
+            />
+            <TextField
+              label="Prompt"
+              value={form.body}
+              onChange={(e) => setForm({ ...form, body: e.target.value })}
+              fullWidth
+              required
+              multiline
+              minRows={10}
+              maxRows={20}
+              InputProps={{ sx: { fontFamily: "monospace", fontSize: 13 } }}
+              helperText={
+                <>
+                  Available variables:{" "}
+                  {PROMPT_VARIABLES.map((name) => `{{${name}}}`).join(", ")}.
+                  Wrap text in {"{{#name}}...{{/name}}"} to include it only when
+                  the variable is filled in.
+                </>
+              }
+            />
+            {unknownVariables.length > 0 && (
+              <Alert severity="warning">
+                Unknown variables will be left empty:{" "}
+                {unknownVariables.join(", ")}
+              </Alert>
+            )}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={!!form.isDefault}
+                  onChange={(e) =>
+                    setForm({ ...form, isDefault: e.target.checked })
+                  }
+                />
+              }
+              label={`Default for ${PROMPT_CONTENT_TYPE_LABELS[form.contentType].toLowerCase()}`}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => setEditorOpen(false)}
+            disabled={saving}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            variant="contained"
+            disabled={saving || !form.name.trim() || !form.body.trim()}
+            sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+          >
+            {saving ? "Saving..." : editing ? "Save new version" : "Create"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Versions Dialog */}
+      <Dialog
+        open={!!versionsFor}
+        onClose={() => setVersionsFor(null)}
+        maxWidth="md"
+        fullWidth
+      >
+        <DialogTitle>Version History — {versionsFor?.name}</DialogTitle>
+        <DialogContent>
+          {versionsLoading ? (
+            <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+              <CircularProgress size={28} />
+            </Box>
+          ) : versions.length === 0 ? (
+            <DialogContentText>No previous versions yet.</DialogContentText>
+          ) : (
+            <List disablePadding>
+              {versions.map((version) => (
+                <ListItem
+                  key={version.version}
+                  divider
+                  alignItems="flex-start"
+                  secondaryAction={
+                    <Button
+                      size="small"
+                      onClick={() => restoreVersion(version)}
+                      sx={{ textTransform: "none" }}
+                    >
+                      Restore
+                    </Button>
+                  }
+                >
+                  <ListItemText
+                    primary={`v${version.version} · ${new Date(
+                      version.createdAt
+                    ).toLocaleString()}${version.createdBy ? ` · ${version.createdBy}` : ""}`}
+                    secondary={version.body}
+                    secondaryTypographyProps={{
+                      sx: {
+                        whiteSpace: "pre-wrap",
+                        fontFamily: "monospace",
+                        fontSize: 12,
+                        maxHeight: 160,
+                        overflow: "auto",
+                        pr: 8,
+                      },
+                    }}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setVersionsFor(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog
+        open={!!templateToDelete}
+        onClose={() => setTemplateToDelete(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Delete Template</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Are you sure you want to delete the template "
+            {templateToDelete?.name}"? Its version history will be removed as
+            well.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => setTemplateToDelete(null)}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={confirmDelete}
+            color="error"
+            variant="contained"
+            sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default PromptTemplates;
@@ -0,0 +1,505 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Paper,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Tooltip,
+  TextField,
+  MenuItem,
+  InputAdornment,
+} from "@mui/material";
+import {
+  DataGrid,
+  GridColDef,
+  GridActionsCellItem,
+  GridRowParams,
+} from "@mui/x-data-grid";
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Refresh as RefreshIcon,
+  Search as SearchIcon,
+  Download as DownloadIcon,
+  Upload as UploadIcon,
+  ArrowForward as ArrowForwardIcon,
+} from "@mui/icons-material";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  fetchRedirects,
+  createRedirect,
+  updateRedirect,
+  deleteRedirect,
+  forceRefresh,
+} from "../store/slices/redirectsSlice";
+import {
+  REDIRECT_STATUS_CODES,
+  REDIRECT_STATUS_LABELS,
+  normalizeRedirectPath,
+  resolveRedirect,
+  validateRedirect,
+  redirectsToCsv,
+} from "../utils/redirects";
+import { downloadFile } from "../utils/csv";
+import type { CreateRedirectData, Redirect, RedirectSource, RedirectStatusCode } from "../types";
+import TableSkeleton from "../components/TableSkeleton";
+import RedirectImportDialog from "../components/RedirectImportDialog";
+
+const SOURCE_LABELS: Record<RedirectSource, string> = {
+  manual: "Manual",
+  "slug-change": "Slug change",
+  import: "Imported",
+};
+
+const EMPTY_REDIRECT: CreateRedirectData = {
+  from: "",
+  to: "",
+  statusCode: 301,
+};
+
+const Redirects: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { items, loading, error, lastFetched } = useAppSelector(
+    (state) => state.redirects
+  );
+
+  const [search, setSearch] = useState("");
+  const [testPath, setTestPath] = useState("");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<Redirect | null>(null);
+  const [form, setForm] = useState<CreateRedirectData>(EMPTY_REDIRECT);
+  const [saving, setSaving] = useState(false);
+  const [redirectToDelete, setRedirectToDelete] = useState<Redirect | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+
+  useEffect(() => {
+    if (!lastFetched) {
+      dispatch(fetchRedirects());
+    }
+  }, [dispatch, lastFetched]);
+
+  const query = search.trim().toLowerCase();
+  const rows = items.filter(
+    (rule) =>
+      !query ||
+      rule.from.toLowerCase().includes(query) ||
+      rule.to.toLowerCase().includes(query)
+  );
+
+  const testResult = testPath.trim() ? resolveRedirect(testPath, items) : null;
+
+  const openEditor = (rule?: Redirect) => {
+    setEditing(rule || null);
+    setForm(
+      rule
+        ? { from: rule.from, to: rule.to, statusCode: rule.statusCode, source: rule.source }
+        : EMPTY_REDIRECT
+    );
+    setEditorOpen(true);
+  };
+
+  const normalizedForm: CreateRedirectData = {
+    ...form,
+    from: normalizeRedirectPath(form.from),
+    to: normalizeRedirectPath(form.to),
+  };
+  const formErrors =
+    normalizedForm.from && normalizedForm.to
+      ? validateRedirect(normalizedForm, items, editing?._id)
+      : [];
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (editing) {
+        await dispatch(
+          updateRedirect({ id: editing._id, redirectData: normalizedForm })
+        ).unwrap();
+      } else {
+        await dispatch(
+          createRedirect({ ...normalizedForm, source: "manual" })
+        ).unwrap();
+      }
+      setEditorOpen(false);
+    } catch (err) {
+      console.error("Error saving redirect:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!redirectToDelete) return;
+    await dispatch(deleteRedirect(redirectToDelete._id));
+    setRedirectToDelete(null);
+  };
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`redirects-${date}.csv`, redirectsToCsv(items), "text/csv;charset=utf-8");
+  };
+
+  const columns: GridColDef[] = [
+    {
+      field: "from",
+      headerName: "From",
+      flex: 1,
+      minWidth: 220,
+      renderCell: (params) => (
+        <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+          {params.value}
+        </Typography>
+      ),
+    },
+    {
+      field: "to",
+      headerName: "To",
+      flex: 1,
+      minWidth: 220,
+      renderCell: (params: { row: Redirect }) => {
+        // Visitors take one extra hop when the destination is itself redirected
+        const chained = items.some((rule) => rule.from === params.row.to);
+        return (
+          <Box>
+            <Typography variant="body2" sx={{ wordBreak: "break-all" }}>
+              {params.row.to}
+            </Typography>
+            {chained && (
+              <Chip
+                label="Chained"
+                size="small"
+                color="warning"
+                variant="outlined"
+                onClick={() => setTestPath(params.row.from)}
+                sx={{ mt: 0.5 }}
+              />
+            )}
+          </Box>
+        );
+      },
+    },
+    {
+      field: "statusCode",
+      headerName: "Type",
+      width: 140,
+      renderCell: (params) =>
+        REDIRECT_STATUS_LABELS[params.value as RedirectStatusCode] || params.value,
+    },
+    {
+      field: "source",
+      headerName: "Source",
+      width: 120,
+      renderCell: (params) => (
+        <Chip
+          label={SOURCE_LABELS[params.value as RedirectSource] || params.value}
+          size="small"
+          variant="outlined"
+        />
+      ),
+    },
+    {
+      field: "hits",
+      headerName: "Hits",
+      width: 90,
+      valueGetter: (params) => params.row.hits ?? 0,
+    },
+    {
+      field: "updatedAt",
+      headerName: "Updated",
+      width: 160,
+      renderCell: (params) => (
+        <Typography variant="body2" color="text.secondary">
+          {new Date(params.value).toLocaleDateString()}
+        </Typography>
+      ),
+    },
+    {
+      field: "actions",
+      type: "actions",
+      headerName: "Actions",
+      width: 100,
+      getActions: (params: GridRowParams<Redirect>) => [
+        <GridActionsCellItem
+          key="edit"
+          icon={
+            <Tooltip title="Edit Redirect">
+              <EditIcon />
+            </Tooltip>
+          }
+          label="Edit"
+          onClick={() => openEditor(params.row)}
+        />,
+        <GridActionsCellItem
+          key="delete"
+          icon={
+            <Tooltip title="Delete Redirect">
+              <DeleteIcon />
+            </Tooltip>
+          }
+          label="Delete"
+          onClick={() => setRedirectToDelete(params.row)}
+        />,
+      ],
+    },
+  ];
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 3,
+        }}
+      >
+        <Typography variant="h6" component="h1">
+          Redirects
+        </Typography>
+        <Box sx={{ display: "flex", gap: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={() => dispatch(forceRefresh())}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Refresh
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={handleExport}
+            disabled={items.length === 0}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Export CSV
+          </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadIcon />}
+            onClick={() => setImportOpen(true)}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Import CSV
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => openEditor()}
+            sx={{
+              borderRadius: "8px",
+              textTransform: "none",
+              fontWeight: 500,
+              px: 3,
+              py: 1,
+            }}
+          >
+            New Redirect
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Test a URL against the current rules */}
+      <Paper variant="outlined" sx={{ p: 2, mb: 2, borderRadius: "8px" }}>
+        <TextField
+          label="Test a URL"
+          placeholder="/old-page"
+          value={testPath}
+          onChange={(e) => setTestPath(e.target.value)}
+          size="small"
+          fullWidth
+        />
+        {testResult && (
+          <Box sx={{ mt: 1.5 }}>
+            {testResult.hops.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No redirect matches {testResult.finalPath}; the site will serve it as-is.
+              </Typography>
+            ) : (
+              <Box sx={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 1 }}>
+                <Chip label={testResult.hops[0].from} size="small" />
+                {testResult.hops.map((hop, index) => (
+                  <React.Fragment key={`${hop._id}-${index}`}>
+                    <Tooltip title={REDIRECT_STATUS_LABELS[hop.statusCode]}>
+                      <Box sx={{ display: "flex", alignItems: "center" }}>
+                        <ArrowForwardIcon fontSize="small" color="action" />
+                        <Typography variant="caption" color="text.secondary">
+                          {hop.statusCode}
+                        </Typography>
+                      </Box>
+                    </Tooltip>
+                    <Chip label={hop.to} size="small" />
+                  </React.Fragment>
+                ))}
+              </Box>
+            )}
+            {testResult.loop && (
+              <Alert severity="error" sx={{ mt: 1 }}>
+                These rules loop back to {testResult.finalPath}. Visitors will see an error.
+              </Alert>
+            )}
+            {testResult.tooLong && (
+              <Alert severity="warning" sx={{ mt: 1 }}>
+                The chain is too long; browsers may give up before reaching the end.
+              </Alert>
+            )}
+            {!testResult.loop && testResult.hops.length > 1 && (
+              <Alert severity="info" sx={{ mt: 1 }}>
+                This takes {testResult.hops.length} hops. Point the first rule at{" "}
+                {testResult.finalPath} to make it one.
+              </Alert>
+            )}
+          </Box>
+        )}
+      </Paper>
+
+      <TextField
+        placeholder="Search source or destination..."
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        size="small"
+        sx={{ minWidth: 300, mb: 2 }}
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <SearchIcon />
+            </InputAdornment>
+          ),
+        }}
+      />
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ height: 600, width: "100%" }}>
+        <DataGrid
+          rows={rows}
+          columns={columns}
+          getRowId={(row) => row._id}
+          loading={loading && items.length === 0}
+          slots={{
+            loadingOverlay: () => <TableSkeleton columns={7} />,
+          }}
+          getRowHeight={() => "auto"}
+          disableRowSelectionOnClick
+          initialState={{
+            pagination: { paginationModel: { pageSize: 25 } },
+          }}
+          pageSizeOptions={[25, 50, 100]}
+          sx={{
+            "& .MuiDataGrid-cell": {
+              border: "none",
+              py: 1,
+              "&:focus": { outline: "none" },
+              "&:focus-within": { outline: "none" },
+            },
+            "& .MuiDataGrid-columnHeaders": {
+              backgroundColor: "grey.50",
+              border: "none",
+            },
+            "& .MuiDataGrid-row": {
+              borderBottom: "1px solid #e0e0e0",
+            },
+          }}
+        />
+      </Box>
+
+      {/* Create / Edit Dialog */}
+      <Dialog
+        open={editorOpen}
+        onClose={() => !saving && setEditorOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>{editing ? "Edit Redirect" : "New Redirect"}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+            <TextField
+              label="From"
+              placeholder="/old-page"
+              value={form.from}
+              onChange={(e) => setForm({ ...form, from: e.target.value })}
+              fullWidth
+              required
+            />
+            <TextField
+              label="To"
+              placeholder="/new-page or https://example.com/page"
+              value={form.to}
+              onChange={(e) => setForm({ ...form, to: e.target.value })}
+              fullWidth
+              required
+            />
+            <TextField
+              select
+              label="Type"
+              value={form.statusCode}
+              onChange={(e) =>
+                setForm({ ...form, statusCode: Number(e.target.value) as RedirectStatusCode })
+              }
+              fullWidth
+            >
+              {REDIRECT_STATUS_CODES.map((code) => (
+                <MenuItem key={code} value={code}>
+                  {REDIRECT_STATUS_LABELS[code]}
+                </MenuItem>
+              ))}
+            </TextField>
+            {formErrors.map((message) => (
+              <Alert key={message} severity="error">
+                {message}
+              </Alert>
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditorOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={
+              saving || !normalizedForm.from || !normalizedForm.to || formErrors.length > 0
+            }
+          >
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!redirectToDelete} onClose={() => setRedirectToDelete(null)}>
+        <DialogTitle>Delete Redirect</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Links to {redirectToDelete?.from} will stop redirecting to{" "}
+            {redirectToDelete?.to}. This action cannot be undone.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRedirectToDelete(null)}>Cancel</Button>
+          <Button onClick={confirmDelete} color="error" variant="contained">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <RedirectImportDialog open={importOpen} onClose={() => setImportOpen(false)} />
+    </Box>
+  );
+};
+
+export default Redirects;
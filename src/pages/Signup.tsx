@@ -18,6 +18,7 @@ import {
 } from "@mui/icons-material";
 import { Link as RouterLink, useNavigate } from "react-router-dom";
 import axios from "axios";
+import { appConfig } from "../config/environment";
 
 const Signup: React.FC = () => {
   const navigate = useNavigate();
@@ -55,7 +56,7 @@ const Signup: React.FC = () => {
 
     try {
       const response = await axios.post(
-        "https://be-thefunneleffect.vercel.app/api/auth/register",
+        `${appConfig.apiBaseUrl}/auth/register`,
         {
           username: formData.username,
           email: formData.email,
@@ -0,0 +1,601 @@
+import React, { useEffect, useState } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Tooltip,
+  TextField,
+  MenuItem,
+  InputAdornment,
+  ToggleButton,
+  ToggleButtonGroup,
+  Autocomplete,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+} from "@mui/material";
+import {
+  DataGrid,
+  GridColDef,
+  GridActionsCellItem,
+  GridRowParams,
+} from "@mui/x-data-grid";
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  MergeType as MergeIcon,
+  Refresh as RefreshIcon,
+  Search as SearchIcon,
+} from "@mui/icons-material";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  fetchTerms,
+  createTerm,
+  updateTerm,
+  mergeTerm,
+  deleteTerm,
+  forceRefresh,
+} from "../store/slices/taxonomySlice";
+import { forceRefresh as refreshPages } from "../store/slices/pagesSlice";
+import {
+  TAXONOMY_KIND_LABELS,
+  normalizeTermName,
+  termKey,
+  totalUsage,
+  duplicatesOf,
+} from "../utils/taxonomy";
+import type { TaxonomyKind, TaxonomyTerm } from "../types";
+import TableSkeleton from "../components/TableSkeleton";
+
+const SINGULAR: Record<TaxonomyKind, string> = {
+  tag: "tag",
+  category: "category",
+};
+
+const usageText = (term: TaxonomyTerm) => {
+  const total = totalUsage(term);
+  return `${total} item${total === 1 ? "" : "s"}`;
+};
+
+const Taxonomy: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { items, loading, error, lastFetched } = useAppSelector(
+    (state) => state.taxonomy
+  );
+
+  const [kind, setKind] = useState<TaxonomyKind>("tag");
+  const [search, setSearch] = useState("");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<TaxonomyTerm | null>(null);
+  const [name, setName] = useState("");
+  const [synonyms, setSynonyms] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [mergeSource, setMergeSource] = useState<TaxonomyTerm | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [termToDelete, setTermToDelete] = useState<TaxonomyTerm | null>(null);
+  const [reassignTo, setReassignTo] = useState("");
+  const [deleteMode, setDeleteMode] = useState<"remove" | "reassign">("remove");
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (!lastFetched) {
+      dispatch(fetchTerms());
+    }
+  }, [dispatch, lastFetched]);
+
+  const terms = items.filter((term) => term.kind === kind);
+  const query = termKey(search);
+  const rows = terms
+    .filter(
+      (term) =>
+        !query ||
+        termKey(term.name).includes(query) ||
+        term.synonyms.some((synonym) => termKey(synonym).includes(query))
+    )
+    .sort((a, b) => totalUsage(b) - totalUsage(a) || a.name.localeCompare(b.name));
+
+  const openEditor = (term?: TaxonomyTerm) => {
+    setEditing(term || null);
+    setName(term?.name || "");
+    setSynonyms(term?.synonyms || []);
+    setEditorOpen(true);
+  };
+
+  // Another term (not the one being edited) already owns this name or synonym
+  const conflictFor = (value: string) =>
+    terms.find(
+      (term) =>
+        term._id !== editing?._id &&
+        (termKey(term.name) === termKey(value) ||
+          term.synonyms.some((synonym) => termKey(synonym) === termKey(value)))
+    );
+  const nameConflict = name.trim() ? conflictFor(name) : undefined;
+  const synonymConflicts = synonyms.filter((synonym) => conflictFor(synonym));
+  const renaming = !!editing && normalizeTermName(name) !== editing.name;
+
+  const handleSave = async () => {
+    setSaving(true);
+    const termData = {
+      name: normalizeTermName(name),
+      synonyms: synonyms.map(normalizeTermName).filter(Boolean),
+    };
+    try {
+      if (editing) {
+        await dispatch(updateTerm({ id: editing._id, termData })).unwrap();
+        if (renaming) dispatch(refreshPages());
+      } else {
+        await dispatch(createTerm({ kind, ...termData })).unwrap();
+      }
+      setEditorOpen(false);
+    } catch (err) {
+      console.error("Error saving term:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openMerge = (term: TaxonomyTerm, targetId = "") => {
+    setMergeSource(term);
+    setMergeTargetId(targetId);
+  };
+
+  const mergeTarget = terms.find((term) => term._id === mergeTargetId);
+
+  const confirmMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+    setWorking(true);
+    try {
+      await dispatch(mergeTerm({ id: mergeSource._id, targetId: mergeTargetId })).unwrap();
+      dispatch(refreshPages());
+      setMergeSource(null);
+    } catch (err) {
+      console.error("Error merging terms:", err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const openDelete = (term: TaxonomyTerm) => {
+    setTermToDelete(term);
+    setDeleteMode("remove");
+    setReassignTo("");
+  };
+
+  const confirmDelete = async () => {
+    if (!termToDelete) return;
+    setWorking(true);
+    try {
+      await dispatch(
+        deleteTerm({
+          id: termToDelete._id,
+          reassignTo: deleteMode === "reassign" ? reassignTo : null,
+        })
+      ).unwrap();
+      dispatch(refreshPages());
+      setTermToDelete(null);
+    } catch (err) {
+      console.error("Error deleting term:", err);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const columns: GridColDef[] = [
+    {
+      field: "name",
+      headerName: kind === "tag" ? "Tag" : "Category",
+      flex: 1,
+      minWidth: 220,
+      renderCell: (params: { row: TaxonomyTerm }) => {
+        const duplicates = duplicatesOf(params.row, terms);
+        return (
+          <Box>
+            <Typography variant="subtitle2" fontWeight="bold">
+              {params.row.name}
+            </Typography>
+            {duplicates.length > 0 && (
+              <Tooltip title="Differs only by case or spacing. Click to merge.">
+                <Chip
+                  label={`Duplicate of ${duplicates[0].name}`}
+                  size="small"
+                  color="warning"
+                  variant="outlined"
+                  onClick={() => openMerge(params.row, duplicates[0]._id)}
+                  sx={{ mt: 0.5 }}
+                />
+              </Tooltip>
+            )}
+          </Box>
+        );
+      },
+    },
+    {
+      field: "synonyms",
+      headerName: "Synonyms",
+      flex: 1,
+      minWidth: 200,
+      sortable: false,
+      renderCell: (params) => (
+        <Box sx={{ display: "flex", gap: 0.5, flexWrap: "wrap" }}>
+          {params.row.synonyms.map((synonym: string) => (
+            <Chip key={synonym} label={synonym} size="small" variant="outlined" />
+          ))}
+        </Box>
+      ),
+    },
+    {
+      field: "pages",
+      headerName: "Pages",
+      width: 90,
+      valueGetter: (params) => params.row.usage.pages,
+    },
+    {
+      field: "tracks",
+      headerName: "Tracks",
+      width: 90,
+      valueGetter: (params) => params.row.usage.tracks,
+    },
+    {
+      field: "playlists",
+      headerName: "Playlists",
+      width: 90,
+      valueGetter: (params) => params.row.usage.playlists,
+    },
+    {
+      field: "total",
+      headerName: "Total",
+      width: 90,
+      valueGetter: (params) => totalUsage(params.row),
+    },
+    {
+      field: "actions",
+      type: "actions",
+      headerName: "Actions",
+      width: 140,
+      getActions: (params: GridRowParams<TaxonomyTerm>) => [
+        <GridActionsCellItem
+          key="edit"
+          icon={
+            <Tooltip title="Rename / Edit Synonyms">
+              <EditIcon />
+            </Tooltip>
+          }
+          label="Edit"
+          onClick={() => openEditor(params.row)}
+        />,
+        <GridActionsCellItem
+          key="merge"
+          icon={
+            <Tooltip title="Merge into another term">
+              <MergeIcon />
+            </Tooltip>
+          }
+          label="Merge"
+          onClick={() => openMerge(params.row)}
+          disabled={terms.length < 2}
+        />,
+        <GridActionsCellItem
+          key="delete"
+          icon={
+            <Tooltip title="Delete">
+              <DeleteIcon />
+            </Tooltip>
+          }
+          label="Delete"
+          onClick={() => openDelete(params.row)}
+        />,
+      ],
+    },
+  ];
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 3,
+        }}
+      >
+        <Typography variant="h6" component="h1">
+          Tags &amp; Categories
+        </Typography>
+        <Box sx={{ display: "flex", gap: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={() => dispatch(forceRefresh())}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Refresh
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => openEditor()}
+            sx={{
+              borderRadius: "8px",
+              textTransform: "none",
+              fontWeight: 500,
+              px: 3,
+              py: 1,
+            }}
+          >
+            New {SINGULAR[kind]}
+          </Button>
+        </Box>
+      </Box>
+
+      <Box sx={{ display: "flex", gap: 2, alignItems: "center", mb: 2 }}>
+        <ToggleButtonGroup
+          value={kind}
+          exclusive
+          size="small"
+          onChange={(_, value) => value && setKind(value)}
+        >
+          {(Object.keys(TAXONOMY_KIND_LABELS) as TaxonomyKind[]).map((value) => (
+            <ToggleButton key={value} value={value} sx={{ textTransform: "none" }}>
+              {TAXONOMY_KIND_LABELS[value]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <TextField
+          placeholder="Search names and synonyms..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          size="small"
+          sx={{ minWidth: 300 }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon />
+              </InputAdornment>
+            ),
+          }}
+        />
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ height: 600, width: "100%" }}>
+        <DataGrid
+          rows={rows}
+          columns={columns}
+          getRowId={(row) => row._id}
+          loading={loading && items.length === 0}
+          slots={{
+            loadingOverlay: () => <TableSkeleton columns={7} />,
+          }}
+          getRowHeight={() => "auto"}
+          disableRowSelectionOnClick
+          sx={{
+            "& .MuiDataGrid-cell": {
+              border: "none",
+              py: 1,
+              "&:focus": { outline: "none" },
+              "&:focus-within": { outline: "none" },
+            },
+            "& .MuiDataGrid-columnHeaders": {
+              backgroundColor: "grey.50",
+              border: "none",
+            },
+            "& .MuiDataGrid-row": {
+              borderBottom: "1px solid #e0e0e0",
+            },
+          }}
+        />
+      </Box>
+
+      {/* Create / Edit Dialog */}
+      <Dialog
+        open={editorOpen}
+        onClose={() => !saving && setEditorOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>
+          {editing ? `Edit ${editing.name}` : `New ${SINGULAR[kind]}`}
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+            <TextField
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              error={!!nameConflict}
+              helperText={
+                nameConflict
+                  ? `Already used by "${nameConflict.name}"; merge instead`
+                  : undefined
+              }
+              fullWidth
+              required
+            />
+            <Autocomplete
+              multiple
+              freeSolo
+              options={[]}
+              value={synonyms}
+              onChange={(_, values) => setSynonyms(values as string[])}
+              renderTags={(values, getTagProps) =>
+                values.map((option, index) => (
+                  <Chip
+                    label={option}
+                    {...getTagProps({ index })}
+                    size="small"
+                    color={conflictFor(option) ? "error" : "default"}
+                  />
+                ))
+              }
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Synonyms"
+                  placeholder="Other spellings (press Enter to add)"
+                  error={synonymConflicts.length > 0}
+                  helperText={
+                    synonymConflicts.length > 0
+                      ? `Already used by another ${SINGULAR[kind]}: ${synonymConflicts.join(", ")}`
+                      : "Typing a synonym in a form picks this name instead"
+                  }
+                />
+              )}
+            />
+            {renaming && editing && totalUsage(editing) > 0 && (
+              <Alert severity="info">
+                Renaming updates {usageText(editing)} that use "{editing.name}".
+              </Alert>
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditorOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={
+              saving || !name.trim() || !!nameConflict || synonymConflicts.length > 0
+            }
+          >
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog
+        open={!!mergeSource}
+        onClose={() => !working && setMergeSource(null)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>Merge {mergeSource?.name}</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            label="Merge into"
+            value={mergeTargetId}
+            onChange={(e) => setMergeTargetId(e.target.value)}
+            fullWidth
+            margin="dense"
+          >
+            {terms
+              .filter((term) => term._id !== mergeSource?._id)
+              .map((term) => (
+                <MenuItem key={term._id} value={term._id}>
+                  {term.name} ({totalUsage(term)})
+                </MenuItem>
+              ))}
+          </TextField>
+          {mergeSource && mergeTarget && (
+            <DialogContentText sx={{ mt: 2 }}>
+              {usageText(mergeSource)} will switch from "{mergeSource.name}" to "
+              {mergeTarget.name}", and "{mergeSource.name}" becomes a synonym of "
+              {mergeTarget.name}".
+            </DialogContentText>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setMergeSource(null)} disabled={working}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={confirmMerge}
+            disabled={working || !mergeTargetId}
+          >
+            {working ? "Merging..." : "Merge"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Dialog */}
+      <Dialog
+        open={!!termToDelete}
+        onClose={() => !working && setTermToDelete(null)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>Delete {termToDelete?.name}</DialogTitle>
+        <DialogContent>
+          {termToDelete && totalUsage(termToDelete) === 0 ? (
+            <DialogContentText>
+              Nothing uses this {SINGULAR[kind]}. It will be removed from the list.
+            </DialogContentText>
+          ) : (
+            <>
+              <DialogContentText sx={{ mb: 1 }}>
+                {termToDelete && usageText(termToDelete)} use this {SINGULAR[kind]}.
+              </DialogContentText>
+              <RadioGroup
+                value={deleteMode}
+                onChange={(e) => setDeleteMode(e.target.value as "remove" | "reassign")}
+              >
+                <FormControlLabel
+                  value="remove"
+                  control={<Radio />}
+                  label="Remove it from those items"
+                />
+                <FormControlLabel
+                  value="reassign"
+                  control={<Radio />}
+                  label="Replace it with another term"
+                />
+              </RadioGroup>
+              {deleteMode === "reassign" && (
+                <TextField
+                  select
+                  label="Replace with"
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value)}
+                  fullWidth
+                  margin="dense"
+                >
+                  {terms
+                    .filter((term) => term._id !== termToDelete?._id)
+                    .map((term) => (
+                      <MenuItem key={term._id} value={term._id}>
+                        {term.name}
+                      </MenuItem>
+                    ))}
+                </TextField>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setTermToDelete(null)} disabled={working}>
+            Cancel
+          </Button>
+          <Button
+            color="error"
+            variant="contained"
+            onClick={confirmDelete}
+            disabled={working || (deleteMode === "reassign" && !reassignTo)}
+          >
+            {working ? "Deleting..." : "Delete"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Taxonomy;
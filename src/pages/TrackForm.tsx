@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { useForm, Controller } from "react-hook-form";
 import { yupResolver } from "@hookform/resolvers/yup";
 import * as yup from "yup";
@@ -13,8 +13,6 @@ import {
   Grid,
   MenuItem,
   IconButton,
-  FormControl,
-  Select,
 } from "@mui/material";
 import { Image, Audiotrack } from "@mui/icons-material";
 import { useAppDispatch, useAppSelector } from "../store/hooks";
@@ -22,6 +20,12 @@ import { createTrack, updateTrack } from "../store/slices/tracksSlice";
 import { tracksAPI, playlistsAPI } from "../services/api";
 import ImageDialog from "../components/ImageDialog";
 import AudioDialog from "../components/AudioDialog";
+import CategoryAutocomplete from "../components/CategoryAutocomplete";
+import { useAIGeneration } from "../hooks/useAIGeneration";
+import { DEFAULT_AI_PROVIDER } from "../services/ai";
+import { usePromptTemplates } from "../hooks/usePromptTemplates";
+import { renderPromptTemplate } from "../utils/promptTemplates";
+import { DUPLICATE_PARAM, copyTitle } from "../utils/duplicate";
 import type { CreateTrackData, Playlist } from "../types";
 
 const trackSchema = yup.object({
@@ -44,10 +48,7 @@ const trackSchema = yup.object({
   category: yup
     .string()
     .optional()
-    .oneOf(
-      ["", "All", "Trending", "Web development", "AI", "Data Science"],
-      "Invalid category selected"
-    ),
+    .max(100, "Category cannot be more than 100 characters"),
   trending: yup.boolean().optional(),
   audioUrl: yup.string().optional().url("Must be a valid URL"),
   playlistId: yup.string().optional(),
@@ -57,6 +58,9 @@ const TrackForm: React.FC = () => {
   const navigate = useNavigate();
   const { id } = useParams<{ id: string }>();
   const isEditing = Boolean(id);
+  const [searchParams] = useSearchParams();
+  const duplicateId = isEditing ? null : searchParams.get(DUPLICATE_PARAM);
+  const sourceId = id || duplicateId;
   const dispatch = useAppDispatch();
   const { loading } = useAppSelector((state) => state.tracks);
 
@@ -65,7 +69,6 @@ const TrackForm: React.FC = () => {
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
   const [imageDialogOpen, setImageDialogOpen] = useState(false);
   const [audioDialogOpen, setAudioDialogOpen] = useState(false);
-  const [generatingDesc, setGeneratingDesc] = useState(false);
 
   const {
     control,
@@ -91,14 +94,30 @@ const TrackForm: React.FC = () => {
     },
   });
 
+  const { generateText, generating: generatingDesc } = useAIGeneration({
+    onContentGenerated: (description: string) => {
+      setValue("description", description.trim());
+    },
+    onError: (errorMessage: string) => {
+      setError(errorMessage);
+    },
+  });
+
+  const {
+    templates: promptTemplates,
+    selected: promptTemplate,
+    setSelectedId: setPromptTemplateId,
+  } = usePromptTemplates("track");
+
+  // Load the track being edited, or the one being duplicated into a new track
   useEffect(() => {
-    if (isEditing && id) {
+    if (sourceId) {
       setLoadingTrack(true);
       tracksAPI
-        .getById(id)
+        .getById(sourceId)
         .then((response) => {
           reset({
-            title: response.data.title || "",
+            title: duplicateId ? copyTitle(response.data.title) : response.data.title || "",
             author: response.data.author || "The Techodio",
             description: response.data.description || "",
             duration: response.data.duration || "",
@@ -119,7 +138,7 @@ const TrackForm: React.FC = () => {
           setLoadingTrack(false);
         });
     }
-  }, [id, isEditing, reset]);
+  }, [sourceId, duplicateId, reset]);
 
   useEffect(() => {
     const fetchPlaylists = async () => {
@@ -171,58 +190,21 @@ const TrackForm: React.FC = () => {
     setValue('audioUrl', audioUrl);
   };
 
-  const generateDescription = async () => {
+  const generateDescription = () => {
     const title = watch("title");
     if (!title) {
       setError("Title is required to generate description");
       return;
     }
 
-    setGeneratingDesc(true);
-    try {
-      const apiKey = (import.meta as any).env.VITE_GEMINI_API_KEY;
-      if (!apiKey) {
-        throw new Error("Gemini API key not configured");
-      }
-
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [
-                  {
-                    text: `Generate a compelling and concise description for a track with the following title. The description should be engaging, highlight key themes or features, and be suitable for an audio track. Keep it under 500 characters.
-
-Title: "${title}"
-
-Make it sound professional and appealing.`,
-                  },
-                ],
-              },
-            ],
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Failed to generate description");
-      }
-
-      const data = await response.json();
-      const generatedDesc = data.candidates[0].content.parts[0].text.trim();
-      setValue("description", generatedDesc);
-    } catch (err) {
-      console.error("Error generating description:", err);
-      setError(err instanceof Error ? err.message : "Failed to generate description");
-    } finally {
-      setGeneratingDesc(false);
-    }
+    generateText(
+      DEFAULT_AI_PROVIDER,
+      renderPromptTemplate(promptTemplate.body, {
+        title,
+        description: watch("description"),
+        category: watch("category"),
+      })
+    );
   };
 
   if (loadingTrack) {
@@ -236,7 +218,7 @@ Make it sound professional and appealing.`,
   return (
     <Box>
       <Typography variant="h6" gutterBottom>
-        {isEditing ? "Edit Track" : "Create New Track"}
+        {isEditing ? "Edit Track" : duplicateId ? "Duplicate Track" : "Create New Track"}
       </Typography>
 
       {error && (
@@ -318,7 +300,21 @@ Make it sound professional and appealing.`,
                     />
                   )}
                 />
-                <Box sx={{ display: "flex", justifyContent: "flex-end" }}>
+                <Box sx={{ display: "flex", justifyContent: "flex-end", gap: 1 }}>
+                  <TextField
+                    select
+                    size="small"
+                    label="Prompt template"
+                    value={promptTemplate._id}
+                    onChange={(e) => setPromptTemplateId(e.target.value)}
+                    sx={{ minWidth: 200 }}
+                  >
+                    {promptTemplates.map((template) => (
+                      <MenuItem key={template._id} value={template._id}>
+                        {template.name}
+                      </MenuItem>
+                    ))}
+                  </TextField>
                   <Button
                     variant="outlined"
                     onClick={generateDescription}
@@ -417,24 +413,12 @@ Make it sound professional and appealing.`,
                 name="category"
                 control={control}
                 render={({ field }) => (
-                  <FormControl fullWidth error={!!errors.category}>
-                    <Select
-                      {...field}
-                      displayEmpty
-                      sx={{
-                        borderRadius: "8px",
-                      }}
-                    >
-                      <MenuItem value="">
-                        None
-                      </MenuItem>
-                      <MenuItem value="All">All</MenuItem>
-                      <MenuItem value="Trending">Trending</MenuItem>
-                      <MenuItem value="Web development">Web development</MenuItem>
-                      <MenuItem value="AI">AI</MenuItem>
-                      <MenuItem value="Data Science">Data Science</MenuItem>
-                    </Select>
-                  </FormControl>
+                  <CategoryAutocomplete
+                    value={field.value || ""}
+                    onChange={field.onChange}
+                    error={!!errors.category}
+                    helperText={errors.category?.message}
+                  />
                 )}
               />
             </Grid>
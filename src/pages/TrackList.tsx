@@ -31,6 +31,8 @@ import {
   Trash2 as DeleteIcon,
   Search as SearchIcon,
   Eye as VisibilityIcon,
+  ArchiveX as TrashIcon,
+  CopyPlus as DuplicateIcon,
 } from 'lucide-react'
 import { useAppDispatch, useAppSelector } from "../store/hooks";
 import {
@@ -41,8 +43,13 @@ import {
   setCategoryFilter,
   setAuthorFilter,
 } from "../store/slices/tracksSlice";
+import { restoreTrashItem } from "../store/slices/trashSlice";
+import { usePermissions } from "../hooks/usePermission";
 import type { Track } from "../types";
 import TableSkeleton from "../components/TableSkeleton";
+import { showUndoToast } from "../components/UndoToast";
+import { trashPath } from "../utils/trash";
+import { duplicatePath } from "../utils/duplicate";
 
 const TrackList: React.FC = () => {
   const navigate = useNavigate();
@@ -59,6 +66,7 @@ const TrackList: React.FC = () => {
     lastFetchParams,
   } = useAppSelector((state) => state.tracks);
 
+  const { can } = usePermissions();
   const [deleteDialogOpen, setDeleteDialogOpen] = React.useState(false);
   const [trackToDelete, setTrackToDelete] = React.useState<Track | null>(null);
   const [localSearchTerm, setLocalSearchTerm] = React.useState(searchTerm);
@@ -136,7 +144,15 @@ const TrackList: React.FC = () => {
 
   const handleDeleteConfirm = async () => {
     if (trackToDelete) {
-      await dispatch(deleteTrack(trackToDelete._id));
+      const { _id: id, title } = trackToDelete;
+      try {
+        await dispatch(deleteTrack(id)).unwrap();
+        showUndoToast(`"${title || 'Track'}" moved to trash`, () => {
+          dispatch(restoreTrashItem({ type: 'tracks', id }));
+        });
+      } catch (error) {
+        console.error('Error deleting track:', error);
+      }
       setDeleteDialogOpen(false);
       setTrackToDelete(null);
     }
@@ -268,7 +284,7 @@ const TrackList: React.FC = () => {
       field: 'actions',
       type: 'actions',
       headerName: 'Actions',
-      width: 120,
+      width: 160,
       getActions: (params: GridRowParams) => [
         <GridActionsCellItem
           key="view"
@@ -280,26 +296,40 @@ const TrackList: React.FC = () => {
           label="View"
           onClick={() => navigate(`/tracks/${params.id}`)}
         />,
-        <GridActionsCellItem
-          key="edit"
-          icon={
-            <Tooltip title="Edit">
-              <EditIcon size={18} />
-            </Tooltip>
-          }
-          label="Edit"
-          onClick={() => navigate(`/tracks/${params.id}/edit`)}
-        />,
-        <GridActionsCellItem
-          key="delete"
-          icon={
-            <Tooltip title="Delete">
-              <DeleteIcon size={18} />
-            </Tooltip>
-          }
-          label="Delete"
-          onClick={() => handleDeleteClick(params.row)}
-        />,
+        ...(can("tracks.edit") ? [
+          <GridActionsCellItem
+            key="edit"
+            icon={
+              <Tooltip title="Edit">
+                <EditIcon size={18} />
+              </Tooltip>
+            }
+            label="Edit"
+            onClick={() => navigate(`/tracks/${params.id}/edit`)}
+          />,
+          <GridActionsCellItem
+            key="duplicate"
+            icon={
+              <Tooltip title="Duplicate">
+                <DuplicateIcon size={18} />
+              </Tooltip>
+            }
+            label="Duplicate"
+            onClick={() => navigate(duplicatePath("/tracks", String(params.id)))}
+          />,
+        ] : []),
+        ...(can("tracks.delete") ? [
+          <GridActionsCellItem
+            key="delete"
+            icon={
+              <Tooltip title="Delete">
+                <DeleteIcon size={18} />
+              </Tooltip>
+            }
+            label="Delete"
+            onClick={() => handleDeleteClick(params.row)}
+          />,
+        ] : []),
       ],
     },
   ];
@@ -310,20 +340,40 @@ const TrackList: React.FC = () => {
         <Typography variant="h6" component="h1">
           Tracks
         </Typography>
-        <Button
-          variant="contained"
-          startIcon={<AddIcon size={20} />}
-          onClick={() => navigate('/tracks/new')}
-          sx={{
-            borderRadius: "8px",
-            textTransform: "none",
-            fontWeight: 500,
-            px: 3,
-            py: 1,
-          }}
-        >
-          Add Track
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {can('tracks.delete') && (
+            <Button
+              variant="outlined"
+              startIcon={<TrashIcon size={20} />}
+              onClick={() => navigate(trashPath('tracks'))}
+              sx={{
+                borderRadius: "8px",
+                textTransform: "none",
+                fontWeight: 500,
+                px: 2,
+                py: 1,
+              }}
+            >
+              Trash
+            </Button>
+          )}
+          {can('tracks.edit') && (
+            <Button
+              variant="contained"
+              startIcon={<AddIcon size={20} />}
+              onClick={() => navigate('/tracks/new')}
+              sx={{
+                borderRadius: "8px",
+                textTransform: "none",
+                fontWeight: 500,
+                px: 3,
+                py: 1,
+              }}
+            >
+              Add Track
+            </Button>
+          )}
+        </Box>
       </Box>
 
       {error && (
@@ -464,7 +514,8 @@ const TrackList: React.FC = () => {
         <DialogContent>
           <DialogContentText>
             Are you sure you want to delete "{trackToDelete?.title || 'this track'}"?
-            This action cannot be undone.
+            It will be moved to the trash, where it can be restored until it is
+            permanently deleted.
           </DialogContentText>
         </DialogContent>
         <DialogActions>
@@ -0,0 +1,387 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  TextField,
+  Tooltip,
+} from "@mui/material";
+import {
+  DataGrid,
+  GridColDef,
+  GridActionsCellItem,
+  GridRowParams,
+} from "@mui/x-data-grid";
+import {
+  ArrowLeft as BackIcon,
+  RefreshCw as RefreshIcon,
+  RotateCcw as RestoreIcon,
+  Trash2 as DeleteIcon,
+  Settings as SettingsIcon,
+} from "lucide-react";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  fetchTrash,
+  restoreTrashItem,
+  purgeTrashItem,
+  emptyTrash,
+  fetchTrashSettings,
+  updateTrashSettings,
+} from "../store/slices/trashSlice";
+import { usePermissions } from "../hooks/usePermission";
+import type { TrashItem, TrashType } from "../types";
+import TableSkeleton from "../components/TableSkeleton";
+import {
+  TRASH_TYPE_LABELS,
+  DEFAULT_RETENTION_DAYS,
+  MAX_RETENTION_DAYS,
+  trashListPath,
+  daysUntilPurge,
+  purgeDate,
+} from "../utils/trash";
+
+interface TrashProps {
+  type: TrashType;
+}
+
+const buttonSx = {
+  borderRadius: "8px",
+  textTransform: "none",
+  fontWeight: 500,
+  px: 2,
+  py: 1,
+} as const;
+
+const Trash: React.FC<TrashProps> = ({ type }) => {
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const { items, loading, error, settings, type: loadedType } = useAppSelector(
+    (state) => state.trash
+  );
+  const { can } = usePermissions();
+  const labels = TRASH_TYPE_LABELS[type];
+  const retentionDays = settings?.retentionDays ?? DEFAULT_RETENTION_DAYS;
+
+  const [itemToPurge, setItemToPurge] = useState<TrashItem | null>(null);
+  const [emptyDialogOpen, setEmptyDialogOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [retentionInput, setRetentionInput] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    dispatch(fetchTrash(type));
+  }, [dispatch, type]);
+
+  useEffect(() => {
+    if (!settings) {
+      dispatch(fetchTrashSettings());
+    }
+  }, [dispatch, settings]);
+
+  const rows = loadedType === type ? items : [];
+  const retentionValue = Number(retentionInput);
+  const retentionValid =
+    Number.isInteger(retentionValue) &&
+    retentionValue >= 1 &&
+    retentionValue <= MAX_RETENTION_DAYS;
+
+  const handleRestore = (item: TrashItem) => {
+    dispatch(restoreTrashItem({ type, id: item._id }));
+  };
+
+  const confirmPurge = async () => {
+    if (!itemToPurge) return;
+    await dispatch(purgeTrashItem({ type, id: itemToPurge._id }));
+    setItemToPurge(null);
+  };
+
+  const confirmEmpty = async () => {
+    await dispatch(emptyTrash(type));
+    setEmptyDialogOpen(false);
+  };
+
+  const openSettings = () => {
+    setRetentionInput(String(retentionDays));
+    setSettingsOpen(true);
+  };
+
+  const saveSettings = async () => {
+    setSaving(true);
+    try {
+      await dispatch(updateTrashSettings({ retentionDays: retentionValue })).unwrap();
+      setSettingsOpen(false);
+    } catch (err) {
+      console.error("Error saving trash settings:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const columns: GridColDef[] = [
+    {
+      field: "title",
+      headerName: "Title",
+      flex: 1,
+      minWidth: 240,
+      renderCell: (params: { row: TrashItem }) => (
+        <Box>
+          <Typography variant="body2">{params.row.title || "Untitled"}</Typography>
+          {params.row.subtitle && (
+            <Typography variant="caption" color="text.secondary">
+              {params.row.subtitle}
+            </Typography>
+          )}
+        </Box>
+      ),
+    },
+    {
+      field: "deletedAt",
+      headerName: "Deleted",
+      width: 200,
+      renderCell: (params: { row: TrashItem }) => (
+        <Box>
+          <Typography variant="body2">
+            {new Date(params.row.deletedAt).toLocaleString()}
+          </Typography>
+          {params.row.deletedBy && (
+            <Typography variant="caption" color="text.secondary">
+              by {params.row.deletedBy.username}
+            </Typography>
+          )}
+        </Box>
+      ),
+    },
+    {
+      field: "purge",
+      headerName: "Permanently deleted",
+      width: 190,
+      sortable: false,
+      renderCell: (params: { row: TrashItem }) => {
+        const days = daysUntilPurge(params.row.deletedAt, retentionDays);
+        return (
+          <Tooltip title={purgeDate(params.row.deletedAt, retentionDays).toLocaleString()}>
+            <Chip
+              label={days === 0 ? "Today" : `In ${days} day${days === 1 ? "" : "s"}`}
+              size="small"
+              color={days <= 3 ? "warning" : "default"}
+              variant="outlined"
+            />
+          </Tooltip>
+        );
+      },
+    },
+    {
+      field: "actions",
+      type: "actions",
+      headerName: "Actions",
+      width: 110,
+      getActions: (params: GridRowParams<TrashItem>) => [
+        <GridActionsCellItem
+          key="restore"
+          icon={
+            <Tooltip title="Restore">
+              <RestoreIcon size={18} />
+            </Tooltip>
+          }
+          label="Restore"
+          onClick={() => handleRestore(params.row)}
+        />,
+        <GridActionsCellItem
+          key="purge"
+          icon={
+            <Tooltip title="Delete Permanently">
+              <DeleteIcon size={18} />
+            </Tooltip>
+          }
+          label="Delete Permanently"
+          onClick={() => setItemToPurge(params.row)}
+        />,
+      ],
+    },
+  ];
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 3,
+        }}
+      >
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+          <Button
+            startIcon={<BackIcon size={20} />}
+            onClick={() => navigate(trashListPath(type))}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            {labels.plural}
+          </Button>
+          <Typography variant="h6" component="h1">
+            Trash
+          </Typography>
+        </Box>
+        <Box sx={{ display: "flex", gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon size={20} />}
+            onClick={() => dispatch(fetchTrash(type))}
+            sx={buttonSx}
+          >
+            Refresh
+          </Button>
+          {can("trash.manage") && (
+            <Button
+              variant="outlined"
+              startIcon={<SettingsIcon size={20} />}
+              onClick={openSettings}
+              sx={buttonSx}
+            >
+              Retention
+            </Button>
+          )}
+          <Button
+            variant="contained"
+            color="error"
+            startIcon={<DeleteIcon size={20} />}
+            onClick={() => setEmptyDialogOpen(true)}
+            disabled={rows.length === 0}
+            sx={buttonSx}
+          >
+            Empty Trash
+          </Button>
+        </Box>
+      </Box>
+
+      <Alert severity="info" sx={{ mb: 2 }}>
+        Deleted {labels.plural.toLowerCase()} stay here for {retentionDays} days and are then
+        permanently deleted.
+      </Alert>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ height: 600, width: "100%" }}>
+        <DataGrid
+          rows={rows}
+          columns={columns}
+          getRowId={(row) => row._id}
+          loading={loading && rows.length === 0}
+          slots={{
+            loadingOverlay: () => <TableSkeleton columns={4} />,
+          }}
+          localeText={{ noRowsLabel: "Trash is empty" }}
+          getRowHeight={() => "auto"}
+          disableRowSelectionOnClick
+          initialState={{
+            pagination: { paginationModel: { pageSize: 25 } },
+          }}
+          pageSizeOptions={[25, 50, 100]}
+          sx={{
+            "& .MuiDataGrid-cell": {
+              border: "none",
+              py: 1,
+              "&:focus": { outline: "none" },
+              "&:focus-within": { outline: "none" },
+            },
+            "& .MuiDataGrid-columnHeaders": {
+              backgroundColor: "grey.50",
+              border: "none",
+            },
+            "& .MuiDataGrid-row": {
+              borderBottom: "1px solid #e0e0e0",
+            },
+          }}
+        />
+      </Box>
+
+      {/* Permanent Delete Confirmation Dialog */}
+      <Dialog open={!!itemToPurge} onClose={() => setItemToPurge(null)}>
+        <DialogTitle>Delete Permanently</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Permanently delete the {labels.singular} "{itemToPurge?.title}"? This action
+            cannot be undone.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setItemToPurge(null)}>Cancel</Button>
+          <Button onClick={confirmPurge} color="error" variant="contained">
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Empty Trash Confirmation Dialog */}
+      <Dialog open={emptyDialogOpen} onClose={() => setEmptyDialogOpen(false)}>
+        <DialogTitle>Empty Trash</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Permanently delete all {rows.length} {labels.plural.toLowerCase()} in the
+            trash? This action cannot be undone.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEmptyDialogOpen(false)}>Cancel</Button>
+          <Button onClick={confirmEmpty} color="error" variant="contained">
+            Empty Trash
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Retention Settings Dialog */}
+      <Dialog
+        open={settingsOpen}
+        onClose={() => !saving && setSettingsOpen(false)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>Trash Retention</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Keep deleted items for (days)"
+            type="number"
+            value={retentionInput}
+            onChange={(e) => setRetentionInput(e.target.value)}
+            error={!retentionValid}
+            helperText={
+              retentionValid
+                ? "Applies to every content type, including items already in the trash"
+                : `Enter a whole number from 1 to ${MAX_RETENTION_DAYS}`
+            }
+            inputProps={{ min: 1, max: MAX_RETENTION_DAYS }}
+            fullWidth
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSettingsOpen(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={saveSettings}
+            disabled={saving || !retentionValid}
+          >
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default Trash;
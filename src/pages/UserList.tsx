@@ -0,0 +1,585 @@
+import React, { useState, useEffect } from "react";
+import {
+  Box,
+  Typography,
+  Button,
+  Alert,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Tooltip,
+  TextField,
+  InputAdornment,
+  MenuItem,
+  Select,
+  FormControl,
+  InputLabel,
+} from "@mui/material";
+import {
+  DataGrid,
+  GridColDef,
+  GridActionsCellItem,
+  GridRowParams,
+} from "@mui/x-data-grid";
+import {
+  PersonAdd as PersonAddIcon,
+  Refresh as RefreshIcon,
+  Search as SearchIcon,
+  Block as BlockIcon,
+  CheckCircle as CheckCircleIcon,
+  LockReset as LockResetIcon,
+  Send as SendIcon,
+} from "@mui/icons-material";
+import { useAppDispatch, useAppSelector } from "../store/hooks";
+import {
+  fetchUsers,
+  inviteUser,
+  resendInvite,
+  updateUserRole,
+  setUserActive,
+  resetUserPassword,
+  setPagination,
+  setRoleFilter,
+  clearError,
+  forceRefresh,
+} from "../store/slices/usersSlice";
+import { useAuth } from "../contexts/AuthContext";
+import { USER_ROLES, USER_ROLE_LABELS } from "../utils/permissions";
+import type { User, UserRole, UserStatus, InviteUserData } from "../types";
+import TableSkeleton from "../components/TableSkeleton";
+
+const STATUS_COLORS: Record<UserStatus, "success" | "warning" | "default"> = {
+  active: "success",
+  invited: "warning",
+  deactivated: "default",
+};
+
+const EMPTY_INVITE: InviteUserData = { email: "", username: "", role: "author" };
+
+type ConfirmAction = { type: "deactivate" | "reactivate" | "reset"; user: User };
+
+const UserList: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { user: currentUser } = useAuth();
+  const {
+    items: users,
+    loading,
+    error,
+    pagination,
+    searchTerm: reduxSearchTerm,
+    roleFilter,
+    lastFetched,
+  } = useAppSelector((state) => state.users);
+
+  const [searchTerm, setSearchTerm] = useState(reduxSearchTerm);
+  const [searchInput, setSearchInput] = useState(reduxSearchTerm);
+  const [searchTimeout, setSearchTimeout] = useState<NodeJS.Timeout | null>(
+    null
+  );
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [invite, setInvite] = useState<InviteUserData>(EMPTY_INVITE);
+  const [inviting, setInviting] = useState(false);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+
+  useEffect(() => {
+    const shouldFetch =
+      !lastFetched || // No data cached
+      searchTerm !== reduxSearchTerm; // Search term changed
+
+    if (shouldFetch) {
+      dispatch(
+        fetchUsers({
+          page: pagination.page,
+          pageSize: pagination.pageSize,
+          search: searchTerm,
+          role: roleFilter,
+        })
+      );
+    }
+  }, [
+    dispatch,
+    pagination.page,
+    pagination.pageSize,
+    searchTerm,
+    reduxSearchTerm,
+    roleFilter,
+    lastFetched,
+  ]);
+
+  // Clear error when component unmounts
+  useEffect(() => {
+    return () => {
+      if (error) {
+        dispatch(clearError());
+      }
+    };
+  }, [dispatch, error]);
+
+  // Cleanup timeout on unmount
+  useEffect(() => {
+    return () => {
+      if (searchTimeout) {
+        clearTimeout(searchTimeout);
+      }
+    };
+  }, [searchTimeout]);
+
+  const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setSearchInput(value);
+
+    if (searchTimeout) {
+      clearTimeout(searchTimeout);
+    }
+
+    const timeout = setTimeout(() => {
+      setSearchTerm(value);
+      dispatch(setPagination({ page: 1, pageSize: pagination.pageSize }));
+    }, 500);
+
+    setSearchTimeout(timeout);
+  };
+
+  const handlePaginationChange = (newPaginationModel: {
+    page: number;
+    pageSize: number;
+  }) => {
+    const newPage = newPaginationModel.page + 1; // Convert to 1-based
+    const newPageSize = newPaginationModel.pageSize;
+
+    if (newPage !== pagination.page || newPageSize !== pagination.pageSize) {
+      dispatch(setPagination({ page: newPage, pageSize: newPageSize }));
+      dispatch(forceRefresh());
+    }
+  };
+
+  const handleInvite = async () => {
+    setInviting(true);
+    try {
+      await dispatch(
+        inviteUser({
+          ...invite,
+          email: invite.email.trim(),
+          username: invite.username?.trim() || undefined,
+        })
+      ).unwrap();
+      setInviteOpen(false);
+      setInvite(EMPTY_INVITE);
+    } catch (err) {
+      console.error("Error inviting user:", err);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!confirmAction) return;
+    const { type, user } = confirmAction;
+    setConfirmAction(null);
+    if (type === "reset") {
+      dispatch(resetUserPassword(user._id));
+    } else {
+      dispatch(setUserActive({ id: user._id, active: type === "reactivate" }));
+    }
+  };
+
+  const formatDate = (dateString?: string) =>
+    dateString
+      ? new Date(dateString).toLocaleDateString("en-US", {
+          year: "numeric",
+          month: "short",
+          day: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+        })
+      : "Never";
+
+  // Admins cannot demote or lock out their own account
+  const isSelf = (user: User) => user._id === currentUser?.id;
+
+  const columns: GridColDef[] = [
+    {
+      field: "username",
+      headerName: "User",
+      flex: 1,
+      minWidth: 220,
+      renderCell: (params) => (
+        <Box>
+          <Typography variant="subtitle2" fontWeight="bold">
+            {params.row.username || "—"}
+            {isSelf(params.row) && (
+              <Typography component="span" variant="caption" color="text.secondary">
+                {" "}(you)
+              </Typography>
+            )}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {params.row.email}
+          </Typography>
+        </Box>
+      ),
+    },
+    {
+      field: "role",
+      headerName: "Role",
+      width: 160,
+      renderCell: (params) => (
+        <Select
+          value={params.value}
+          size="small"
+          variant="standard"
+          disabled={isSelf(params.row)}
+          onChange={(e) =>
+            dispatch(
+              updateUserRole({
+                id: params.row._id,
+                role: e.target.value as UserRole,
+              })
+            )
+          }
+          sx={{ minWidth: 120 }}
+        >
+          {USER_ROLES.map((role) => (
+            <MenuItem key={role} value={role}>
+              {USER_ROLE_LABELS[role]}
+            </MenuItem>
+          ))}
+        </Select>
+      ),
+    },
+    {
+      field: "status",
+      headerName: "Status",
+      width: 130,
+      renderCell: (params) => (
+        <Chip
+          label={params.value}
+          size="small"
+          color={STATUS_COLORS[params.value as UserStatus]}
+          sx={{ textTransform: "capitalize" }}
+        />
+      ),
+    },
+    {
+      field: "lastLoginAt",
+      headerName: "Last Login",
+      width: 190,
+      renderCell: (params) => (
+        <Typography variant="body2" color="text.secondary">
+          {formatDate(params.value)}
+        </Typography>
+      ),
+    },
+    {
+      field: "actions",
+      type: "actions",
+      headerName: "Actions",
+      width: 130,
+      getActions: (params: GridRowParams<User>) => [
+        ...(params.row.status === "invited" ? [
+          <GridActionsCellItem
+            key="resend"
+            icon={
+              <Tooltip title="Resend Invitation">
+                <SendIcon />
+              </Tooltip>
+            }
+            label="Resend Invitation"
+            onClick={() => dispatch(resendInvite(params.row._id))}
+          />,
+        ] : [
+          <GridActionsCellItem
+            key="reset"
+            icon={
+              <Tooltip title="Reset Password">
+                <LockResetIcon />
+              </Tooltip>
+            }
+            label="Reset Password"
+            onClick={() => setConfirmAction({ type: "reset", user: params.row })}
+          />,
+        ]),
+        ...(isSelf(params.row) ? [] : [
+          params.row.status === "deactivated" ? (
+            <GridActionsCellItem
+              key="reactivate"
+              icon={
+                <Tooltip title="Reactivate">
+                  <CheckCircleIcon />
+                </Tooltip>
+              }
+              label="Reactivate"
+              onClick={() =>
+                setConfirmAction({ type: "reactivate", user: params.row })
+              }
+            />
+          ) : (
+            <GridActionsCellItem
+              key="deactivate"
+              icon={
+                <Tooltip title="Deactivate">
+                  <BlockIcon />
+                </Tooltip>
+              }
+              label="Deactivate"
+              onClick={() =>
+                setConfirmAction({ type: "deactivate", user: params.row })
+              }
+            />
+          ),
+        ]),
+      ],
+    },
+  ];
+
+  const confirmCopy: Record<ConfirmAction["type"], { title: string; body: string; button: string }> = {
+    deactivate: {
+      title: "Deactivate User",
+      body: "They will be signed out and unable to log in until reactivated.",
+      button: "Deactivate",
+    },
+    reactivate: {
+      title: "Reactivate User",
+      body: "They will be able to log in again with their existing password.",
+      button: "Reactivate",
+    },
+    reset: {
+      title: "Reset Password",
+      body: "They will receive an email with a link to choose a new password.",
+      button: "Send reset link",
+    },
+  };
+
+  return (
+    <Box>
+      {/* Header */}
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          mb: 3,
+        }}
+      >
+        <Typography variant="h6" component="h1">
+          Users
+        </Typography>
+        <Box sx={{ display: "flex", gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={<RefreshIcon />}
+            onClick={() => dispatch(forceRefresh())}
+            sx={{
+              borderRadius: "8px",
+              textTransform: "none",
+              fontWeight: 500,
+              px: 2,
+              py: 1,
+            }}
+          >
+            Refresh
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<PersonAddIcon />}
+            onClick={() => setInviteOpen(true)}
+            sx={{
+              borderRadius: "8px",
+              textTransform: "none",
+              fontWeight: 500,
+              px: 3,
+              py: 1,
+            }}
+          >
+            Invite User
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Filters */}
+      <Box sx={{ display: "flex", gap: 2, mb: 2, alignItems: "center" }}>
+        <TextField
+          placeholder="Search users..."
+          value={searchInput}
+          onChange={handleSearchChange}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            ),
+          }}
+          sx={{
+            minWidth: 300,
+            "& .MuiOutlinedInput-root": {
+              borderRadius: "8px",
+            },
+          }}
+          size="small"
+        />
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel>Role</InputLabel>
+          <Select
+            value={roleFilter}
+            label="Role"
+            onChange={(e) => dispatch(setRoleFilter(e.target.value as UserRole | ""))}
+            sx={{ borderRadius: "8px" }}
+          >
+            <MenuItem value="">All roles</MenuItem>
+            {USER_ROLES.map((role) => (
+              <MenuItem key={role} value={role}>
+                {USER_ROLE_LABELS[role]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ height: 600, width: "100%" }}>
+        <DataGrid
+          rows={users}
+          columns={columns}
+          getRowId={(row) => row._id}
+          paginationModel={{
+            page: pagination.page - 1, // Convert to 0-based for DataGrid
+            pageSize: pagination.pageSize,
+          }}
+          onPaginationModelChange={handlePaginationChange}
+          pageSizeOptions={[5, 10, 25, 50]}
+          rowCount={pagination.totalItems}
+          paginationMode="server"
+          loading={loading && users.length === 0}
+          slots={{
+            loadingOverlay: () => <TableSkeleton columns={5} />,
+          }}
+          disableRowSelectionOnClick
+          sx={{
+            "& .MuiDataGrid-cell": {
+              border: "none",
+              "&:focus": { outline: "none" },
+              "&:focus-within": { outline: "none" },
+            },
+            "& .MuiDataGrid-columnHeaders": {
+              backgroundColor: "grey.50",
+              border: "none",
+            },
+            "& .MuiDataGrid-row": {
+              borderBottom: "1px solid #e0e0e0",
+            },
+          }}
+        />
+      </Box>
+
+      {/* Invite Dialog */}
+      <Dialog
+        open={inviteOpen}
+        onClose={() => !inviting && setInviteOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Invite User</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            We will email them a link to set a password and sign in.
+          </DialogContentText>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            <TextField
+              label="Email"
+              type="email"
+              value={invite.email}
+              onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+              required
+              fullWidth
+            />
+            <TextField
+              label="Username"
+              value={invite.username}
+              onChange={(e) => setInvite({ ...invite, username: e.target.value })}
+              helperText="Optional, they can choose one when accepting the invite"
+              fullWidth
+            />
+            <TextField
+              select
+              label="Role"
+              value={invite.role}
+              onChange={(e) =>
+                setInvite({ ...invite, role: e.target.value as UserRole })
+              }
+              fullWidth
+            >
+              {USER_ROLES.map((role) => (
+                <MenuItem key={role} value={role}>
+                  {USER_ROLE_LABELS[role]}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => setInviteOpen(false)}
+            disabled={inviting}
+            sx={{ borderRadius: "8px", textTransform: "none" }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleInvite}
+            variant="contained"
+            disabled={inviting || !/^\S+@\S+\.\S+$/.test(invite.email.trim())}
+            sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+          >
+            {inviting ? "Sending..." : "Send invitation"}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Confirmation Dialog */}
+      <Dialog
+        open={!!confirmAction}
+        onClose={() => setConfirmAction(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        {confirmAction && (
+          <>
+            <DialogTitle>{confirmCopy[confirmAction.type].title}</DialogTitle>
+            <DialogContent>
+              <DialogContentText>
+                {confirmAction.user.username || confirmAction.user.email}:{" "}
+                {confirmCopy[confirmAction.type].body}
+              </DialogContentText>
+            </DialogContent>
+            <DialogActions>
+              <Button
+                onClick={() => setConfirmAction(null)}
+                sx={{ borderRadius: "8px", textTransform: "none" }}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleConfirm}
+                color={confirmAction.type === "deactivate" ? "error" : "primary"}
+                variant="contained"
+                sx={{ borderRadius: "8px", textTransform: "none", fontWeight: 500 }}
+              >
+                {confirmCopy[confirmAction.type].button}
+              </Button>
+            </DialogActions>
+          </>
+        )}
+      </Dialog>
+    </Box>
+  );
+};
+
+export default UserList;
@@ -0,0 +1,77 @@
+import { appConfig } from '../../config/environment'
+import { geminiProvider } from './providers/gemini'
+import { createChatCompletionsProvider } from './providers/chatCompletions'
+import { mockProvider } from './providers/mock'
+import type { AIGenerateOptions, AIProviderId, AIProviderPlugin } from './types'
+
+const env = (import.meta as any).env || {}
+
+const providers = new Map<AIProviderId, AIProviderPlugin>()
+
+export const registerAIProvider = (plugin: AIProviderPlugin) => {
+  providers.set(plugin.id, plugin)
+}
+
+registerAIProvider(geminiProvider)
+registerAIProvider(createChatCompletionsProvider('perplexity', 'Perplexity', 'sonar'))
+registerAIProvider(createChatCompletionsProvider('openai', 'OpenAI compatible', env.VITE_AI_OPENAI_MODEL || 'gpt-4o-mini'))
+registerAIProvider(mockProvider)
+
+// Providers offered in pickers; dev-only ones are hidden in production
+export const getAIProviders = (): AIProviderPlugin[] =>
+  Array.from(providers.values()).filter(plugin => !plugin.devOnly || !appConfig.isProduction)
+
+export const DEFAULT_AI_PROVIDER: AIProviderId =
+  env.VITE_AI_DEFAULT_PROVIDER && providers.has(env.VITE_AI_DEFAULT_PROVIDER)
+    ? env.VITE_AI_DEFAULT_PROVIDER
+    : 'gemini'
+
+// Models often wrap HTML or JSON answers in markdown code fences
+const stripCodeFences = (text: string) =>
+  text.trim().replace(/^```(?:html|json)?\s*/i, '').replace(/\s*```$/, '')
+
+const getPlugin = (provider: AIProviderId) => {
+  const plugin = providers.get(provider)
+  if (!plugin) {
+    throw new Error(`AI provider "${provider}" is not available`)
+  }
+  return plugin
+}
+
+export interface AIStreamRequestOptions extends AIGenerateOptions {
+  // Receives the whole text generated so far, cleaned up for display
+  onProgress: (text: string) => void
+}
+
+export const isAbortError = (err: unknown) =>
+  (err instanceof DOMException && err.name === 'AbortError') ||
+  (err instanceof Error && err.name === 'CanceledError')
+
+export const aiClient = {
+  generate: async (provider: AIProviderId, prompt: string, options: AIGenerateOptions = {}): Promise<string> => {
+    const plugin = getPlugin(provider)
+    return stripCodeFences(await plugin.generate(prompt, options))
+  },
+
+  // Streams partial output; resolves with the full text. If aborted, rejects after
+  // onProgress has already seen everything generated up to that point.
+  stream: async (provider: AIProviderId, prompt: string, { onProgress, ...options }: AIStreamRequestOptions): Promise<string> => {
+    const plugin = getPlugin(provider)
+    if (!plugin.stream) {
+      const text = stripCodeFences(await plugin.generate(prompt, options))
+      onProgress(text)
+      return text
+    }
+
+    let text = ''
+    await plugin.stream(prompt, {
+      ...options,
+      onDelta: delta => {
+        if (!delta) return
+        text += delta
+        onProgress(stripCodeFences(text))
+      },
+    })
+    return stripCodeFences(text)
+  },
+}
@@ -0,0 +1,3 @@
+export { aiClient, registerAIProvider, getAIProviders, isAbortError, DEFAULT_AI_PROVIDER } from './client'
+export type { AIStreamRequestOptions } from './client'
+export type { AIProviderId, AIProviderPlugin, AIGenerateOptions, AIStreamOptions } from './types'
@@ -0,0 +1,39 @@
+import { proxyRequest, proxyStream } from '../proxy'
+import type { AIProviderId, AIProviderPlugin } from '../types'
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>
+}
+
+// Perplexity and OpenAI-compatible backends share the chat completions shape
+export const createChatCompletionsProvider = (
+  id: AIProviderId,
+  label: string,
+  defaultModel: string
+): AIProviderPlugin => ({
+  id,
+  label,
+  generate: async (prompt, { model = defaultModel, signal }) => {
+    const data = await proxyRequest<ChatCompletionResponse>(
+      id,
+      { model, messages: [{ role: 'user', content: prompt }] },
+      signal
+    )
+    return data.choices?.[0]?.message?.content || ''
+  },
+  stream: async (prompt, { model = defaultModel, signal, onDelta }) => {
+    await proxyStream(
+      id,
+      { model, stream: true, messages: [{ role: 'user', content: prompt }] },
+      data => {
+        const chunk: ChatCompletionChunk = JSON.parse(data)
+        onDelta(chunk.choices?.[0]?.delta?.content || '')
+      },
+      signal
+    )
+  },
+})
@@ -0,0 +1,33 @@
+import { proxyRequest, proxyStream } from '../proxy'
+import type { AIProviderPlugin } from '../types'
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+}
+
+const DEFAULT_MODEL = 'gemini-2.0-flash'
+
+const buildBody = (prompt: string, model: string) => ({
+  model,
+  contents: [{ parts: [{ text: prompt }] }],
+})
+
+const textOf = (data: GeminiResponse) => data.candidates?.[0]?.content?.parts?.[0]?.text || ''
+
+export const geminiProvider: AIProviderPlugin = {
+  id: 'gemini',
+  label: 'Gemini',
+  generate: async (prompt, { model = DEFAULT_MODEL, signal }) => {
+    const data = await proxyRequest<GeminiResponse>('gemini', buildBody(prompt, model), signal)
+    return textOf(data)
+  },
+  // Each streamGenerateContent event carries the next slice of text
+  stream: async (prompt, { model = DEFAULT_MODEL, signal, onDelta }) => {
+    await proxyStream(
+      'gemini',
+      buildBody(prompt, model),
+      data => onDelta(textOf(JSON.parse(data))),
+      signal
+    )
+  },
+}
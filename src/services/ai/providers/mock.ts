@@ -0,0 +1,46 @@
+import type { AIProviderPlugin } from '../types'
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    })
+  })
+
+const mockResponse = (prompt: string) => {
+  const title = prompt.match(/Title: "([^"]*)"/)?.[1] || 'Mock article'
+  if (prompt.includes('Respond with JSON')) {
+    return JSON.stringify({
+      metaTitle: title.slice(0, 60),
+      metaDescription: `Mock summary of ${title}`.slice(0, 160),
+      metaKeywords: `${title.toLowerCase()}, mock`,
+      tags: ['mock'],
+      category: 'Mock',
+      readTime: 3,
+    })
+  }
+  return `<h1>${escapeHtml(title)}</h1><p>This is mock content generated offline for testing.</p>`
+}
+
+// Deterministic offline provider for tests and local development
+export const mockProvider: AIProviderPlugin = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  devOnly: true,
+  generate: async (prompt, { signal }) => {
+    await wait(300, signal)
+    return mockResponse(prompt)
+  },
+  stream: async (prompt, { signal, onDelta }) => {
+    const tokens = mockResponse(prompt).match(/<[^>]+>|[^<\s]+\s*|\s+/g) || []
+    for (const token of tokens) {
+      await wait(30, signal)
+      onDelta(token)
+    }
+  },
+}
@@ -0,0 +1,75 @@
+import api from '../api'
+import { appConfig } from '../../config/environment'
+import { getToken, refreshSession, waitForReauthentication } from '../session'
+import type { AIProviderId } from './types'
+
+// Generation can take well over the default API timeout
+const AI_TIMEOUT = 120000
+
+// Forward a provider-native payload through the backend, which holds the provider API keys
+export const proxyRequest = async <T>(provider: AIProviderId, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await api.post<T>(`/ai/proxy/${provider}`, body, {
+    timeout: AI_TIMEOUT,
+    signal,
+  })
+  return response.data
+}
+
+// Streaming variant: the backend relays the provider's server-sent events unchanged.
+// axios cannot read a response body incrementally in the browser, so this uses fetch.
+export const proxyStream = async (
+  provider: AIProviderId,
+  body: unknown,
+  onEvent: (data: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const send = (token: string | null) =>
+    fetch(`${appConfig.apiBaseUrl}/ai/proxy/${provider}/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    })
+
+  let response = await send(getToken())
+  // Same renewal as the axios interceptor, since fetch bypasses it
+  if (response.status === 401) {
+    const token = await refreshSession().catch(() => waitForReauthentication())
+    response = await send(token)
+  }
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => null)
+    throw new Error(error?.message || `AI request failed (${response.status})`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const flushEvents = (final: boolean) => {
+    const events = buffer.split(/\r?\n\r?\n/)
+    buffer = final ? '' : events.pop() || ''
+    events.forEach(event => {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n')
+      if (data && data !== '[DONE]') onEvent(data)
+    })
+  }
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    flushEvents(false)
+  }
+  buffer += decoder.decode()
+  flushEvents(true)
+}
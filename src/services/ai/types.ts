@@ -0,0 +1,21 @@
+export type AIProviderId = 'gemini' | 'perplexity' | 'openai' | 'mock'
+
+export interface AIGenerateOptions {
+  model?: string
+  signal?: AbortSignal
+}
+
+export interface AIStreamOptions extends AIGenerateOptions {
+  // Called with each new piece of text as it arrives
+  onDelta: (delta: string) => void
+}
+
+export interface AIProviderPlugin {
+  id: AIProviderId
+  label: string
+  // Hidden from provider pickers in production (e.g. the mock provider)
+  devOnly?: boolean
+  generate: (prompt: string, options: AIGenerateOptions) => Promise<string>
+  // Optional; providers without it fall back to a single generate() call
+  stream?: (prompt: string, options: AIStreamOptions) => Promise<void>
+}
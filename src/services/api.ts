@@ -1,7 +1,9 @@
-import axios, { AxiosResponse } from 'axios'
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios'
 import { toast } from 'react-toastify'
 import type { 
   Page, 
+  PageStatus,
+  PageRevision,
   CreatePageData, 
   UpdatePageData, 
   Track,
@@ -10,21 +12,58 @@ import type {
   Playlist,
   CreatePlaylistData,
   UpdatePlaylistData,
+  Contact,
+  ContactStatus,
+  ContactAssignee,
+  ContactReply,
+  SendContactReplyData,
+  ReplyTemplate,
+  CreateReplyTemplateData,
+  PageGroup,
+  CreatePageGroupData,
+  PageGroupMergeResult,
+  TaxonomyTerm,
+  TaxonomyTermData,
+  Redirect,
+  CreateRedirectData,
+  RedirectImportResult,
+  SlugAvailability,
+  TrashType,
+  TrashItem,
+  TrashSettings,
+  DailyCreatedCounts,
   ContactPaginatedResponse,
+  PromptTemplate,
+  PromptTemplateVersion,
+  CreatePromptTemplateData,
+  User,
+  UserRole,
+  InviteUserData,
+  TwoFactorStatus,
+  TwoFactorSetup,
   PaginatedResponse, 
   ApiResponse,
   AudioFoldersResponse
 } from '../types'
+import { appConfig } from '../config/environment'
+import { getToken, refreshSession, waitForReauthentication } from './session'
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Skip the global error toast; the caller reports failures itself
+    silent?: boolean
+  }
+}
 
 // Cloudinary configuration
-const CLOUDINARY_CLOUD_NAME = (import.meta as any).env?.VITE_CLOUDINARY_CLOUD_NAME || 'your-cloud-name'
-const CLOUDINARY_UPLOAD_PRESET = (import.meta as any).env?.VITE_CLOUDINARY_UPLOAD_PRESET || 'your-upload-preset'
-const CLOUDINARY_AUDIO_UPLOAD_PRESET = (import.meta as any).env?.VITE_CLOUDINARY_AUDIO_UPLOAD_PRESET || 'da-orbit-audio'
+const CLOUDINARY_CLOUD_NAME = appConfig.cloudinary.cloudName
+const CLOUDINARY_UPLOAD_PRESET = appConfig.cloudinary.uploadPreset
+const CLOUDINARY_AUDIO_UPLOAD_PRESET = appConfig.cloudinary.audioUploadPreset
 
 // Create axios instance with default config
 const api = axios.create({
-  baseURL: 'https://be-thefunneleffect.vercel.app/api',
-  timeout: 10000,
+  baseURL: appConfig.apiBaseUrl,
+  timeout: appConfig.apiTimeout,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -34,7 +73,7 @@ const api = axios.create({
 api.interceptors.request.use(
   (config) => {
     // Add auth token to requests
-    const token = localStorage.getItem('da-cms-token')
+    const token = getToken()
     if (token) {
       config.headers.Authorization = `Bearer ${token}`
     }
@@ -45,27 +84,38 @@ api.interceptors.request.use(
   }
 )
 
+// Endpoints that establish the session themselves; a 401 there is a real failure
+const SESSION_ENDPOINTS = /\/auth\/(login|verify|refresh|logout|2fa\/verify)/
+
 // Response interceptor
 api.interceptors.response.use(
   (response) => {
     return response
   },
-  (error) => {
+  async (error) => {
     const message = error.response?.data?.message || 'An error occurred'
-    
-    // Handle 401 errors - token might be expired
-    if (error.response?.status === 401) {
-      // Only logout if this isn't a verify endpoint call (to avoid loops)
-      if (!error.config?.url?.includes('/auth/verify')) {
-        console.log('401 error on API call, logging out user')
-        localStorage.removeItem('da-cms-token')
-        // Force page reload to reset auth state
-        window.location.reload()
+    const config = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined
+
+    // Handle 401 errors - renew the session and retry instead of dropping the user's work
+    if (error.response?.status === 401 && config && !config._retry && !SESSION_ENDPOINTS.test(config.url || '')) {
+      config._retry = true
+      try {
+        let token: string
+        try {
+          token = await refreshSession()
+        } catch {
+          // Refresh failed: hold the request until the user signs in again
+          token = await waitForReauthentication()
+        }
+        config.headers.Authorization = `Bearer ${token}`
+        return api(config)
+      } catch {
+        return Promise.reject(error)
       }
     }
     
     // Don't show snackbar for 404 errors when fetching individual items
-    if (error.response?.status !== 404 && error.response?.status !== 401) {
+    if (error.response?.status !== 404 && error.response?.status !== 401 && !config?.silent) {
       toast.error(message)
     }
     
@@ -73,6 +123,11 @@ api.interceptors.response.use(
   }
 )
 
+// Bulk operations call the per-item endpoints silently (no toasts) and report once at the end
+interface RequestOptions {
+  silent?: boolean
+}
+
 // Pages API functions
 export const pagesAPI = {
   // Get all pages with optional query parameters
@@ -81,36 +136,75 @@ export const pagesAPI = {
     return response.data
   },
 
+  // Walk every result page of a query; used by export and the import conflict check
+  getAllMatching: async (params: Record<string, any> = {}): Promise<Page[]> => {
+    const pages: Page[] = []
+    for (let page = 1; ; page++) {
+      const response: AxiosResponse<PaginatedResponse<Page>> = await api.get('/pages', {
+        params: { ...params, page, limit: 100 },
+      })
+      pages.push(...response.data.data.pages)
+      if (page >= response.data.data.pagination.totalPages) return pages
+    }
+  },
+
   // Get page by slug
   getBySlug: async (slug: string): Promise<ApiResponse<Page>> => {
     const response: AxiosResponse<ApiResponse<Page>> = await api.get(`/pages/${slug}`)
     return response.data
   },
 
+  // Is the slug free? excludeId leaves the page being edited out of the check
+  checkSlug: async (slug: string, excludeId?: string): Promise<ApiResponse<SlugAvailability>> => {
+    const response: AxiosResponse<ApiResponse<SlugAvailability>> = await api.get('/pages/slug-availability', {
+      params: { slug, excludeId },
+      silent: true,
+    })
+    return response.data
+  },
+
   // Get page by ID (for editing)
-  getById: async (id: string): Promise<ApiResponse<Page>> => {
-    const response: AxiosResponse<ApiResponse<Page>> = await api.get(`/pages/by-id/${id}`)
+  getById: async (id: string, options: RequestOptions = {}): Promise<ApiResponse<Page>> => {
+    const response: AxiosResponse<ApiResponse<Page>> = await api.get(`/pages/by-id/${id}`, { silent: options.silent })
     return response.data
   },
 
   // Create new page
-  create: async (pageData: CreatePageData): Promise<ApiResponse<Page>> => {
-    const response: AxiosResponse<ApiResponse<Page>> = await api.post('/pages', pageData)
-        toast.success('Page created successfully!')
+  create: async (pageData: CreatePageData, options: RequestOptions = {}): Promise<ApiResponse<Page>> => {
+    const response: AxiosResponse<ApiResponse<Page>> = await api.post('/pages', pageData, { silent: options.silent })
+    if (!options.silent) toast.success('Page created successfully!')
     return response.data
   },
 
-  // Update existing page
-  update: async (id: string, pageData: UpdatePageData): Promise<ApiResponse<Page>> => {
-    const response: AxiosResponse<ApiResponse<Page>> = await api.put(`/pages/${id}`, pageData)
-    toast.success('Page updated successfully!')
+  // Update existing page; a slug change also adds a 301 from the old path and repoints older redirects in the same write
+  update: async (id: string, pageData: UpdatePageData, options: RequestOptions = {}): Promise<ApiResponse<Page>> => {
+    const response: AxiosResponse<ApiResponse<Page>> = await api.put(`/pages/${id}`, pageData, { silent: options.silent })
+    if (!options.silent) toast.success('Page updated successfully!')
     return response.data
   },
 
-  // Delete page
-  delete: async (id: string): Promise<ApiResponse<{ id: string; title: string }>> => {
-    const response: AxiosResponse<ApiResponse<{ id: string; title: string }>> = await api.delete(`/pages/${id}`)
-    toast.success('Page deleted successfully!')
+  // Move page to the trash; the caller confirms with an Undo toast
+  delete: async (id: string, options: RequestOptions = {}): Promise<ApiResponse<{ id: string; title: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ id: string; title: string }>> = await api.delete(`/pages/${id}`, { silent: options.silent })
+    return response.data
+  },
+
+  // Move page to another publication status (publishAt is required when scheduling)
+  updateStatus: async (id: string, status: PageStatus, publishAt?: string, options: RequestOptions = {}): Promise<ApiResponse<Page>> => {
+    const response: AxiosResponse<ApiResponse<Page>> = await api.patch(`/pages/${id}/status`, { status, publishAt }, { silent: options.silent })
+    if (!options.silent) toast.success('Page status updated successfully!')
+    return response.data
+  },
+
+  // Get saved revisions of a page, newest first
+  getRevisions: async (id: string): Promise<ApiResponse<PageRevision[]>> => {
+    const response: AxiosResponse<ApiResponse<PageRevision[]>> = await api.get(`/pages/${id}/revisions`)
+    return response.data
+  },
+
+  // Get a single revision of a page
+  getRevision: async (id: string, revisionId: string): Promise<ApiResponse<PageRevision>> => {
+    const response: AxiosResponse<ApiResponse<PageRevision>> = await api.get(`/pages/${id}/revisions/${revisionId}`)
     return response.data
   },
 }
@@ -143,10 +237,9 @@ export const tracksAPI = {
     return response.data
   },
 
-  // Delete track
+  // Move track to the trash; the caller confirms with an Undo toast
   delete: async (id: string): Promise<ApiResponse<{ id: string; title: string }>> => {
     const response: AxiosResponse<ApiResponse<{ id: string; title: string }>> = await api.delete(`/tracks/${id}`)
-    toast.success('Track deleted successfully!')
     return response.data
   },
 }
@@ -179,10 +272,9 @@ export const playlistsAPI = {
     return response.data
   },
 
-  // Delete playlist
+  // Move playlist to the trash; the caller confirms with an Undo toast
   delete: async (id: string): Promise<ApiResponse<{ id: string; title: string }>> => {
     const response: AxiosResponse<ApiResponse<{ id: string; title: string }>> = await api.delete(`/playlists/${id}`)
-    toast.success('Playlist deleted successfully!')
     return response.data
   },
 
@@ -201,6 +293,42 @@ export const playlistsAPI = {
   },
 }
 
+// Prompt template API functions
+export const promptTemplatesAPI = {
+  // Get all prompt templates, optionally filtered by content type
+  getAll: async (params: Record<string, any> = {}): Promise<ApiResponse<PromptTemplate[]>> => {
+    const response: AxiosResponse<ApiResponse<PromptTemplate[]>> = await api.get('/prompt-templates', { params })
+    return response.data
+  },
+
+  // Create new prompt template
+  create: async (templateData: CreatePromptTemplateData): Promise<ApiResponse<PromptTemplate>> => {
+    const response: AxiosResponse<ApiResponse<PromptTemplate>> = await api.post('/prompt-templates', templateData)
+    toast.success('Prompt template created successfully!')
+    return response.data
+  },
+
+  // Update prompt template (the server stores the previous body as a version)
+  update: async (id: string, templateData: CreatePromptTemplateData): Promise<ApiResponse<PromptTemplate>> => {
+    const response: AxiosResponse<ApiResponse<PromptTemplate>> = await api.put(`/prompt-templates/${id}`, templateData)
+    toast.success('Prompt template updated successfully!')
+    return response.data
+  },
+
+  // Delete prompt template
+  delete: async (id: string): Promise<ApiResponse<{ id: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ id: string }>> = await api.delete(`/prompt-templates/${id}`)
+    toast.success('Prompt template deleted successfully!')
+    return response.data
+  },
+
+  // Get previous versions of a prompt template, newest first
+  getVersions: async (id: string): Promise<ApiResponse<PromptTemplateVersion[]>> => {
+    const response: AxiosResponse<ApiResponse<PromptTemplateVersion[]>> = await api.get(`/prompt-templates/${id}/versions`)
+    return response.data
+  },
+}
+
 export default api
 
 // Cloudinary upload function for images
@@ -377,10 +505,354 @@ export const contactsAPI = {
     return response.data
   },
 
-  // Delete contact
+  // Walk every result page of a query; used by the CSV export
+  getAllMatching: async (params: Record<string, any> = {}): Promise<Contact[]> => {
+    const contacts: Contact[] = []
+    for (let page = 1; ; page++) {
+      const response: AxiosResponse<ContactPaginatedResponse> = await api.get('/contacts', {
+        params: { ...params, page, limit: 100 },
+      })
+      contacts.push(...response.data.data)
+      if (page >= response.data.totalPages) return contacts
+    }
+  },
+
+  // Get a single contact with its notes, source and status history
+  getById: async (id: string): Promise<ApiResponse<Contact>> => {
+    const response: AxiosResponse<ApiResponse<Contact>> = await api.get(`/contacts/${id}`)
+    return response.data
+  },
+
+  // Move contact to the trash; the caller confirms with an Undo toast
   delete: async (id: string): Promise<ApiResponse<any>> => {
     const response: AxiosResponse<ApiResponse<any>> = await api.delete(`/contacts/${id}`)
-    toast.success('Contact deleted successfully!')
+    return response.data
+  },
+
+  // Move contact through the follow-up pipeline
+  updateStatus: async (id: string, status: ContactStatus): Promise<ApiResponse<Contact>> => {
+    const response: AxiosResponse<ApiResponse<Contact>> = await api.patch(`/contacts/${id}/status`, { status })
+    toast.success('Contact status updated')
+    return response.data
+  },
+
+  // Assign contact to a team member (null to unassign)
+  assign: async (id: string, assigneeId: string | null): Promise<ApiResponse<Contact>> => {
+    const response: AxiosResponse<ApiResponse<Contact>> = await api.patch(`/contacts/${id}/assignee`, { assigneeId })
+    toast.success(assigneeId ? 'Contact assigned' : 'Contact unassigned')
+    return response.data
+  },
+
+  // Add an internal note; returns the updated contact
+  addNote: async (id: string, body: string): Promise<ApiResponse<Contact>> => {
+    const response: AxiosResponse<ApiResponse<Contact>> = await api.post(`/contacts/${id}/notes`, { body })
+    toast.success('Note added')
+    return response.data
+  },
+
+  // Delete an internal note; returns the updated contact
+  deleteNote: async (id: string, noteId: string): Promise<ApiResponse<Contact>> => {
+    const response: AxiosResponse<ApiResponse<Contact>> = await api.delete(`/contacts/${id}/notes/${noteId}`)
+    toast.success('Note deleted')
+    return response.data
+  },
+
+  // Replies sent to a contact, oldest first
+  getReplies: async (id: string): Promise<ApiResponse<ContactReply[]>> => {
+    const response: AxiosResponse<ApiResponse<ContactReply[]>> = await api.get(`/contacts/${id}/replies`)
+    return response.data
+  },
+
+  // Email a reply to the contact through the backend mailer
+  sendReply: async (id: string, replyData: SendContactReplyData): Promise<ApiResponse<ContactReply>> => {
+    const response: AxiosResponse<ApiResponse<ContactReply>> = await api.post(`/contacts/${id}/replies`, replyData)
+    toast.success('Reply sent')
+    return response.data
+  },
+}
+
+// Page group taxonomy (site sections)
+export const groupsAPI = {
+  // Get all groups in display order
+  getAll: async (): Promise<ApiResponse<PageGroup[]>> => {
+    const response: AxiosResponse<ApiResponse<PageGroup[]>> = await api.get('/groups')
+    return response.data
+  },
+
+  // Create a group
+  create: async (groupData: CreatePageGroupData): Promise<ApiResponse<PageGroup>> => {
+    const response: AxiosResponse<ApiResponse<PageGroup>> = await api.post('/groups', groupData)
+    toast.success('Group created')
+    return response.data
+  },
+
+  // Rename a group or change its description and hero image; the slug stays fixed
+  update: async (id: string, groupData: Omit<CreatePageGroupData, 'slug'>): Promise<ApiResponse<PageGroup>> => {
+    const response: AxiosResponse<ApiResponse<PageGroup>> = await api.put(`/groups/${id}`, groupData)
+    toast.success('Group updated')
+    return response.data
+  },
+
+  // Save the display order; ids listed first to last
+  reorder: async (ids: string[]): Promise<ApiResponse<PageGroup[]>> => {
+    const response: AxiosResponse<ApiResponse<PageGroup[]>> = await api.put('/groups/order', { ids })
+    return response.data
+  },
+
+  // Move every page from one group into another and remove the source group
+  merge: async (id: string, targetId: string): Promise<ApiResponse<PageGroupMergeResult>> => {
+    const response: AxiosResponse<ApiResponse<PageGroupMergeResult>> = await api.post(`/groups/${id}/merge`, { targetId })
+    toast.success('Groups merged')
+    return response.data
+  },
+
+  // Delete a group with no pages in it
+  delete: async (id: string): Promise<ApiResponse<{ id: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ id: string }>> = await api.delete(`/groups/${id}`)
+    toast.success('Group deleted')
+    return response.data
+  },
+}
+
+// Canonical tags and categories shared by pages, tracks and playlists
+export const taxonomyAPI = {
+  // Get every tag and category with usage counts
+  getAll: async (): Promise<ApiResponse<TaxonomyTerm[]>> => {
+    const response: AxiosResponse<ApiResponse<TaxonomyTerm[]>> = await api.get('/taxonomy')
+    return response.data
+  },
+
+  // Add a canonical term
+  create: async (termData: TaxonomyTermData): Promise<ApiResponse<TaxonomyTerm>> => {
+    const response: AxiosResponse<ApiResponse<TaxonomyTerm>> = await api.post('/taxonomy', termData)
+    toast.success(`${termData.kind === 'tag' ? 'Tag' : 'Category'} created`)
+    return response.data
+  },
+
+  // Rename a term or edit its synonyms; a rename rewrites every item using it
+  update: async (id: string, termData: Pick<TaxonomyTermData, 'name' | 'synonyms'>): Promise<ApiResponse<TaxonomyTerm>> => {
+    const response: AxiosResponse<ApiResponse<TaxonomyTerm>> = await api.put(`/taxonomy/${id}`, termData)
+    toast.success('Term updated')
+    return response.data
+  },
+
+  // Fold a term into another; its name becomes a synonym of the target
+  merge: async (id: string, targetId: string): Promise<ApiResponse<TaxonomyTerm>> => {
+    const response: AxiosResponse<ApiResponse<TaxonomyTerm>> = await api.post(`/taxonomy/${id}/merge`, { targetId })
+    toast.success('Terms merged')
+    return response.data
+  },
+
+  // Delete a term, moving its items to another term or just removing it from them
+  delete: async (id: string, reassignTo: string | null): Promise<ApiResponse<{ id: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ id: string }>> = await api.delete(`/taxonomy/${id}`, {
+      params: reassignTo ? { reassignTo } : {},
+    })
+    toast.success('Term deleted')
+    return response.data
+  },
+}
+
+// Redirect rules served by the public site
+export const redirectsAPI = {
+  // Get every redirect rule
+  getAll: async (options: RequestOptions = {}): Promise<ApiResponse<Redirect[]>> => {
+    const response: AxiosResponse<ApiResponse<Redirect[]>> = await api.get('/redirects', { silent: options.silent })
+    return response.data
+  },
+
+  // Create a redirect rule
+  create: async (redirectData: CreateRedirectData, options: RequestOptions = {}): Promise<ApiResponse<Redirect>> => {
+    const response: AxiosResponse<ApiResponse<Redirect>> = await api.post('/redirects', redirectData, { silent: options.silent })
+    if (!options.silent) toast.success('Redirect created')
+    return response.data
+  },
+
+  // Update a redirect rule
+  update: async (id: string, redirectData: CreateRedirectData, options: RequestOptions = {}): Promise<ApiResponse<Redirect>> => {
+    const response: AxiosResponse<ApiResponse<Redirect>> = await api.put(`/redirects/${id}`, redirectData, { silent: options.silent })
+    if (!options.silent) toast.success('Redirect updated')
+    return response.data
+  },
+
+  // Delete a redirect rule
+  delete: async (id: string, options: RequestOptions = {}): Promise<ApiResponse<{ id: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ id: string }>> = await api.delete(`/redirects/${id}`, { silent: options.silent })
+    if (!options.silent) toast.success('Redirect deleted')
+    return response.data
+  },
+
+  // Create or overwrite many rules at once, matched on their source path
+  bulkImport: async (rules: CreateRedirectData[]): Promise<ApiResponse<RedirectImportResult>> => {
+    const response: AxiosResponse<ApiResponse<RedirectImportResult>> = await api.post('/redirects/import', { rules })
+    return response.data
+  },
+}
+
+// Deleted pages, tracks, playlists and contacts waiting to be restored or purged
+export const trashAPI = {
+  // Get the trashed items of one content type, most recently deleted first
+  getAll: async (type: TrashType): Promise<ApiResponse<TrashItem[]>> => {
+    const response: AxiosResponse<ApiResponse<TrashItem[]>> = await api.get(`/trash/${type}`)
+    return response.data
+  },
+
+  // Put an item back where it was
+  restore: async (type: TrashType, id: string, options: RequestOptions = {}): Promise<ApiResponse<{ id: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ id: string }>> = await api.post(`/trash/${type}/${id}/restore`, undefined, { silent: options.silent })
+    if (!options.silent) toast.success('Restored from trash')
+    return response.data
+  },
+
+  // Delete an item for good
+  purge: async (type: TrashType, id: string): Promise<ApiResponse<{ id: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ id: string }>> = await api.delete(`/trash/${type}/${id}`)
+    toast.success('Permanently deleted')
+    return response.data
+  },
+
+  // Delete every trashed item of one content type for good
+  empty: async (type: TrashType): Promise<ApiResponse<{ deleted: number }>> => {
+    const response: AxiosResponse<ApiResponse<{ deleted: number }>> = await api.delete(`/trash/${type}`)
+    toast.success('Trash emptied')
+    return response.data
+  },
+
+  // Get the retention period
+  getSettings: async (): Promise<ApiResponse<TrashSettings>> => {
+    const response: AxiosResponse<ApiResponse<TrashSettings>> = await api.get('/trash/settings')
+    return response.data
+  },
+
+  // Change the retention period; applies to items already in the trash too
+  updateSettings: async (settings: TrashSettings): Promise<ApiResponse<TrashSettings>> => {
+    const response: AxiosResponse<ApiResponse<TrashSettings>> = await api.put('/trash/settings', settings)
+    toast.success('Trash settings saved')
+    return response.data
+  },
+}
+
+// Dashboard aggregates computed on the server
+export const statsAPI = {
+  // Pages, tracks, playlists and contacts created per day, inclusive of both dates
+  getCreatedByDay: async (params: { from: string; to: string; timezone: string }): Promise<ApiResponse<DailyCreatedCounts[]>> => {
+    const response: AxiosResponse<ApiResponse<DailyCreatedCounts[]>> = await api.get('/stats/created', { params })
+    return response.data
+  },
+}
+
+// Reusable contact reply templates
+export const replyTemplatesAPI = {
+  // Get all saved reply templates
+  getAll: async (): Promise<ApiResponse<ReplyTemplate[]>> => {
+    const response: AxiosResponse<ApiResponse<ReplyTemplate[]>> = await api.get('/reply-templates')
+    return response.data
+  },
+
+  // Save a new reply template
+  create: async (templateData: CreateReplyTemplateData): Promise<ApiResponse<ReplyTemplate>> => {
+    const response: AxiosResponse<ApiResponse<ReplyTemplate>> = await api.post('/reply-templates', templateData)
+    toast.success('Reply template saved')
+    return response.data
+  },
+
+  // Update a reply template
+  update: async (id: string, templateData: CreateReplyTemplateData): Promise<ApiResponse<ReplyTemplate>> => {
+    const response: AxiosResponse<ApiResponse<ReplyTemplate>> = await api.put(`/reply-templates/${id}`, templateData)
+    toast.success('Reply template updated')
+    return response.data
+  },
+
+  // Delete a reply template
+  delete: async (id: string): Promise<ApiResponse<{ id: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ id: string }>> = await api.delete(`/reply-templates/${id}`)
+    toast.success('Reply template deleted')
+    return response.data
+  },
+}
+
+// User management API functions (admin only)
+export const usersAPI = {
+  // Get all users with optional query parameters
+  getAll: async (params: Record<string, any> = {}): Promise<PaginatedResponse<User>> => {
+    const response: AxiosResponse<PaginatedResponse<User>> = await api.get('/users', { params })
+    return response.data
+  },
+
+  // Active team members that contacts can be assigned to (available to every role)
+  getAssignable: async (): Promise<ApiResponse<ContactAssignee[]>> => {
+    const response: AxiosResponse<ApiResponse<ContactAssignee[]>> = await api.get('/users/assignable')
+    return response.data
+  },
+
+  // Invite a new user; the server emails a link to set their password
+  invite: async (userData: InviteUserData): Promise<ApiResponse<User>> => {
+    const response: AxiosResponse<ApiResponse<User>> = await api.post('/users/invite', userData)
+    toast.success(`Invitation sent to ${userData.email}`)
+    return response.data
+  },
+
+  // Send the invitation email again
+  resendInvite: async (id: string): Promise<ApiResponse<User>> => {
+    const response: AxiosResponse<ApiResponse<User>> = await api.post(`/users/${id}/invite/resend`)
+    toast.success('Invitation resent successfully!')
+    return response.data
+  },
+
+  // Change a user's role
+  updateRole: async (id: string, role: UserRole): Promise<ApiResponse<User>> => {
+    const response: AxiosResponse<ApiResponse<User>> = await api.patch(`/users/${id}/role`, { role })
+    toast.success('Role updated successfully!')
+    return response.data
+  },
+
+  // Deactivate or reactivate an account
+  setActive: async (id: string, active: boolean): Promise<ApiResponse<User>> => {
+    const response: AxiosResponse<ApiResponse<User>> = await api.patch(`/users/${id}/status`, { active })
+    toast.success(active ? 'User reactivated successfully!' : 'User deactivated successfully!')
+    return response.data
+  },
+
+  // Email the user a password reset link
+  resetPassword: async (id: string): Promise<ApiResponse<{ id: string }>> => {
+    const response: AxiosResponse<ApiResponse<{ id: string }>> = await api.post(`/users/${id}/reset-password`)
+    toast.success('Password reset email sent!')
+    return response.data
+  },
+}
+
+// Two-factor authentication for the signed-in account
+export const twoFactorAPI = {
+  // Whether 2FA is on and how many backup codes are left
+  getStatus: async (): Promise<ApiResponse<TwoFactorStatus>> => {
+    const response: AxiosResponse<ApiResponse<TwoFactorStatus>> = await api.get('/auth/2fa')
+    return response.data
+  },
+
+  // Start enrollment: the server generates a new secret that is not active yet
+  setup: async (): Promise<ApiResponse<TwoFactorSetup>> => {
+    const response: AxiosResponse<ApiResponse<TwoFactorSetup>> = await api.post('/auth/2fa/setup')
+    return response.data
+  },
+
+  // Confirm enrollment with a code from the app; returns one-time backup codes
+  enable: async (code: string): Promise<ApiResponse<{ backupCodes: string[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ backupCodes: string[] }>> = await api.post('/auth/2fa/enable', { code })
+    toast.success('Two-factor authentication enabled!')
+    return response.data
+  },
+
+  // Turn 2FA off; requires a current code or a backup code
+  disable: async (code: string): Promise<ApiResponse<TwoFactorStatus>> => {
+    const response: AxiosResponse<ApiResponse<TwoFactorStatus>> = await api.post('/auth/2fa/disable', { code })
+    toast.success('Two-factor authentication disabled')
+    return response.data
+  },
+
+  // Replace all backup codes; the old ones stop working
+  regenerateBackupCodes: async (code: string): Promise<ApiResponse<{ backupCodes: string[] }>> => {
+    const response: AxiosResponse<ApiResponse<{ backupCodes: string[] }>> = await api.post('/auth/2fa/backup-codes', { code })
+    toast.success('New backup codes generated')
     return response.data
   },
 }
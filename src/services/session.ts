@@ -0,0 +1,138 @@
+import axios from 'axios'
+import { appConfig } from '../config/environment'
+
+const TOKEN_KEY = 'da-cms-token'
+const REFRESH_TOKEN_KEY = 'da-cms-refresh-token'
+
+export interface SessionTokens {
+  token: string
+  refreshToken?: string
+}
+
+// The auth slice owns the current access token; localStorage only persists it across reloads.
+// The store is injected rather than imported because the slices import the api services.
+interface AuthStore {
+  getState: () => { auth: { token: string | null } }
+}
+let authStore: AuthStore | null = null
+
+export const bindAuthStore = (store: AuthStore) => {
+  authStore = store
+}
+
+export const getStoredToken = () => localStorage.getItem(TOKEN_KEY)
+
+export const getToken = () => (authStore ? authStore.getState().auth.token : getStoredToken())
+
+export const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY)
+
+export const setTokens = ({ token, refreshToken }: SessionTokens) => {
+  localStorage.setItem(TOKEN_KEY, token)
+  // Servers without refresh support keep whatever refresh token we already had
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken)
+  }
+}
+
+export const clearTokens = () => {
+  localStorage.removeItem(TOKEN_KEY)
+  localStorage.removeItem(REFRESH_TOKEN_KEY)
+}
+
+// Expiry of a JWT in ms since epoch, or null when it cannot be decoded
+export const getTokenExpiry = (token: string | null): number | null => {
+  if (!token) return null
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null
+  } catch {
+    return null
+  }
+}
+
+export const isTokenExpired = (token: string | null): boolean => {
+  const expiry = getTokenExpiry(token)
+  return expiry === null || expiry <= Date.now()
+}
+
+// Listeners are notified whenever a new access token is stored
+type TokenListener = (token: string) => void
+const tokenListeners = new Set<TokenListener>()
+
+export const onTokenRefreshed = (listener: TokenListener) => {
+  tokenListeners.add(listener)
+  return () => {
+    tokenListeners.delete(listener)
+  }
+}
+
+let refreshing: Promise<string> | null = null
+
+// Exchange the refresh token for a new access token. Concurrent callers share one request.
+export const refreshSession = (): Promise<string> => {
+  if (refreshing) return refreshing
+
+  const refreshToken = getRefreshToken()
+  if (!refreshToken) {
+    return Promise.reject(new Error('No refresh token available'))
+  }
+
+  // Plain axios so a failing refresh never re-enters the api interceptors
+  refreshing = axios
+    .post(`${appConfig.apiBaseUrl}/auth/refresh`, { refreshToken }, { timeout: appConfig.apiTimeout })
+    .then(response => {
+      const { token, refreshToken: nextRefreshToken } = response.data
+      if (!token) {
+        throw new Error('Refresh response did not include a token')
+      }
+      setTokens({ token, refreshToken: nextRefreshToken })
+      tokenListeners.forEach(listener => listener(token))
+      return token as string
+    })
+    .catch(error => {
+      // A rejected refresh token will not work next time either
+      if (error.response?.status === 401 || error.response?.status === 403) {
+        localStorage.removeItem(REFRESH_TOKEN_KEY)
+      }
+      throw error
+    })
+    .finally(() => {
+      refreshing = null
+    })
+
+  return refreshing
+}
+
+// Requests that hit a 401 after refresh failed wait here until the user signs in again
+type PendingRequest = { resolve: (token: string) => void; reject: (error: Error) => void }
+let pendingRequests: PendingRequest[] = []
+const reauthListeners = new Set<() => void>()
+
+export const onReauthenticationRequired = (listener: () => void) => {
+  reauthListeners.add(listener)
+  return () => {
+    reauthListeners.delete(listener)
+  }
+}
+
+export const waitForReauthentication = (): Promise<string> =>
+  new Promise((resolve, reject) => {
+    pendingRequests.push({ resolve, reject })
+    if (pendingRequests.length === 1) {
+      reauthListeners.forEach(listener => listener())
+    }
+  })
+
+// Release queued requests with the new token after the user signs in again
+export const completeReauthentication = (token: string) => {
+  const queued = pendingRequests
+  pendingRequests = []
+  queued.forEach(request => request.resolve(token))
+}
+
+// Fail queued requests, e.g. when the user logs out instead of signing back in
+export const cancelReauthentication = () => {
+  const queued = pendingRequests
+  pendingRequests = []
+  queued.forEach(request => request.reject(new Error('Session ended')))
+}
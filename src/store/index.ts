@@ -1,5 +1,5 @@
 import { configureStore } from '@reduxjs/toolkit'
-import authSlice from './slices/authSlice'
+import authSlice, { tokenRefreshed, sessionStatusChanged } from './slices/authSlice'
 import pagesSlice from './slices/pagesSlice'
 import dashboardSlice from './slices/dashboardSlice'
 import tracksSlice from './slices/tracksSlice'
@@ -7,6 +7,14 @@ import playlistsSlice from './slices/playlistsSlice'
 import imagesSlice from './slices/imagesSlice'
 import audiosSlice from './slices/audiosSlice'
 import contactsSlice from './slices/contactsSlice'
+import promptTemplatesSlice from './slices/promptTemplatesSlice'
+import replyTemplatesSlice from './slices/replyTemplatesSlice'
+import groupsSlice from './slices/groupsSlice'
+import taxonomySlice from './slices/taxonomySlice'
+import redirectsSlice from './slices/redirectsSlice'
+import trashSlice from './slices/trashSlice'
+import usersSlice from './slices/usersSlice'
+import { bindAuthStore, onTokenRefreshed, onReauthenticationRequired } from '../services/session'
 
 export const store = configureStore({
   reducer: {
@@ -18,8 +26,20 @@ export const store = configureStore({
     images: imagesSlice,
     audios: audiosSlice,
     contacts: contactsSlice,
+    promptTemplates: promptTemplatesSlice,
+    replyTemplates: replyTemplatesSlice,
+    groups: groupsSlice,
+    taxonomy: taxonomySlice,
+    redirects: redirectsSlice,
+    trash: trashSlice,
+    users: usersSlice,
   },
 })
 
+// Token renewals happen outside React (interceptors, streaming proxy), so wire them to the store here
+bindAuthStore(store)
+onTokenRefreshed(token => store.dispatch(tokenRefreshed(token)))
+onReauthenticationRequired(() => store.dispatch(sessionStatusChanged('expired')))
+
 export type RootState = ReturnType<typeof store.getState>
 export type AppDispatch = typeof store.dispatch
\ No newline at end of file
@@ -1,20 +1,32 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit'
+import type { AuthUser, SessionStatus, UserRole } from '../../types'
+import { normalizeRole } from '../../utils/permissions'
+import { getStoredToken, getTokenExpiry } from '../../services/session'
 
+// Single source of truth for who is signed in. AuthContext, the api
+// interceptors and the route guards all read from here.
 interface AuthState {
   isAuthenticated: boolean
-  user: {
-    id: string
-    email: string
-    name: string
-  } | null
+  user: AuthUser | null
+  role: UserRole
+  token: string | null
+  sessionExpiresAt: number | null
+  sessionStatus: SessionStatus
+  // True until the stored token has been checked on startup
   loading: boolean
   error: string | null
 }
 
+const storedToken = getStoredToken()
+
 const initialState: AuthState = {
   isAuthenticated: false,
   user: null,
-  loading: false,
+  role: 'viewer',
+  token: storedToken,
+  sessionExpiresAt: getTokenExpiry(storedToken),
+  sessionStatus: 'active',
+  loading: true,
   error: null,
 }
 
@@ -23,27 +35,73 @@ const authSlice = createSlice({
   initialState,
   reducers: {
     loginStart: (state) => {
-      state.loading = true
       state.error = null
     },
-    loginSuccess: (state, action: PayloadAction<{ id: string; email: string; name: string }>) => {
+    loginSuccess: (state, action: PayloadAction<{ user: AuthUser; token: string }>) => {
       state.loading = false
       state.isAuthenticated = true
-      state.user = action.payload
+      state.user = action.payload.user
+      state.role = normalizeRole(action.payload.user.role)
+      state.token = action.payload.token
+      state.sessionExpiresAt = getTokenExpiry(action.payload.token)
+      state.sessionStatus = 'active'
       state.error = null
     },
     loginFailure: (state, action: PayloadAction<string>) => {
       state.loading = false
       state.error = action.payload
     },
+    // Password step passed; waiting for the authenticator code
+    twoFactorRequired: (state) => {
+      state.error = null
+    },
+    tokenRefreshed: (state, action: PayloadAction<string>) => {
+      state.token = action.payload
+      state.sessionExpiresAt = getTokenExpiry(action.payload)
+      state.sessionStatus = 'active'
+    },
+    // Only warn while the session is still active; an expired session stays expired
+    sessionExpiring: (state) => {
+      if (state.sessionStatus === 'active') {
+        state.sessionStatus = 'expiring'
+      }
+    },
+    sessionStatusChanged: (state, action: PayloadAction<SessionStatus>) => {
+      state.sessionStatus = action.payload
+    },
+    // Startup check finished without restoring a session
+    sessionRestoreFailed: (state) => {
+      state.loading = false
+      state.token = null
+      state.sessionExpiresAt = null
+    },
+    // Startup check could not reach the server; keep the token for a later retry
+    sessionRestoreDeferred: (state) => {
+      state.loading = false
+    },
     logout: (state) => {
       state.isAuthenticated = false
       state.user = null
+      state.role = 'viewer'
+      state.token = null
+      state.sessionExpiresAt = null
+      state.sessionStatus = 'active'
       state.loading = false
       state.error = null
     },
   },
 })
 
-export const { loginStart, loginSuccess, loginFailure, logout } = authSlice.actions
-export default authSlice.reducer
\ No newline at end of file
+export const {
+  loginStart,
+  loginSuccess,
+  loginFailure,
+  twoFactorRequired,
+  tokenRefreshed,
+  sessionExpiring,
+  sessionStatusChanged,
+  sessionRestoreFailed,
+  sessionRestoreDeferred,
+  logout,
+} = authSlice.actions
+export default authSlice.reducer
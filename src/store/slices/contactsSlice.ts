@@ -1,6 +1,8 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
-import { contactsAPI } from '../../services/api'
-import type { Contact } from '../../types'
+import { contactsAPI, usersAPI } from '../../services/api'
+import { restoreTrashItem } from './trashSlice'
+import type { Contact, ContactAssignee, ContactFilters, ContactReply, ContactStatus, SendContactReplyData } from '../../types'
+import { contactFilterParams, getContactStatus } from '../../utils/contacts'
 
 interface ContactsState {
   items: Contact[]
@@ -13,6 +15,17 @@ interface ContactsState {
     totalPages: number
   }
   searchTerm: string
+  statusFilter: ContactStatus | ''
+  assigneeFilter: string
+  createdFrom: string
+  createdTo: string
+  assignees: ContactAssignee[]
+  // Sent replies for the contact currently open in a reply dialog or detail view
+  replies: {
+    contactId: string | null
+    items: ContactReply[]
+    loading: boolean
+  }
   lastFetched: number | null // timestamp for caching
 }
 
@@ -27,14 +40,52 @@ const initialState: ContactsState = {
     totalPages: 0,
   },
   searchTerm: '',
+  statusFilter: '',
+  assigneeFilter: '',
+  createdFrom: '',
+  createdTo: '',
+  assignees: [],
+  replies: {
+    contactId: null,
+    items: [],
+    loading: false,
+  },
   lastFetched: null,
 }
 
+// Replace an updated contact in the list, dropping it if it no longer matches the filters
+const replaceContact = (state: ContactsState, contact: Contact) => {
+  const index = state.items.findIndex(item => item._id === contact._id)
+  if (index === -1) return
+  const matchesStatus = !state.statusFilter || state.statusFilter === getContactStatus(contact.status)
+  const matchesAssignee =
+    !state.assigneeFilter ||
+    (state.assigneeFilter === 'unassigned' ? !contact.assignee : contact.assignee?._id === state.assigneeFilter)
+  if (matchesStatus && matchesAssignee) {
+    state.items[index] = contact
+  } else {
+    state.items.splice(index, 1)
+    state.pagination.totalItems -= 1
+  }
+}
+
 // Async thunks
 export const fetchContacts = createAsyncThunk(
   'contacts/fetchContacts',
-  async ({ page = 1, pageSize = 10, search = '' }: { page?: number; pageSize?: number; search?: string }) => {
-    const response = await contactsAPI.getAll({ page, limit: pageSize, search: search || undefined })
+  async ({
+    page = 1,
+    pageSize = 10,
+    search = '',
+    status = '',
+    assignee = '',
+    createdFrom = '',
+    createdTo = '',
+  }: { page?: number; pageSize?: number } & Partial<ContactFilters>) => {
+    const response = await contactsAPI.getAll({
+      page,
+      limit: pageSize,
+      ...contactFilterParams({ search, status, assignee, createdFrom, createdTo }),
+    })
     return {
       contacts: response.data,
       pagination: {
@@ -44,10 +95,70 @@ export const fetchContacts = createAsyncThunk(
         itemsPerPage: response.limit,
       },
       searchTerm: search,
+      statusFilter: status,
+      assigneeFilter: assignee,
+      createdFrom,
+      createdTo,
     }
   }
 )
 
+export const fetchAssignees = createAsyncThunk(
+  'contacts/fetchAssignees',
+  async () => {
+    const response = await usersAPI.getAssignable()
+    return response.data
+  }
+)
+
+export const updateContactStatus = createAsyncThunk(
+  'contacts/updateContactStatus',
+  async ({ id, status }: { id: string; status: ContactStatus }) => {
+    const response = await contactsAPI.updateStatus(id, status)
+    return response.data
+  }
+)
+
+export const assignContact = createAsyncThunk(
+  'contacts/assignContact',
+  async ({ id, assigneeId }: { id: string; assigneeId: string | null }) => {
+    const response = await contactsAPI.assign(id, assigneeId)
+    return response.data
+  }
+)
+
+export const addContactNote = createAsyncThunk(
+  'contacts/addContactNote',
+  async ({ id, body }: { id: string; body: string }) => {
+    const response = await contactsAPI.addNote(id, body)
+    return response.data
+  }
+)
+
+export const deleteContactNote = createAsyncThunk(
+  'contacts/deleteContactNote',
+  async ({ id, noteId }: { id: string; noteId: string }) => {
+    const response = await contactsAPI.deleteNote(id, noteId)
+    return response.data
+  }
+)
+
+export const fetchContactReplies = createAsyncThunk(
+  'contacts/fetchContactReplies',
+  async (id: string) => {
+    const response = await contactsAPI.getReplies(id)
+    return response.data
+  }
+)
+
+export const sendContactReply = createAsyncThunk(
+  'contacts/sendContactReply',
+  async ({ id, reply }: { id: string; reply: SendContactReplyData }) => {
+    const response = await contactsAPI.sendReply(id, reply)
+    return response.data
+  }
+)
+
 export const deleteContactById = createAsyncThunk(
   'contacts/deleteContact',
   async (contactId: string) => {
@@ -64,6 +175,19 @@ const contactsSlice = createSlice({
       state.searchTerm = action.payload
       state.pagination.page = 1 // Reset to first page when searching
     },
+    setStatusFilter: (state, action: PayloadAction<ContactStatus | ''>) => {
+      state.statusFilter = action.payload
+      state.pagination.page = 1 // Reset to first page when filtering
+    },
+    setAssigneeFilter: (state, action: PayloadAction<string>) => {
+      state.assigneeFilter = action.payload
+      state.pagination.page = 1 // Reset to first page when filtering
+    },
+    setDateRange: (state, action: PayloadAction<{ createdFrom: string; createdTo: string }>) => {
+      state.createdFrom = action.payload.createdFrom
+      state.createdTo = action.payload.createdTo
+      state.pagination.page = 1 // Reset to first page when filtering
+    },
     setPagination: (state, action: PayloadAction<{ page: number; pageSize: number }>) => {
       state.pagination.page = action.payload.page
       state.pagination.pageSize = action.payload.pageSize
@@ -97,6 +221,10 @@ const contactsSlice = createSlice({
           totalPages: action.payload.pagination.totalPages,
         }
         state.searchTerm = action.payload.searchTerm
+        state.statusFilter = action.payload.statusFilter
+        state.assigneeFilter = action.payload.assigneeFilter
+        state.createdFrom = action.payload.createdFrom
+        state.createdTo = action.payload.createdTo
         state.lastFetched = Date.now()
       })
       .addCase(fetchContacts.rejected, (state, action) => {
@@ -119,8 +247,55 @@ const contactsSlice = createSlice({
       .addCase(deleteContactById.rejected, (state, action) => {
         state.error = action.error.message || 'Failed to delete contact'
       })
+      .addCase(fetchAssignees.fulfilled, (state, action) => {
+        state.assignees = action.payload
+      })
+      .addCase(updateContactStatus.fulfilled, (state, action) => {
+        replaceContact(state, action.payload)
+      })
+      .addCase(assignContact.fulfilled, (state, action) => {
+        replaceContact(state, action.payload)
+      })
+      .addCase(addContactNote.fulfilled, (state, action) => {
+        replaceContact(state, action.payload)
+      })
+      .addCase(deleteContactNote.fulfilled, (state, action) => {
+        replaceContact(state, action.payload)
+      })
+      .addCase(fetchContactReplies.pending, (state, action) => {
+        // Keep the thread on screen when reloading the same contact
+        if (state.replies.contactId !== action.meta.arg) {
+          state.replies = { contactId: action.meta.arg, items: [], loading: true }
+        }
+      })
+      .addCase(fetchContactReplies.fulfilled, (state, action) => {
+        if (state.replies.contactId !== action.meta.arg) return
+        state.replies.items = action.payload
+        state.replies.loading = false
+      })
+      .addCase(fetchContactReplies.rejected, (state, action) => {
+        if (state.replies.contactId === action.meta.arg) state.replies.loading = false
+      })
+      .addCase(sendContactReply.fulfilled, (state, action) => {
+        if (state.replies.contactId === action.meta.arg.id) {
+          state.replies.items.push(action.payload)
+        }
+      })
+      // Restoring from the trash puts an item back in this list
+      .addCase(restoreTrashItem.fulfilled, (state, action) => {
+        if (action.payload.type === 'contacts') state.lastFetched = null
+      })
   },
 })
 
-export const { setSearchTerm, setPagination, clearContacts, clearError, forceRefresh } = contactsSlice.actions
+export const {
+  setSearchTerm,
+  setStatusFilter,
+  setAssigneeFilter,
+  setDateRange,
+  setPagination,
+  clearContacts,
+  clearError,
+  forceRefresh,
+} = contactsSlice.actions
 export default contactsSlice.reducer
\ No newline at end of file
@@ -1,32 +1,233 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit'
-import { pagesAPI } from '../../services/api'
-import type { Page } from '../../types'
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
+import {
+  pagesAPI,
+  tracksAPI,
+  playlistsAPI,
+  contactsAPI,
+  statsAPI,
+  getUploadedImages,
+  getAudioFolders,
+} from '../../services/api'
+import type { Page, PageStatus } from '../../types'
+import { PAGE_STATUSES } from '../../utils/pageStatus'
+
+export type DashboardRangePreset = '7d' | '30d' | '90d' | '12m' | 'custom'
+
+export interface DashboardRange {
+  preset: DashboardRangePreset
+  from: string // YYYY-MM-DD, inclusive
+  to: string // YYYY-MM-DD, inclusive
+}
+
+export interface DashboardCounts {
+  pages: number
+  tracks: number
+  playlists: number
+  contacts: number
+  images: number
+  audios: number
+}
+
+export interface DashboardSeriesPoint extends DashboardCounts {
+  label: string
+}
 
 interface DashboardState {
   recentPages: Page[]
-  totalPages: number
+  counts: DashboardCounts
+  // Items created inside the selected range
+  createdInRange: DashboardCounts
+  // True when there were more images than we were willing to page through
+  imagesTruncated: boolean
+  statusCounts: Record<PageStatus, number>
+  series: DashboardSeriesPoint[]
+  range: DashboardRange
   loading: boolean
   error: string | null
   lastFetched: number | null // timestamp for caching
+  // Latest fetch; results of earlier (slower) ones for another range are dropped
+  requestId: string | null
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const PAGE_SIZE = 100
+const MAX_IMAGE_PAGES = 20 // Cloudinary has no counts, so images are listed up to this many pages
+
+const EMPTY_COUNTS: DashboardCounts = {
+  pages: 0,
+  tracks: 0,
+  playlists: 0,
+  contacts: 0,
+  images: 0,
+  audios: 0,
+}
+
+const toDateInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10)
+}
+
+export const rangeForPreset = (preset: Exclude<DashboardRangePreset, 'custom'>): DashboardRange => {
+  const to = new Date()
+  const from = new Date(to)
+  if (preset === '12m') {
+    from.setFullYear(from.getFullYear() - 1)
+  } else {
+    from.setDate(from.getDate() - (parseInt(preset, 10) - 1))
+  }
+  return { preset, from: toDateInput(from), to: toDateInput(to) }
 }
 
 const initialState: DashboardState = {
   recentPages: [],
-  totalPages: 0,
+  counts: EMPTY_COUNTS,
+  createdInRange: EMPTY_COUNTS,
+  imagesTruncated: false,
+  statusCounts: { draft: 0, in_review: 0, scheduled: 0, published: 0, archived: 0 },
+  series: [],
+  range: rangeForPreset('30d'),
   loading: false,
   error: null,
   lastFetched: null,
+  requestId: null,
+}
+
+type Granularity = 'day' | 'week' | 'month'
+
+const granularityFor = (from: Date, to: Date): Granularity => {
+  const days = (to.getTime() - from.getTime()) / DAY
+  if (days <= 31) return 'day'
+  if (days <= 120) return 'week'
+  return 'month'
+}
+
+// Start of the bucket a date falls in
+const bucketStart = (date: Date, granularity: Granularity) => {
+  const start = new Date(date.getFullYear(), date.getMonth(), granularity === 'month' ? 1 : date.getDate())
+  if (granularity === 'week') {
+    start.setDate(start.getDate() - start.getDay())
+  }
+  return start
+}
+
+const bucketLabel = (date: Date, granularity: Granularity) =>
+  granularity === 'month'
+    ? date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+// One dated count per point: a whole day from the server or a single image or audio
+type SeriesPoint = { at: Date } & Partial<DashboardCounts>
+
+const buildSeries = (from: Date, to: Date, points: SeriesPoint[]): DashboardSeriesPoint[] => {
+  const granularity = granularityFor(from, to)
+  const buckets = new Map<number, DashboardSeriesPoint>()
+
+  for (let cursor = bucketStart(from, granularity); cursor <= to; ) {
+    buckets.set(cursor.getTime(), { label: bucketLabel(cursor, granularity), ...EMPTY_COUNTS })
+    if (granularity === 'month') cursor.setMonth(cursor.getMonth() + 1)
+    else cursor.setDate(cursor.getDate() + (granularity === 'week' ? 7 : 1))
+  }
+
+  points.forEach(({ at, ...counts }) => {
+    const bucket = buckets.get(bucketStart(at, granularity).getTime())
+    if (!bucket) return
+    ;(Object.keys(counts) as Array<keyof DashboardCounts>).forEach(key => {
+      bucket[key] += counts[key] || 0
+    })
+  })
+
+  return Array.from(buckets.values())
+}
+
+const sumSeries = (series: DashboardSeriesPoint[]): DashboardCounts =>
+  series.reduce(
+    (total, point) => ({
+      pages: total.pages + point.pages,
+      tracks: total.tracks + point.tracks,
+      playlists: total.playlists + point.playlists,
+      contacts: total.contacts + point.contacts,
+      images: total.images + point.images,
+      audios: total.audios + point.audios,
+    }),
+    EMPTY_COUNTS
+  )
+
+const inRange = (value: string, from: Date, to: Date) => {
+  const time = new Date(value).getTime()
+  return time >= from.getTime() && time <= to.getTime()
 }
 
 // Async thunk to fetch dashboard data
 export const fetchDashboardData = createAsyncThunk(
   'dashboard/fetchDashboardData',
-  async () => {
-    const pagesResponse = await pagesAPI.getAll({ limit: 5, page: 1 })
+  async (range: DashboardRange) => {
+    const from = new Date(`${range.from}T00:00:00`)
+    const to = new Date(`${range.to}T23:59:59.999`)
+
+    const collectImages = async () => {
+      const dates: string[] = []
+      let total = 0
+      let nextCursor: string | undefined
+      let hasMore = false
+      for (let page = 0; page < MAX_IMAGE_PAGES; page++) {
+        const result = await getUploadedImages({ limit: PAGE_SIZE, nextCursor })
+        total += result.images.length
+        result.images.forEach(image => {
+          if (inRange(image.created_at, from, to)) dates.push(image.created_at)
+        })
+        nextCursor = result.nextCursor
+        hasMore = result.hasMore
+        if (!hasMore || !nextCursor) break
+      }
+      return { dates, total, truncated: hasMore }
+    }
+
+    const [recent, tracks, playlists, contacts, created, images, audioFolders, statusTotals] = await Promise.all([
+      pagesAPI.getAll({ limit: 5, page: 1 }),
+      tracksAPI.getAll({ page: 1, limit: 1 }),
+      playlistsAPI.getAll({ page: 1, limit: 1 }),
+      contactsAPI.getAll({ page: 1, limit: 1 }),
+      // Creation dates are counted on the server, grouped by day in the user's time zone
+      statsAPI.getCreatedByDay({
+        from: range.from,
+        to: range.to,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      }),
+      collectImages(),
+      getAudioFolders(),
+      Promise.all(
+        PAGE_STATUSES.map(async status => {
+          const response = await pagesAPI.getAll({ page: 1, limit: 1, status })
+          return [status, response.data.pagination.totalItems] as const
+        })
+      ),
+    ])
+
+    const audioDates = audioFolders.folders
+      .flatMap(folder => folder.audios)
+      .map(audio => audio.created_at)
+      .filter(value => value && inRange(value, from, to))
+
+    const series = buildSeries(from, to, [
+      ...created.data.map(({ date, ...counts }) => ({ at: new Date(`${date}T00:00:00`), ...counts })),
+      ...images.dates.map(value => ({ at: new Date(value), images: 1 })),
+      ...audioDates.map(value => ({ at: new Date(value), audios: 1 })),
+    ])
 
     return {
-      recentPages: pagesResponse.data.pages,
-      totalPages: pagesResponse.data.pagination.totalItems,
+      recentPages: recent.data.pages,
+      counts: {
+        pages: recent.data.pagination.totalItems,
+        tracks: tracks.data.pagination.totalItems,
+        playlists: playlists.data.pagination.totalItems,
+        contacts: contacts.total,
+        images: images.total,
+        audios: audioFolders.totalAudios,
+      },
+      createdInRange: sumSeries(series),
+      imagesTruncated: images.truncated,
+      statusCounts: Object.fromEntries(statusTotals) as Record<PageStatus, number>,
+      series,
     }
   }
 )
@@ -35,30 +236,44 @@ const dashboardSlice = createSlice({
   name: 'dashboard',
   initialState,
   reducers: {
+    setDateRange: (state, action: PayloadAction<DashboardRange>) => {
+      state.range = action.payload
+      // New range needs a fresh aggregate
+      state.lastFetched = null
+    },
     clearDashboardData: (state) => {
       state.recentPages = []
-      state.totalPages = 0
+      state.counts = EMPTY_COUNTS
+      state.createdInRange = EMPTY_COUNTS
+      state.series = []
       state.lastFetched = null
     },
   },
   extraReducers: (builder) => {
     builder
-      .addCase(fetchDashboardData.pending, (state) => {
+      .addCase(fetchDashboardData.pending, (state, action) => {
         state.loading = true
         state.error = null
+        state.requestId = action.meta.requestId
       })
       .addCase(fetchDashboardData.fulfilled, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return
         state.loading = false
         state.recentPages = action.payload.recentPages
-        state.totalPages = action.payload.totalPages
+        state.counts = action.payload.counts
+        state.createdInRange = action.payload.createdInRange
+        state.imagesTruncated = action.payload.imagesTruncated
+        state.statusCounts = action.payload.statusCounts
+        state.series = action.payload.series
         state.lastFetched = Date.now()
       })
       .addCase(fetchDashboardData.rejected, (state, action) => {
+        if (action.meta.requestId !== state.requestId) return
         state.loading = false
         state.error = action.error.message || 'Failed to fetch dashboard data'
       })
   },
 })
 
-export const { clearDashboardData } = dashboardSlice.actions
-export default dashboardSlice.reducer
\ No newline at end of file
+export const { setDateRange, clearDashboardData } = dashboardSlice.actions
+export default dashboardSlice.reducer
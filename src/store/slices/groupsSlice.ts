@@ -0,0 +1,129 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit'
+import { groupsAPI } from '../../services/api'
+import type { PageGroup, CreatePageGroupData } from '../../types'
+
+interface GroupsState {
+  items: PageGroup[]
+  loading: boolean
+  error: string | null
+  lastFetched: number | null // timestamp for caching
+}
+
+const initialState: GroupsState = {
+  items: [],
+  loading: false,
+  error: null,
+  lastFetched: null,
+}
+
+const byOrder = (a: PageGroup, b: PageGroup) => a.order - b.order
+
+// Async thunks
+export const fetchGroups = createAsyncThunk(
+  'groups/fetchGroups',
+  async () => {
+    const response = await groupsAPI.getAll()
+    return response.data
+  }
+)
+
+export const createGroup = createAsyncThunk(
+  'groups/createGroup',
+  async (groupData: CreatePageGroupData) => {
+    const response = await groupsAPI.create(groupData)
+    return response.data
+  }
+)
+
+export const updateGroup = createAsyncThunk(
+  'groups/updateGroup',
+  async ({ id, groupData }: { id: string; groupData: Omit<CreatePageGroupData, 'slug'> }) => {
+    const response = await groupsAPI.update(id, groupData)
+    return response.data
+  }
+)
+
+export const reorderGroups = createAsyncThunk(
+  'groups/reorderGroups',
+  async (ids: string[]) => {
+    const response = await groupsAPI.reorder(ids)
+    return response.data
+  }
+)
+
+export const mergeGroup = createAsyncThunk(
+  'groups/mergeGroup',
+  async ({ id, targetId }: { id: string; targetId: string }) => {
+    const response = await groupsAPI.merge(id, targetId)
+    return { sourceId: id, ...response.data }
+  }
+)
+
+export const deleteGroup = createAsyncThunk(
+  'groups/deleteGroup',
+  async (id: string) => {
+    await groupsAPI.delete(id)
+    return id
+  }
+)
+
+const groupsSlice = createSlice({
+  name: 'groups',
+  initialState,
+  reducers: {
+    forceRefresh: (state) => {
+      state.lastFetched = null
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchGroups.pending, (state) => {
+        // Only show loading if we don't have cached data
+        state.loading = state.items.length === 0
+        state.error = null
+      })
+      .addCase(fetchGroups.fulfilled, (state, action) => {
+        state.loading = false
+        state.items = [...action.payload].sort(byOrder)
+        state.lastFetched = Date.now()
+      })
+      .addCase(fetchGroups.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || 'Failed to fetch groups'
+      })
+      .addCase(createGroup.fulfilled, (state, action) => {
+        state.items.push(action.payload)
+        state.items.sort(byOrder)
+      })
+      .addCase(updateGroup.fulfilled, (state, action) => {
+        const index = state.items.findIndex(item => item._id === action.payload._id)
+        if (index !== -1) state.items[index] = action.payload
+      })
+      // Reorder optimistically so the list doesn't jump back while saving
+      .addCase(reorderGroups.pending, (state, action) => {
+        const ids = action.meta.arg
+        state.items.forEach(item => {
+          item.order = ids.indexOf(item._id)
+        })
+        state.items.sort(byOrder)
+      })
+      .addCase(reorderGroups.fulfilled, (state, action) => {
+        state.items = [...action.payload].sort(byOrder)
+      })
+      .addCase(reorderGroups.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to reorder groups'
+        state.lastFetched = null
+      })
+      .addCase(mergeGroup.fulfilled, (state, action) => {
+        state.items = state.items
+          .filter(item => item._id !== action.payload.sourceId)
+          .map(item => (item._id === action.payload.target._id ? action.payload.target : item))
+      })
+      .addCase(deleteGroup.fulfilled, (state, action) => {
+        state.items = state.items.filter(item => item._id !== action.payload)
+      })
+  },
+})
+
+export const { forceRefresh } = groupsSlice.actions
+export default groupsSlice.reducer
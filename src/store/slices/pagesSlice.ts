@@ -1,6 +1,7 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
 import { pagesAPI } from '../../services/api'
-import type { Page } from '../../types'
+import { restoreTrashItem } from './trashSlice'
+import type { Page, PageStatus, PageRevision, PageBulkAction, PageBulkFailure } from '../../types'
 
 interface PagesState {
   items: Page[]
@@ -14,7 +15,21 @@ interface PagesState {
   }
   searchTerm: string
   groupFilter: string
+  statusFilter: PageStatus | ''
   lastFetched: number | null // timestamp for caching
+  revisions: {
+    pageId: string | null
+    items: PageRevision[]
+    loading: boolean
+    error: string | null
+  }
+  bulk: {
+    action: PageBulkAction | null
+    running: boolean
+    total: number
+    completed: number
+    failures: PageBulkFailure[]
+  }
 }
 
 const initialState: PagesState = {
@@ -29,16 +44,69 @@ const initialState: PagesState = {
   },
   searchTerm: '',
   groupFilter: '',
+  statusFilter: '',
   lastFetched: null,
+  revisions: {
+    pageId: null,
+    items: [],
+    loading: false,
+    error: null,
+  },
+  bulk: {
+    action: null,
+    running: false,
+    total: 0,
+    completed: 0,
+    failures: [],
+  },
+}
+
+const addUnique = (values: string[], additions: string[]) => [...new Set([...values, ...additions])]
+
+// Apply one bulk action to a single page; resolves with the updated page, or null once deleted
+const applyBulkAction = async (page: Page, action: PageBulkAction): Promise<Page | null> => {
+  const options = { silent: true }
+  if (action.type === 'delete') {
+    await pagesAPI.delete(page._id, options)
+    return null
+  }
+  if (action.type === 'setStatus') {
+    const response = await pagesAPI.updateStatus(page._id, action.status, undefined, options)
+    return response.data
+  }
+
+  // Field edits go through the full update endpoint, so start from the latest saved version
+  const { data: current } = await pagesAPI.getById(page._id, options)
+  let changes: Partial<Page>
+  switch (action.type) {
+    case 'addGroups':
+      changes = { groups: addUnique(current.groups, action.groups) }
+      break
+    case 'removeGroups':
+      changes = { groups: current.groups.filter(group => !action.groups.includes(group)) }
+      break
+    case 'addTags':
+      changes = { tags: addUnique(current.tags, action.tags) }
+      break
+    case 'removeTags':
+      changes = { tags: current.tags.filter(tag => !action.tags.includes(tag)) }
+      break
+    case 'setPopular':
+      changes = { popular: action.popular }
+      break
+  }
+  const response = await pagesAPI.update(page._id, { ...current, ...changes }, options)
+  return response.data
 }
 
 // Async thunks
 export const fetchPages = createAsyncThunk(
   'pages/fetchPages',
-  async ({ page = 1, pageSize = 10, search = '', group = '' }: { page?: number; pageSize?: number; search?: string; group?: string }) => {
+  async ({ page = 1, pageSize = 10, search = '', group = '', status = '' }: { page?: number; pageSize?: number; search?: string; group?: string; status?: PageStatus | '' }) => {
     const params: any = { page, limit: pageSize }
     if (search) params.search = search
     if (group) params.group = group
+    if (status) params.status = status
     
     const response = await pagesAPI.getAll(params)
     return {
@@ -46,6 +114,7 @@ export const fetchPages = createAsyncThunk(
       pagination: response.data.pagination,
       searchTerm: search,
       groupFilter: group,
+      statusFilter: status,
     }
   }
 )
@@ -74,6 +143,50 @@ export const updatePage = createAsyncThunk(
   }
 )
 
+export const changePageStatus = createAsyncThunk(
+  'pages/changePageStatus',
+  async ({ id, status, publishAt }: { id: string; status: PageStatus; publishAt?: string }) => {
+    const response = await pagesAPI.updateStatus(id, status, publishAt)
+    return response.data
+  }
+)
+
+export const fetchPageRevisions = createAsyncThunk(
+  'pages/fetchPageRevisions',
+  async (pageId: string) => {
+    const response = await pagesAPI.getRevisions(pageId)
+    return { pageId, revisions: response.data }
+  }
+)
+
+// Runs page by page so one failure does not stop the rest; progress is tracked in state.bulk
+export const runBulkPageAction = createAsyncThunk(
+  'pages/runBulkPageAction',
+  async ({ pages, action }: { pages: Page[]; action: PageBulkAction }, { dispatch }) => {
+    const succeededIds: string[] = []
+    for (const page of pages) {
+      try {
+        const updated = await applyBulkAction(page, action)
+        dispatch(bulkItemSucceeded({ id: page._id, page: updated }))
+        succeededIds.push(page._id)
+      } catch (error: any) {
+        dispatch(
+          bulkItemFailed({
+            id: page._id,
+            title: page.title,
+            message: error.response?.data?.message || error.message || 'Unknown error',
+          })
+        )
+      }
+    }
+    return {
+      succeeded: succeededIds.length,
+      failed: pages.length - succeededIds.length,
+      succeededIds,
+    }
+  }
+)
+
 const pagesSlice = createSlice({
   name: 'pages',
   initialState,
@@ -86,6 +199,10 @@ const pagesSlice = createSlice({
       state.groupFilter = action.payload
       state.pagination.page = 1 // Reset to first page when filtering
     },
+    setStatusFilter: (state, action: PayloadAction<PageStatus | ''>) => {
+      state.statusFilter = action.payload
+      state.pagination.page = 1 // Reset to first page when filtering
+    },
     setPagination: (state, action: PayloadAction<{ page: number; pageSize: number }>) => {
       state.pagination.page = action.payload.page
       state.pagination.pageSize = action.payload.pageSize
@@ -97,6 +214,33 @@ const pagesSlice = createSlice({
     forceRefresh: (state) => {
       state.lastFetched = null
     },
+    clearRevisions: (state) => {
+      state.revisions = initialState.revisions
+    },
+    bulkItemSucceeded: (state, action: PayloadAction<{ id: string; page: Page | null }>) => {
+      state.bulk.completed += 1
+      const index = state.items.findIndex(page => page._id === action.payload.id)
+      if (index === -1) return
+      const updated = action.payload.page
+      // Drop rows that were deleted or no longer match the active filters
+      const stillListed =
+        updated &&
+        (!state.statusFilter || state.statusFilter === updated.status) &&
+        (!state.groupFilter || updated.groups.includes(state.groupFilter))
+      if (stillListed) {
+        state.items[index] = updated
+      } else {
+        state.items.splice(index, 1)
+        state.pagination.totalItems -= 1
+      }
+    },
+    bulkItemFailed: (state, action: PayloadAction<PageBulkFailure>) => {
+      state.bulk.completed += 1
+      state.bulk.failures.push(action.payload)
+    },
+    clearBulkResult: (state) => {
+      state.bulk = initialState.bulk
+    },
   },
   extraReducers: (builder) => {
     builder
@@ -117,6 +261,7 @@ const pagesSlice = createSlice({
         }
         state.searchTerm = action.payload.searchTerm
         state.groupFilter = action.payload.groupFilter
+        state.statusFilter = action.payload.statusFilter
         state.lastFetched = Date.now()
       })
       .addCase(fetchPages.rejected, (state, action) => {
@@ -131,12 +276,75 @@ const pagesSlice = createSlice({
         // Invalidate cache so the list refetches data
         state.lastFetched = null
       })
-      .addCase(updatePage.fulfilled, (state) => {
+      .addCase(updatePage.fulfilled, (state, action) => {
         // Invalidate cache so the list refetches data
         state.lastFetched = null
+        // A save creates a new revision on the server, so refetch next time the panel opens
+        if (state.revisions.pageId === action.meta.arg.id) {
+          state.revisions.pageId = null
+        }
+      })
+      .addCase(fetchPageRevisions.pending, (state, action) => {
+        // Keep showing cached revisions while refreshing the same page
+        state.revisions.loading = state.revisions.pageId !== action.meta.arg
+        state.revisions.error = null
+      })
+      .addCase(fetchPageRevisions.fulfilled, (state, action) => {
+        state.revisions.loading = false
+        state.revisions.pageId = action.payload.pageId
+        state.revisions.items = action.payload.revisions
+      })
+      .addCase(fetchPageRevisions.rejected, (state, action) => {
+        state.revisions.loading = false
+        state.revisions.error = action.error.message || 'Failed to fetch revisions'
+      })
+      .addCase(runBulkPageAction.pending, (state, action) => {
+        state.bulk = {
+          action: action.meta.arg.action,
+          running: true,
+          total: action.meta.arg.pages.length,
+          completed: 0,
+          failures: [],
+        }
+      })
+      .addCase(runBulkPageAction.fulfilled, (state) => {
+        state.bulk.running = false
+        // Refetch so the current page refills after rows were removed
+        state.lastFetched = null
+      })
+      .addCase(runBulkPageAction.rejected, (state) => {
+        state.bulk.running = false
+        state.lastFetched = null
+      })
+      .addCase(changePageStatus.fulfilled, (state, action) => {
+        const index = state.items.findIndex(page => page._id === action.payload._id)
+        if (index === -1) return
+        // Drop the row if it no longer matches the active status filter
+        if (state.statusFilter && state.statusFilter !== action.payload.status) {
+          state.items.splice(index, 1)
+          state.pagination.totalItems -= 1
+        } else {
+          state.items[index] = action.payload
+        }
+      })
+
+      // Restoring from the trash puts an item back in this list
+      .addCase(restoreTrashItem.fulfilled, (state, action) => {
+        if (action.payload.type === 'pages') state.lastFetched = null
       })
   },
 })
 
-export const { setSearchTerm, setGroupFilter, setPagination, clearPages, forceRefresh } = pagesSlice.actions
+export const {
+  setSearchTerm,
+  setGroupFilter,
+  setStatusFilter,
+  setPagination,
+  clearPages,
+  forceRefresh,
+  clearRevisions,
+  bulkItemSucceeded,
+  bulkItemFailed,
+  clearBulkResult,
+} = pagesSlice.actions
 export default pagesSlice.reducer
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
 import { playlistsAPI } from '../../services/api'
+import { restoreTrashItem } from './trashSlice'
 import type { Playlist } from '../../types'
 
 interface PlaylistsState {
@@ -247,6 +248,11 @@ const playlistsSlice = createSlice({
         state.loading = false
         state.error = action.error.message || 'Failed to remove track from playlist'
       })
+
+      // Restoring from the trash puts an item back in this list
+      .addCase(restoreTrashItem.fulfilled, (state, action) => {
+        if (action.payload.type === 'playlists') state.lastFetched = null
+      })
   },
 })
 
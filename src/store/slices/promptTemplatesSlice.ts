@@ -0,0 +1,102 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit'
+import { promptTemplatesAPI } from '../../services/api'
+import type { PromptTemplate, CreatePromptTemplateData } from '../../types'
+
+interface PromptTemplatesState {
+  items: PromptTemplate[]
+  loading: boolean
+  error: string | null
+  lastFetched: number | null // timestamp for caching
+}
+
+const initialState: PromptTemplatesState = {
+  items: [],
+  loading: false,
+  error: null,
+  lastFetched: null,
+}
+
+// Async thunks
+export const fetchPromptTemplates = createAsyncThunk(
+  'promptTemplates/fetchPromptTemplates',
+  async () => {
+    const response = await promptTemplatesAPI.getAll()
+    return response.data
+  }
+)
+
+export const createPromptTemplate = createAsyncThunk(
+  'promptTemplates/createPromptTemplate',
+  async (templateData: CreatePromptTemplateData) => {
+    const response = await promptTemplatesAPI.create(templateData)
+    return response.data
+  }
+)
+
+export const updatePromptTemplate = createAsyncThunk(
+  'promptTemplates/updatePromptTemplate',
+  async ({ id, templateData }: { id: string; templateData: CreatePromptTemplateData }) => {
+    const response = await promptTemplatesAPI.update(id, templateData)
+    return response.data
+  }
+)
+
+export const deletePromptTemplate = createAsyncThunk(
+  'promptTemplates/deletePromptTemplate',
+  async (id: string) => {
+    await promptTemplatesAPI.delete(id)
+    return id
+  }
+)
+
+// Only one default per content type
+const applyDefault = (items: PromptTemplate[], template: PromptTemplate) => {
+  if (!template.isDefault) return
+  items.forEach(item => {
+    if (item._id !== template._id && item.contentType === template.contentType) {
+      item.isDefault = false
+    }
+  })
+}
+
+const promptTemplatesSlice = createSlice({
+  name: 'promptTemplates',
+  initialState,
+  reducers: {
+    forceRefresh: (state) => {
+      state.lastFetched = null
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchPromptTemplates.pending, (state) => {
+        // Only show loading if we don't have cached data
+        state.loading = state.items.length === 0
+        state.error = null
+      })
+      .addCase(fetchPromptTemplates.fulfilled, (state, action) => {
+        state.loading = false
+        state.items = action.payload
+        state.lastFetched = Date.now()
+      })
+      .addCase(fetchPromptTemplates.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || 'Failed to fetch prompt templates'
+      })
+      .addCase(createPromptTemplate.fulfilled, (state, action) => {
+        state.items.push(action.payload)
+        applyDefault(state.items, action.payload)
+      })
+      .addCase(updatePromptTemplate.fulfilled, (state, action) => {
+        const index = state.items.findIndex(item => item._id === action.payload._id)
+        if (index !== -1) state.items[index] = action.payload
+        applyDefault(state.items, action.payload)
+      })
+      .addCase(deletePromptTemplate.fulfilled, (state, action) => {
+        state.items = state.items.filter(item => item._id !== action.payload)
+      })
+  },
+})
+
+export const { forceRefresh } = promptTemplatesSlice.actions
+export default promptTemplatesSlice.reducer
@@ -0,0 +1,106 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit'
+import { redirectsAPI } from '../../services/api'
+import type { CreateRedirectData, Redirect } from '../../types'
+import { updatePage } from './pagesSlice'
+
+interface RedirectsState {
+  items: Redirect[]
+  loading: boolean
+  error: string | null
+  lastFetched: number | null // timestamp for caching
+}
+
+const initialState: RedirectsState = {
+  items: [],
+  loading: false,
+  error: null,
+  lastFetched: null,
+}
+
+// Async thunks
+export const fetchRedirects = createAsyncThunk(
+  'redirects/fetchRedirects',
+  async () => {
+    const response = await redirectsAPI.getAll()
+    return response.data
+  }
+)
+
+export const createRedirect = createAsyncThunk(
+  'redirects/createRedirect',
+  async (redirectData: CreateRedirectData) => {
+    const response = await redirectsAPI.create(redirectData)
+    return response.data
+  }
+)
+
+export const updateRedirect = createAsyncThunk(
+  'redirects/updateRedirect',
+  async ({ id, redirectData }: { id: string; redirectData: CreateRedirectData }) => {
+    const response = await redirectsAPI.update(id, redirectData)
+    return response.data
+  }
+)
+
+export const deleteRedirect = createAsyncThunk(
+  'redirects/deleteRedirect',
+  async (id: string) => {
+    await redirectsAPI.delete(id)
+    return id
+  }
+)
+
+export const importRedirects = createAsyncThunk(
+  'redirects/importRedirects',
+  async (rules: CreateRedirectData[]) => {
+    const response = await redirectsAPI.bulkImport(rules)
+    return response.data
+  }
+)
+
+const redirectsSlice = createSlice({
+  name: 'redirects',
+  initialState,
+  reducers: {
+    forceRefresh: (state) => {
+      state.lastFetched = null
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchRedirects.pending, (state) => {
+        // Only show loading if we don't have cached data
+        state.loading = state.items.length === 0
+        state.error = null
+      })
+      .addCase(fetchRedirects.fulfilled, (state, action) => {
+        state.loading = false
+        state.items = action.payload
+        state.lastFetched = Date.now()
+      })
+      .addCase(fetchRedirects.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || 'Failed to fetch redirects'
+      })
+      .addCase(createRedirect.fulfilled, (state, action) => {
+        state.items.unshift(action.payload)
+      })
+      .addCase(updateRedirect.fulfilled, (state, action) => {
+        const index = state.items.findIndex(item => item._id === action.payload._id)
+        if (index !== -1) state.items[index] = action.payload
+      })
+      .addCase(deleteRedirect.fulfilled, (state, action) => {
+        state.items = state.items.filter(item => item._id !== action.payload)
+      })
+      .addCase(importRedirects.fulfilled, (state) => {
+        state.lastFetched = null
+      })
+      // A slug change adds and repoints rules on the server; reload the list next time it is shown
+      .addCase(updatePage.fulfilled, (state) => {
+        state.lastFetched = null
+      })
+  },
+})
+
+export const { forceRefresh } = redirectsSlice.actions
+export default redirectsSlice.reducer
@@ -0,0 +1,90 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit'
+import { replyTemplatesAPI } from '../../services/api'
+import type { ReplyTemplate, CreateReplyTemplateData } from '../../types'
+
+interface ReplyTemplatesState {
+  items: ReplyTemplate[]
+  loading: boolean
+  error: string | null
+  lastFetched: number | null // timestamp for caching
+}
+
+const initialState: ReplyTemplatesState = {
+  items: [],
+  loading: false,
+  error: null,
+  lastFetched: null,
+}
+
+// Async thunks
+export const fetchReplyTemplates = createAsyncThunk(
+  'replyTemplates/fetchReplyTemplates',
+  async () => {
+    const response = await replyTemplatesAPI.getAll()
+    return response.data
+  }
+)
+
+export const createReplyTemplate = createAsyncThunk(
+  'replyTemplates/createReplyTemplate',
+  async (templateData: CreateReplyTemplateData) => {
+    const response = await replyTemplatesAPI.create(templateData)
+    return response.data
+  }
+)
+
+export const updateReplyTemplate = createAsyncThunk(
+  'replyTemplates/updateReplyTemplate',
+  async ({ id, templateData }: { id: string; templateData: CreateReplyTemplateData }) => {
+    const response = await replyTemplatesAPI.update(id, templateData)
+    return response.data
+  }
+)
+
+export const deleteReplyTemplate = createAsyncThunk(
+  'replyTemplates/deleteReplyTemplate',
+  async (id: string) => {
+    await replyTemplatesAPI.delete(id)
+    return id
+  }
+)
+
+const replyTemplatesSlice = createSlice({
+  name: 'replyTemplates',
+  initialState,
+  reducers: {
+    forceRefresh: (state) => {
+      state.lastFetched = null
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchReplyTemplates.pending, (state) => {
+        // Only show loading if we don't have cached data
+        state.loading = state.items.length === 0
+        state.error = null
+      })
+      .addCase(fetchReplyTemplates.fulfilled, (state, action) => {
+        state.loading = false
+        state.items = action.payload
+        state.lastFetched = Date.now()
+      })
+      .addCase(fetchReplyTemplates.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || 'Failed to fetch reply templates'
+      })
+      .addCase(createReplyTemplate.fulfilled, (state, action) => {
+        state.items.push(action.payload)
+      })
+      .addCase(updateReplyTemplate.fulfilled, (state, action) => {
+        const index = state.items.findIndex(item => item._id === action.payload._id)
+        if (index !== -1) state.items[index] = action.payload
+      })
+      .addCase(deleteReplyTemplate.fulfilled, (state, action) => {
+        state.items = state.items.filter(item => item._id !== action.payload)
+      })
+  },
+})
+
+export const { forceRefresh } = replyTemplatesSlice.actions
+export default replyTemplatesSlice.reducer
@@ -0,0 +1,105 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit'
+import { taxonomyAPI } from '../../services/api'
+import type { TaxonomyTerm, TaxonomyTermData } from '../../types'
+
+interface TaxonomyState {
+  items: TaxonomyTerm[]
+  loading: boolean
+  error: string | null
+  lastFetched: number | null // timestamp for caching
+}
+
+const initialState: TaxonomyState = {
+  items: [],
+  loading: false,
+  error: null,
+  lastFetched: null,
+}
+
+// Async thunks
+export const fetchTerms = createAsyncThunk(
+  'taxonomy/fetchTerms',
+  async () => {
+    const response = await taxonomyAPI.getAll()
+    return response.data
+  }
+)
+
+export const createTerm = createAsyncThunk(
+  'taxonomy/createTerm',
+  async (termData: TaxonomyTermData) => {
+    const response = await taxonomyAPI.create(termData)
+    return response.data
+  }
+)
+
+export const updateTerm = createAsyncThunk(
+  'taxonomy/updateTerm',
+  async ({ id, termData }: { id: string; termData: Pick<TaxonomyTermData, 'name' | 'synonyms'> }) => {
+    const response = await taxonomyAPI.update(id, termData)
+    return response.data
+  }
+)
+
+export const mergeTerm = createAsyncThunk(
+  'taxonomy/mergeTerm',
+  async ({ id, targetId }: { id: string; targetId: string }) => {
+    const response = await taxonomyAPI.merge(id, targetId)
+    return { sourceId: id, target: response.data }
+  }
+)
+
+export const deleteTerm = createAsyncThunk(
+  'taxonomy/deleteTerm',
+  async ({ id, reassignTo }: { id: string; reassignTo: string | null }) => {
+    await taxonomyAPI.delete(id, reassignTo)
+    return { id, reassignTo }
+  }
+)
+
+const taxonomySlice = createSlice({
+  name: 'taxonomy',
+  initialState,
+  reducers: {
+    forceRefresh: (state) => {
+      state.lastFetched = null
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchTerms.pending, (state) => {
+        // Only show loading if we don't have cached data
+        state.loading = state.items.length === 0
+        state.error = null
+      })
+      .addCase(fetchTerms.fulfilled, (state, action) => {
+        state.loading = false
+        state.items = action.payload
+        state.lastFetched = Date.now()
+      })
+      .addCase(fetchTerms.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || 'Failed to fetch tags and categories'
+      })
+      .addCase(createTerm.fulfilled, (state, action) => {
+        state.items.push(action.payload)
+      })
+      .addCase(updateTerm.fulfilled, (state, action) => {
+        const index = state.items.findIndex(item => item._id === action.payload._id)
+        if (index !== -1) state.items[index] = action.payload
+      })
+      .addCase(mergeTerm.fulfilled, (state, action) => {
+        state.items = state.items
+          .filter(item => item._id !== action.payload.sourceId)
+          .map(item => (item._id === action.payload.target._id ? action.payload.target : item))
+      })
+      .addCase(deleteTerm.fulfilled, (state, action) => {
+        state.items = state.items.filter(item => item._id !== action.payload.id)
+        // Usage counts of the reassignment target changed; reload them
+        if (action.payload.reassignTo) state.lastFetched = null
+      })
+  },
+})
+
+export const { forceRefresh } = taxonomySlice.actions
+export default taxonomySlice.reducer
@@ -1,5 +1,6 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
 import { tracksAPI } from '../../services/api'
+import { restoreTrashItem } from './trashSlice'
 import type { Track } from '../../types'
 
 interface TracksState {
@@ -187,6 +188,11 @@ const tracksSlice = createSlice({
         state.loading = false
         state.error = action.error.message || 'Failed to delete track'
       })
+
+      // Restoring from the trash puts an item back in this list
+      .addCase(restoreTrashItem.fulfilled, (state, action) => {
+        if (action.payload.type === 'tracks') state.lastFetched = null
+      })
   },
 })
 
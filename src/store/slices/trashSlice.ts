@@ -0,0 +1,128 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit'
+import { trashAPI } from '../../services/api'
+import type { TrashItem, TrashSettings, TrashType } from '../../types'
+
+interface TrashState {
+  // Content type the items belong to; the trash view shows one type at a time
+  type: TrashType | null
+  items: TrashItem[]
+  loading: boolean
+  error: string | null
+  settings: TrashSettings | null
+}
+
+const initialState: TrashState = {
+  type: null,
+  items: [],
+  loading: false,
+  error: null,
+  settings: null,
+}
+
+// Async thunks
+export const fetchTrash = createAsyncThunk(
+  'trash/fetchTrash',
+  async (type: TrashType) => {
+    const response = await trashAPI.getAll(type)
+    return response.data
+  }
+)
+
+// List slices listen for this to refetch the restored item.
+// silent is for restoring many at once, where the caller reports a single result
+export const restoreTrashItem = createAsyncThunk(
+  'trash/restoreTrashItem',
+  async ({ type, id, silent }: { type: TrashType; id: string; silent?: boolean }) => {
+    await trashAPI.restore(type, id, { silent })
+    return { type, id }
+  }
+)
+
+export const purgeTrashItem = createAsyncThunk(
+  'trash/purgeTrashItem',
+  async ({ type, id }: { type: TrashType; id: string }) => {
+    await trashAPI.purge(type, id)
+    return { type, id }
+  }
+)
+
+export const emptyTrash = createAsyncThunk(
+  'trash/emptyTrash',
+  async (type: TrashType) => {
+    await trashAPI.empty(type)
+    return type
+  }
+)
+
+export const fetchTrashSettings = createAsyncThunk(
+  'trash/fetchTrashSettings',
+  async () => {
+    const response = await trashAPI.getSettings()
+    return response.data
+  }
+)
+
+export const updateTrashSettings = createAsyncThunk(
+  'trash/updateTrashSettings',
+  async (settings: TrashSettings) => {
+    const response = await trashAPI.updateSettings(settings)
+    return response.data
+  }
+)
+
+const trashSlice = createSlice({
+  name: 'trash',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch trash
+      .addCase(fetchTrash.pending, (state, action) => {
+        state.loading = true
+        state.error = null
+        if (state.type !== action.meta.arg) {
+          state.type = action.meta.arg
+          state.items = []
+        }
+      })
+      .addCase(fetchTrash.fulfilled, (state, action) => {
+        // Ignore a slow response for a type the user already switched away from
+        if (state.type !== action.meta.arg) return
+        state.loading = false
+        state.items = action.payload
+      })
+      .addCase(fetchTrash.rejected, (state, action) => {
+        if (state.type !== action.meta.arg) return
+        state.loading = false
+        state.error = action.error.message || 'Failed to fetch trash'
+      })
+
+      // Restore and purge take the item out of the trash either way
+      .addCase(restoreTrashItem.fulfilled, (state, action) => {
+        state.items = state.items.filter(item => item._id !== action.payload.id)
+      })
+      .addCase(purgeTrashItem.fulfilled, (state, action) => {
+        state.items = state.items.filter(item => item._id !== action.payload.id)
+      })
+      .addCase(emptyTrash.fulfilled, (state, action) => {
+        if (state.type === action.payload) {
+          state.items = []
+        }
+      })
+
+      // Settings
+      .addCase(fetchTrashSettings.fulfilled, (state, action) => {
+        state.settings = action.payload
+      })
+      .addCase(updateTrashSettings.fulfilled, (state, action) => {
+        state.settings = action.payload
+      })
+  },
+})
+
+export const { clearError } = trashSlice.actions
+export default trashSlice.reducer
@@ -0,0 +1,183 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
+import { usersAPI } from '../../services/api'
+import type { User, UserRole, InviteUserData } from '../../types'
+
+interface UsersState {
+  items: User[]
+  loading: boolean
+  error: string | null
+  pagination: {
+    page: number
+    pageSize: number
+    totalItems: number
+    totalPages: number
+  }
+  searchTerm: string
+  roleFilter: UserRole | ''
+  lastFetched: number | null // timestamp for caching
+}
+
+const initialState: UsersState = {
+  items: [],
+  loading: false,
+  error: null,
+  pagination: {
+    page: 1,
+    pageSize: 10,
+    totalItems: 0,
+    totalPages: 0,
+  },
+  searchTerm: '',
+  roleFilter: '',
+  lastFetched: null,
+}
+
+// Async thunks
+export const fetchUsers = createAsyncThunk(
+  'users/fetchUsers',
+  async ({
+    page = 1,
+    pageSize = 10,
+    search = '',
+    role = '',
+  }: { page?: number; pageSize?: number; search?: string; role?: UserRole | '' }) => {
+    const response = await usersAPI.getAll({
+      page,
+      limit: pageSize,
+      search: search || undefined,
+      role: role || undefined,
+    })
+    return {
+      users: response.data.users || [],
+      pagination: response.data.pagination,
+      searchTerm: search,
+      roleFilter: role,
+    }
+  }
+)
+
+export const inviteUser = createAsyncThunk(
+  'users/inviteUser',
+  async (userData: InviteUserData) => {
+    const response = await usersAPI.invite(userData)
+    return response.data
+  }
+)
+
+export const resendInvite = createAsyncThunk(
+  'users/resendInvite',
+  async (id: string) => {
+    const response = await usersAPI.resendInvite(id)
+    return response.data
+  }
+)
+
+export const updateUserRole = createAsyncThunk(
+  'users/updateUserRole',
+  async ({ id, role }: { id: string; role: UserRole }) => {
+    const response = await usersAPI.updateRole(id, role)
+    return response.data
+  }
+)
+
+export const setUserActive = createAsyncThunk(
+  'users/setUserActive',
+  async ({ id, active }: { id: string; active: boolean }) => {
+    const response = await usersAPI.setActive(id, active)
+    return response.data
+  }
+)
+
+export const resetUserPassword = createAsyncThunk(
+  'users/resetUserPassword',
+  async (id: string) => {
+    await usersAPI.resetPassword(id)
+    return id
+  }
+)
+
+const replaceUser = (state: UsersState, user: User) => {
+  const index = state.items.findIndex(item => item._id === user._id)
+  if (index !== -1) {
+    state.items[index] = user
+  }
+}
+
+const usersSlice = createSlice({
+  name: 'users',
+  initialState,
+  reducers: {
+    setSearchTerm: (state, action: PayloadAction<string>) => {
+      state.searchTerm = action.payload
+      state.pagination.page = 1 // Reset to first page when searching
+    },
+    setRoleFilter: (state, action: PayloadAction<UserRole | ''>) => {
+      state.roleFilter = action.payload
+      state.pagination.page = 1
+      state.lastFetched = null
+    },
+    setPagination: (state, action: PayloadAction<{ page: number; pageSize: number }>) => {
+      state.pagination.page = action.payload.page
+      state.pagination.pageSize = action.payload.pageSize
+    },
+    clearError: (state) => {
+      state.error = null
+    },
+    forceRefresh: (state) => {
+      state.lastFetched = null
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchUsers.pending, (state) => {
+        // Only show loading if we don't have cached data
+        state.loading = state.items.length === 0
+        state.error = null
+      })
+      .addCase(fetchUsers.fulfilled, (state, action) => {
+        state.loading = false
+        state.items = action.payload.users
+        state.pagination = {
+          page: state.pagination.page,
+          pageSize: state.pagination.pageSize,
+          totalItems: action.payload.pagination.totalItems,
+          totalPages: action.payload.pagination.totalPages,
+        }
+        state.searchTerm = action.payload.searchTerm
+        state.roleFilter = action.payload.roleFilter
+        state.lastFetched = Date.now()
+      })
+      .addCase(fetchUsers.rejected, (state, action) => {
+        state.loading = false
+        state.error = action.error.message || 'Failed to fetch users'
+      })
+      .addCase(inviteUser.fulfilled, (state) => {
+        // Refetch so the invited user lands in the right page and sort position
+        state.lastFetched = null
+      })
+      .addCase(inviteUser.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to invite user'
+      })
+      .addCase(resendInvite.fulfilled, (state, action) => {
+        replaceUser(state, action.payload)
+      })
+      .addCase(updateUserRole.fulfilled, (state, action) => {
+        replaceUser(state, action.payload)
+      })
+      .addCase(updateUserRole.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to update role'
+      })
+      .addCase(setUserActive.fulfilled, (state, action) => {
+        replaceUser(state, action.payload)
+      })
+      .addCase(setUserActive.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to update user status'
+      })
+      .addCase(resetUserPassword.rejected, (state, action) => {
+        state.error = action.error.message || 'Failed to reset password'
+      })
+  },
+})
+
+export const { setSearchTerm, setRoleFilter, setPagination, clearError, forceRefresh } = usersSlice.actions
+export default usersSlice.reducer
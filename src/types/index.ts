@@ -1,3 +1,5 @@
+export type PageStatus = 'draft' | 'in_review' | 'scheduled' | 'published' | 'archived';
+
 export interface Page {
   _id: string;
   title: string;
@@ -15,10 +17,43 @@ export interface Page {
   tags: string[];
   category?: string;
   readTime?: number;
+  status: PageStatus;
+  publishAt?: string;
+  publishedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Bulk edits from the pages grid; each one runs page by page against the single-item endpoints
+export type PageBulkAction =
+  | { type: 'delete' }
+  | { type: 'addGroups'; groups: string[] }
+  | { type: 'removeGroups'; groups: string[] }
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'removeTags'; tags: string[] }
+  | { type: 'setPopular'; popular: boolean }
+  | { type: 'setStatus'; status: PageStatus };
+
+export interface PageBulkFailure {
+  id: string;
+  title: string;
+  message: string;
+}
+
+export interface PageRevision {
+  _id: string;
+  pageId: string;
+  title: string;
+  description?: string;
+  content: string;
+  metaTitle?: string;
+  metaDescription?: string;
+  metaKeywords?: string;
+  status?: PageStatus;
+  createdBy?: string;
+  createdAt: string;
+}
+
 export interface Track {
   _id: string;
   title?: string;
@@ -51,16 +86,96 @@ export interface Playlist {
   updatedAt: string;
 }
 
+export type ContactStatus = 'new' | 'contacted' | 'qualified' | 'closed';
+
+export interface ContactAssignee {
+  _id: string;
+  username: string;
+}
+
+export interface ContactNote {
+  _id: string;
+  body: string;
+  author?: string;
+  createdAt: string;
+}
+
+// Where a submission came from: the site page holding the form, or just the URL
+export interface ContactSource {
+  pageId?: string;
+  pageTitle?: string;
+  pageSlug?: string;
+  url?: string;
+  referrer?: string;
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+}
+
+export interface ContactStatusChange {
+  _id?: string;
+  from?: ContactStatus | null;
+  to: ContactStatus;
+  changedBy?: string;
+  changedAt: string;
+}
+
 export interface Contact {
   _id: string;
   name: string;
   email: string;
   mobile: string;
   description: string;
+  // Any extra form fields beyond the standard ones, as submitted
+  fields?: Record<string, string>;
+  source?: ContactSource;
+  status?: ContactStatus;
+  statusHistory?: ContactStatusChange[];
+  assignee?: ContactAssignee | null;
+  notes?: ContactNote[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContactReply {
+  _id: string;
+  contactId: string;
+  subject: string;
+  body: string;
+  to: string;
+  sentBy?: string;
+  sentAt: string;
+}
+
+export interface SendContactReplyData {
+  subject: string;
+  body: string;
+}
+
+export interface ReplyTemplate {
+  _id: string;
+  name: string;
+  subject: string;
+  body: string;
+  builtIn?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CreateReplyTemplateData {
+  name: string;
+  subject: string;
+  body: string;
+}
+
+export interface ContactFilters {
+  search: string;
+  status: ContactStatus | '';
+  assignee: string; // user id, 'unassigned' or '' for everyone
+  createdFrom: string; // YYYY-MM-DD, inclusive
+  createdTo: string; // YYYY-MM-DD, inclusive
+}
+
 export interface Image {
   public_id: string;
   secure_url: string;
@@ -104,10 +219,14 @@ export interface CreatePageData {
   tags: string[];
   category?: string;
   readTime?: number;
+  status?: PageStatus;
+  publishAt?: string;
 }
 
 export interface UpdatePageData extends CreatePageData {
   _id: string;
+  // Let a slug change take over the path of a redirect rule that was not created by a slug change
+  replaceRedirect?: boolean;
 }
 
 export interface CreateTrackData {
@@ -143,12 +262,223 @@ export interface UpdatePlaylistData extends CreatePlaylistData {
   _id: string;
 }
 
+export type PromptContentType = 'page' | 'track';
+
+export interface PromptTemplate {
+  _id: string;
+  name: string;
+  description?: string;
+  contentType: PromptContentType;
+  body: string;
+  version: number;
+  isDefault?: boolean;
+  builtIn?: boolean; // Shipped with the admin, not editable
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export interface CreatePromptTemplateData {
+  name: string;
+  description?: string;
+  contentType: PromptContentType;
+  body: string;
+  isDefault?: boolean;
+}
+
+// A section of the site that pages can be filed under (blogs, case studies...)
+export interface PageGroup {
+  _id: string;
+  slug: string;
+  name: string;
+  description?: string;
+  heroImageUrl?: string;
+  order: number;
+  pageCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatePageGroupData {
+  name: string;
+  slug: string;
+  description?: string;
+  heroImageUrl?: string;
+}
+
+export interface PageGroupMergeResult {
+  target: PageGroup;
+  movedPages: number;
+}
+
+export type TaxonomyKind = 'tag' | 'category';
+
+export interface TaxonomyUsage {
+  pages: number;
+  tracks: number;
+  playlists: number;
+}
+
+// A canonical tag or category; synonyms are other spellings that resolve to it
+export interface TaxonomyTerm {
+  _id: string;
+  kind: TaxonomyKind;
+  name: string;
+  synonyms: string[];
+  usage: TaxonomyUsage;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaxonomyTermData {
+  kind: TaxonomyKind;
+  name: string;
+  synonyms: string[];
+}
+
+export type RedirectStatusCode = 301 | 302;
+
+// Where a redirect came from: typed in the admin, created by a slug change, or bulk imported
+export type RedirectSource = 'manual' | 'slug-change' | 'import';
+
+export interface Redirect {
+  _id: string;
+  from: string;
+  to: string;
+  statusCode: RedirectStatusCode;
+  source: RedirectSource;
+  hits?: number;
+  lastHitAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateRedirectData {
+  from: string;
+  to: string;
+  statusCode: RedirectStatusCode;
+  source?: RedirectSource;
+}
+
+export interface RedirectImportResult {
+  created: number;
+  updated: number;
+  failures: { from: string; message: string }[];
+}
+
+export interface SlugAvailability {
+  available: boolean;
+  // The page that already uses the slug
+  conflict?: { _id: string; title: string };
+  // The redirect rule from the slug's path, which the page would take over
+  redirect?: Pick<Redirect, '_id' | 'from' | 'to' | 'source'>;
+}
+
+// Content types that are moved to the trash instead of being deleted outright
+export type TrashType = 'pages' | 'tracks' | 'playlists' | 'contacts';
+
+export interface TrashItem {
+  _id: string;
+  type: TrashType;
+  // Page, track or playlist title, or the contact's name
+  title: string;
+  // Slug, author or email, whatever tells similar items apart
+  subtitle?: string;
+  deletedAt: string;
+  deletedBy?: { _id: string; username: string };
+}
+
+export interface TrashSettings {
+  // Days an item stays in the trash before the server purges it for good
+  retentionDays: number;
+}
+
+// Items created on one calendar day, counted by the server
+export interface DailyCreatedCounts {
+  date: string; // YYYY-MM-DD in the requested time zone
+  pages: number;
+  tracks: number;
+  playlists: number;
+  contacts: number;
+}
+
+export type UserRole = 'admin' | 'editor' | 'author' | 'viewer';
+
+export type Permission =
+  | 'pages.create'
+  | 'pages.edit'
+  | 'pages.publish'
+  | 'pages.delete'
+  | 'tracks.edit'
+  | 'tracks.delete'
+  | 'playlists.edit'
+  | 'playlists.delete'
+  | 'contacts.view'
+  | 'contacts.edit'
+  | 'contacts.delete'
+  | 'media.upload'
+  | 'media.delete'
+  | 'promptTemplates.manage'
+  | 'groups.manage'
+  | 'taxonomy.manage'
+  | 'redirects.manage'
+  | 'trash.manage'
+  | 'users.manage';
+
+export type UserStatus = 'active' | 'invited' | 'deactivated';
+
+export interface User {
+  _id: string;
+  username: string;
+  email: string;
+  role: UserRole;
+  status: UserStatus;
+  lastLoginAt?: string;
+  invitedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InviteUserData {
+  email: string;
+  username?: string;
+  role: UserRole;
+}
+
+// The signed-in account as returned by /auth/login and /auth/verify
+export interface AuthUser {
+  id: string;
+  username: string;
+  email: string;
+  role: string; // unknown roles are treated as viewer
+}
+
+export type SessionStatus = 'active' | 'expiring' | 'expired';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode?: string; // image data URL, when the server renders one
+}
+
 export interface PaginatedResponse<T> {
   success: boolean;
   data: {
     pages: T[];
     tracks?: T[];
     playlists?: T[];
+    users?: T[];
     pagination: {
       currentPage: number;
       totalPages: number;
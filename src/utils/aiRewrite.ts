@@ -0,0 +1,56 @@
+import { TONE_OPTIONS } from './promptTemplates'
+
+export type AIRewriteActionId = 'rewrite' | 'shorten' | 'expand' | 'grammar' | 'tone' | 'translate' | 'summarize'
+
+export interface AIRewriteAction {
+  id: AIRewriteActionId
+  label: string
+  // Actions with options (tone, language) open a second menu before running
+  options?: Array<{ value: string; label: string }>
+}
+
+export const TRANSLATE_LANGUAGES = [
+  { value: 'English', label: 'English' },
+  { value: 'Spanish', label: 'Spanish' },
+  { value: 'French', label: 'French' },
+  { value: 'German', label: 'German' },
+  { value: 'Portuguese', label: 'Portuguese' },
+  { value: 'Hindi', label: 'Hindi' },
+  { value: 'Arabic', label: 'Arabic' },
+  { value: 'Chinese (Simplified)', label: 'Chinese (Simplified)' },
+]
+
+export const AI_REWRITE_ACTIONS: AIRewriteAction[] = [
+  { id: 'rewrite', label: 'Rewrite' },
+  { id: 'shorten', label: 'Shorten' },
+  { id: 'expand', label: 'Expand' },
+  { id: 'grammar', label: 'Fix grammar' },
+  { id: 'tone', label: 'Change tone', options: TONE_OPTIONS },
+  { id: 'translate', label: 'Translate', options: TRANSLATE_LANGUAGES },
+  { id: 'summarize', label: 'Summarize' },
+]
+
+const INSTRUCTIONS: Record<AIRewriteActionId, (option?: string) => string> = {
+  rewrite: () => 'Rewrite the text so it reads more clearly and naturally while keeping the same meaning and length.',
+  shorten: () => 'Make the text noticeably shorter (about half the length) while keeping the key points.',
+  expand: () => 'Expand the text with more detail, examples or explanation (about twice the length) without changing its meaning.',
+  grammar: () => 'Fix spelling, grammar and punctuation only. Do not change wording otherwise.',
+  tone: option => `Rewrite the text in a ${option || TONE_OPTIONS[0].value} tone, keeping the same meaning.`,
+  translate: option => `Translate the text into ${option || 'English'}.`,
+  summarize: () => 'Summarize the text in a few sentences.',
+}
+
+export const rewriteActionLabel = (actionId: AIRewriteActionId, option?: string) => {
+  const action = AI_REWRITE_ACTIONS.find(item => item.id === actionId)
+  const optionLabel = action?.options?.find(item => item.value === option)?.label
+  return optionLabel ? `${action?.label}: ${optionLabel}` : action?.label || actionId
+}
+
+export const buildRewritePrompt = (actionId: AIRewriteActionId, html: string, option?: string) =>
+  `${INSTRUCTIONS[actionId](option)}
+
+The text is an HTML fragment selected inside a larger article. Keep existing inline formatting, links and list structure where it still makes sense.
+Return only the resulting HTML fragment, with no commentary, explanations or code fences.
+
+Text:
+${html}`
@@ -0,0 +1,97 @@
+import type { Contact, ContactFilters, ContactReply, ContactStatus } from '../types'
+import { toCsv } from './csv'
+
+type ChipColor = 'default' | 'primary' | 'secondary' | 'error' | 'info' | 'success' | 'warning'
+
+// Submission URLs come from the public form; only http(s) ones are safe to link
+export const isWebUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+export const CONTACT_STATUSES: ContactStatus[] = ['new', 'contacted', 'qualified', 'closed']
+
+export const CONTACT_STATUS_LABELS: Record<ContactStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  qualified: 'Qualified',
+  closed: 'Closed',
+}
+
+export const CONTACT_STATUS_COLORS: Record<ContactStatus, ChipColor> = {
+  new: 'info',
+  contacted: 'warning',
+  qualified: 'success',
+  closed: 'default',
+}
+
+// Submissions received before follow-up tracking existed have no status yet
+export const getContactStatus = (status?: ContactStatus): ContactStatus => status || 'new'
+
+// Query string for the contacts list; dates are whole local days, both ends inclusive
+export const contactFilterParams = (filters: Partial<ContactFilters>) => {
+  const params: Record<string, string> = {}
+  if (filters.search) params.search = filters.search
+  if (filters.status) params.status = filters.status
+  if (filters.assignee) params.assignee = filters.assignee
+  if (filters.createdFrom) params.createdFrom = new Date(`${filters.createdFrom}T00:00:00`).toISOString()
+  if (filters.createdTo) params.createdTo = new Date(`${filters.createdTo}T23:59:59.999`).toISOString()
+  return params
+}
+
+export const contactsToCsv = (contacts: Contact[]) =>
+  toCsv(
+    ['name', 'email', 'mobile', 'description', 'status', 'assignee', 'notes', 'createdAt'],
+    contacts.map(contact => [
+      contact.name,
+      contact.email,
+      contact.mobile,
+      contact.description,
+      getContactStatus(contact.status),
+      contact.assignee?.username,
+      (contact.notes || []).map(note => note.body).join('\n---\n'),
+      contact.createdAt,
+    ]),
+    // Names and messages come straight from the public form
+    { neutralizeFormulas: true }
+  )
+
+export interface ContactActivity {
+  id: string
+  at: string
+  kind: 'created' | 'status' | 'note' | 'reply'
+  text: string
+  by?: string
+}
+
+// Everything that happened to a contact on one timeline, newest first
+export const contactActivity = (contact: Contact, replies: ContactReply[]): ContactActivity[] =>
+  [
+    { id: 'created', at: contact.createdAt, kind: 'created' as const, text: 'Submitted the form' },
+    ...(contact.statusHistory || []).map((change, index) => ({
+      id: change._id || `status-${index}`,
+      at: change.changedAt,
+      kind: 'status' as const,
+      text: change.from
+        ? `Status changed from ${CONTACT_STATUS_LABELS[change.from]} to ${CONTACT_STATUS_LABELS[change.to]}`
+        : `Status set to ${CONTACT_STATUS_LABELS[change.to]}`,
+      by: change.changedBy,
+    })),
+    ...(contact.notes || []).map(note => ({
+      id: `note-${note._id}`,
+      at: note.createdAt,
+      kind: 'note' as const,
+      text: 'Added a note',
+      by: note.author,
+    })),
+    ...replies.map(reply => ({
+      id: `reply-${reply._id}`,
+      at: reply.sentAt,
+      kind: 'reply' as const,
+      text: `Replied: ${reply.subject}`,
+      by: reply.sentBy,
+    })),
+  ].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
@@ -0,0 +1,78 @@
+const escapeCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+// Arrays are joined with the given separator so they fit in one cell
+export const toCsvCell = (value: unknown, listSeparator = '|') => {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return escapeCell(value.join(listSeparator))
+  return escapeCell(String(value))
+}
+
+// Spreadsheets evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Prefix a quote so Excel and Sheets show the value as text instead of running it
+export const neutralizeFormula = (value: unknown) =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value
+
+interface CsvOptions {
+  // For exports holding untrusted input; skipped where the file must round-trip through parseCsv
+  neutralizeFormulas?: boolean
+}
+
+export const toCsv = (header: string[], rows: unknown[][], options: CsvOptions = {}) => {
+  const cell = (value: unknown) => toCsvCell(options.neutralizeFormulas ? neutralizeFormula(value) : value)
+  return [header.map(cell), ...rows.map(row => row.map(cell))]
+    .map(cells => cells.join(','))
+    .join('\r\n')
+}
+
+// RFC 4180: quoted cells may contain commas, quotes ("") and line breaks
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter(cells => cells.some(value => value.trim() !== ''))
+}
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,92 @@
+export type DiffRowType = 'equal' | 'added' | 'removed' | 'changed'
+
+export interface DiffRow {
+  type: DiffRowType
+  left?: string
+  right?: string
+}
+
+export type DiffMode = 'html' | 'text'
+
+// Break HTML into one line per block-level tag so diffs line up with paragraphs
+const splitHtml = (html: string): string[] =>
+  html
+    .replace(/>\s*</g, '>\n<')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+
+// Strip tags and split readable text into one line per block
+// Parsed in a detached document so handlers in revision HTML (<img onerror>) never run
+export const htmlToText = (html: string): string => {
+  const marked = html
+    .replace(/<\/(p|h[1-6]|li|div|blockquote|tr)>/gi, '</$1>\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+  return new DOMParser().parseFromString(marked, 'text/html').body.textContent || ''
+}
+
+const splitText = (html: string): string[] =>
+  htmlToText(html)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+
+export const splitForDiff = (value: string, mode: DiffMode): string[] =>
+  mode === 'html' ? splitHtml(value) : splitText(value)
+
+// Line diff based on the longest common subsequence of both inputs
+export const diffLines = (left: string[], right: string[]): DiffRow[] => {
+  const n = left.length
+  const m = right.length
+  const lcs = new Uint32Array((n + 1) * (m + 1))
+  const at = (i: number, j: number) => i * (m + 1) + j
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[at(i, j)] = left[i] === right[j]
+        ? lcs[at(i + 1, j + 1)] + 1
+        : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)])
+    }
+  }
+
+  const rows: DiffRow[] = []
+  let removed: string[] = []
+  let added: string[] = []
+
+  // Pair up consecutive removals and additions so they render side by side
+  const flush = () => {
+    const length = Math.max(removed.length, added.length)
+    for (let k = 0; k < length; k++) {
+      const l = removed[k]
+      const r = added[k]
+      rows.push({
+        type: l !== undefined && r !== undefined ? 'changed' : l !== undefined ? 'removed' : 'added',
+        left: l,
+        right: r,
+      })
+    }
+    removed = []
+    added = []
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && left[i] === right[j]) {
+      flush()
+      rows.push({ type: 'equal', left: left[i], right: right[j] })
+      i++
+      j++
+    } else if (j < m && (i === n || lcs[at(i, j + 1)] >= lcs[at(i + 1, j)])) {
+      added.push(right[j++])
+    } else {
+      removed.push(left[i++])
+    }
+  }
+  flush()
+
+  return rows
+}
+
+export const diffValues = (left: string, right: string, mode: DiffMode): DiffRow[] =>
+  diffLines(splitForDiff(left || '', mode), splitForDiff(right || '', mode))
@@ -0,0 +1,7 @@
+// The list's Duplicate action opens the create form with ?duplicate=<source id>
+export const DUPLICATE_PARAM = 'duplicate'
+
+export const duplicatePath = (listPath: string, id: string) =>
+  `${listPath}/new?${DUPLICATE_PARAM}=${encodeURIComponent(id)}`
+
+export const copyTitle = (title?: string) => (title ? `Copy of ${title}` : 'Copy')
@@ -0,0 +1,32 @@
+import type { CreatePageData } from '../types'
+
+export const PAGE_FIELD_LABELS: Partial<Record<keyof CreatePageData, string>> = {
+  title: 'Title',
+  slug: 'Slug',
+  description: 'Description',
+  imageUrl: 'Image URL',
+  thumbnailUrl: 'Thumbnail URL',
+  groups: 'Groups',
+  popular: 'Popular',
+  tags: 'Tags',
+  category: 'Category',
+  readTime: 'Read Time',
+  status: 'Status',
+  publishAt: 'Publish At',
+  metaTitle: 'Meta Title',
+  metaDescription: 'Meta Description',
+  metaKeywords: 'Meta Keywords',
+  content: 'Content',
+}
+
+export const fieldToText = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+// Fields whose value differs between two copies of the page form
+export const changedPageFields = (a: CreatePageData, b: CreatePageData) =>
+  (Object.keys(PAGE_FIELD_LABELS) as Array<keyof CreatePageData>).filter(
+    key => fieldToText(a[key]) !== fieldToText(b[key])
+  )
@@ -0,0 +1,82 @@
+import * as yup from 'yup'
+import type { CreatePageData, PageStatus } from '../types'
+import { PAGE_STATUSES } from './pageStatus'
+
+// Shared by the page form and the page import wizard. Groups come from the taxonomy
+// admin; until they have loaded any slug is accepted and the server has the final say.
+export const createPageSchema = (groupSlugs: string[]) => yup.object({
+  title: yup
+    .string()
+    .required('Title is required')
+    .max(200, 'Title cannot be more than 200 characters'),
+  description: yup
+    .string()
+    .required('Description is required')
+    .max(500, 'Description cannot be more than 500 characters'),
+  imageUrl: yup
+    .string()
+    .required('Image URL is required')
+    .url('Must be a valid URL'),
+  thumbnailUrl: yup
+    .string()
+    .required('Thumbnail URL is required')
+    .url('Must be a valid URL'),
+  audioUrl: yup.string().optional(),
+  groups: yup
+    .array()
+    .of(
+      groupSlugs.length
+        ? yup.string().required().oneOf(groupSlugs, 'Invalid group option')
+        : yup.string().required()
+    )
+    .defined()
+    .default([])
+    .max(10, 'Cannot have more than 10 groups'),
+
+  slug: yup
+    .string()
+    .optional()
+    .max(100, 'Slug cannot be more than 100 characters')
+    .matches(
+      /^[a-z0-9-]*$/,
+      'Slug can only contain lowercase letters, numbers, and hyphens'
+    ),
+  content: yup.string(),
+  metaTitle: yup
+    .string()
+    .optional()
+    .max(60, 'Meta title cannot be more than 60 characters'),
+  metaDescription: yup
+    .string()
+    .optional()
+    .max(160, 'Meta description cannot be more than 160 characters'),
+  metaKeywords: yup
+    .string()
+    .optional()
+    .max(255, 'Meta keywords cannot be more than 255 characters'),
+  popular: yup
+    .boolean()
+    .optional(),
+  tags: yup
+    .array()
+    .of(yup.string().required())
+    .default([])
+    .max(20, 'Cannot have more than 20 tags'),
+  category: yup
+    .string()
+    .optional()
+    .max(100, 'Category cannot be more than 100 characters'),
+  readTime: yup
+    .number()
+    .optional()
+    .min(1, 'Read time must be at least 1 minute')
+    .max(999, 'Read time cannot exceed 999 minutes')
+    .integer('Read time must be a whole number'),
+  status: yup
+    .mixed<PageStatus>()
+    .optional()
+    .oneOf(PAGE_STATUSES, 'Invalid status'),
+  publishAt: yup.string().optional(),
+}) satisfies yup.ObjectSchema<CreatePageData>
+
+export type PageSchema = ReturnType<typeof createPageSchema>
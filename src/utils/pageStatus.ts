@@ -0,0 +1,40 @@
+import type { PageStatus } from '../types'
+
+type ChipColor = 'default' | 'primary' | 'secondary' | 'error' | 'info' | 'success' | 'warning'
+
+export const PAGE_STATUSES: PageStatus[] = ['draft', 'in_review', 'scheduled', 'published', 'archived']
+
+export const PAGE_STATUS_LABELS: Record<PageStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+}
+
+export const PAGE_STATUS_COLORS: Record<PageStatus, ChipColor> = {
+  draft: 'default',
+  in_review: 'info',
+  scheduled: 'warning',
+  published: 'success',
+  archived: 'secondary',
+}
+
+// Pages created before the lifecycle existed come back without a status and are live
+export const getPageStatus = (status?: PageStatus): PageStatus => status || 'published'
+
+// Convert an ISO timestamp to the value format expected by <input type="datetime-local">
+export const toDateTimeLocal = (iso?: string): string => {
+  if (!iso) return ''
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return ''
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+// Convert a datetime-local value (local time) back to an ISO timestamp
+export const fromDateTimeLocal = (value?: string): string | undefined => {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date.toISOString()
+}
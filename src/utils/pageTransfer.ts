@@ -0,0 +1,122 @@
+import { ValidationError } from 'yup'
+import type { CreatePageData, Page } from '../types'
+import type { PageSchema } from './pageSchema'
+import { toCsv, parseCsv } from './csv'
+
+export type PageExportFormat = 'json' | 'csv'
+
+// Columns in export files, in order; import accepts the same names
+export const PAGE_TRANSFER_FIELDS: Array<keyof CreatePageData> = [
+  'title',
+  'slug',
+  'description',
+  'status',
+  'publishAt',
+  'groups',
+  'tags',
+  'category',
+  'popular',
+  'readTime',
+  'imageUrl',
+  'thumbnailUrl',
+  'audioUrl',
+  'metaTitle',
+  'metaDescription',
+  'metaKeywords',
+  'content',
+]
+
+const LIST_FIELDS: Array<keyof CreatePageData> = ['groups', 'tags']
+// Groups and tags share one CSV cell, see toCsvCell
+const LIST_SEPARATOR = '|'
+
+export const toPageData = (page: Page): CreatePageData => {
+  const data: Record<string, unknown> = {}
+  PAGE_TRANSFER_FIELDS.forEach(field => {
+    if (page[field] !== undefined && page[field] !== null) data[field] = page[field]
+  })
+  return data as unknown as CreatePageData
+}
+
+export const pagesToJson = (pages: Page[]) => JSON.stringify(pages.map(toPageData), null, 2)
+
+export const pagesToCsv = (pages: Page[]) =>
+  toCsv(
+    PAGE_TRANSFER_FIELDS,
+    pages.map(page => PAGE_TRANSFER_FIELDS.map(field => page[field]))
+  )
+
+// CSV cells are all strings; turn them back into the shapes the schema expects
+const fromCsvRecord = (record: Record<string, string>) => {
+  const data: Record<string, unknown> = {}
+  Object.entries(record).forEach(([key, raw]) => {
+    const value = raw.trim()
+    if (LIST_FIELDS.includes(key as keyof CreatePageData)) {
+      data[key] = value ? value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean) : []
+    } else if (key === 'popular') {
+      data[key] = ['true', 'yes', '1'].includes(value.toLowerCase())
+    } else if (value !== '') {
+      data[key] = key === 'content' ? raw : value
+    }
+  })
+  return data
+}
+
+// Read an export file (or a hand-made one) into plain records, one per page
+export const parsePageFile = (fileName: string, text: string): Record<string, unknown>[] => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(text)
+    const records = Array.isArray(parsed) ? parsed : parsed?.pages
+    if (!Array.isArray(records)) {
+      throw new Error('JSON file must contain an array of pages')
+    }
+    // null means "not set"; the schema only accepts missing optional fields
+    return records.map(record =>
+      Object.fromEntries(Object.entries(record ?? {}).filter(([, value]) => value !== null))
+    )
+  }
+
+  const [header, ...rows] = parseCsv(text)
+  if (!header) throw new Error('CSV file is empty')
+  const columns = header.map(column => column.trim())
+  if (!columns.includes('title')) {
+    throw new Error('CSV file must have a header row with at least a "title" column')
+  }
+  return rows.map(cells =>
+    fromCsvRecord(Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])))
+  )
+}
+
+export interface PageImportRow {
+  index: number
+  title: string
+  slug?: string
+  data: CreatePageData | null
+  errors: string[]
+}
+
+export const validatePageRecords = (
+  records: Record<string, unknown>[],
+  pageSchema: PageSchema
+): Promise<PageImportRow[]> =>
+  Promise.all(
+    records.map(async (record, index) => {
+      const title = typeof record.title === 'string' ? record.title : ''
+      const slug = typeof record.slug === 'string' && record.slug ? record.slug : undefined
+      try {
+        const data = await pageSchema.validate(record, { abortEarly: false, stripUnknown: true })
+        return { index, title, slug, data: data as CreatePageData, errors: [] }
+      } catch (error) {
+        const errors = error instanceof ValidationError ? error.errors : [String(error)]
+        return { index, title, slug, data: null, errors }
+      }
+    })
+  )
+
+// First free slug of the form slug, slug-2, slug-3...
+export const uniqueSlug = (slug: string, taken: Set<string>) => {
+  if (!taken.has(slug)) return slug
+  let suffix = 2
+  while (taken.has(`${slug}-${suffix}`)) suffix++
+  return `${slug}-${suffix}`
+}
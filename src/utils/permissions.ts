@@ -0,0 +1,52 @@
+import type { Permission, UserRole } from '../types'
+
+export const USER_ROLES: UserRole[] = ['admin', 'editor', 'author', 'viewer']
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  editor: 'Editor',
+  author: 'Author',
+  viewer: 'Viewer',
+}
+
+const AUTHOR_PERMISSIONS: Permission[] = [
+  'pages.create',
+  'pages.edit',
+  'tracks.edit',
+  'playlists.edit',
+  'media.upload',
+]
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  ...AUTHOR_PERMISSIONS,
+  'pages.publish',
+  'pages.delete',
+  'tracks.delete',
+  'playlists.delete',
+  'contacts.view',
+  'contacts.edit',
+  'contacts.delete',
+  'media.delete',
+  'promptTemplates.manage',
+  'groups.manage',
+  'taxonomy.manage',
+  'redirects.manage',
+]
+
+// Viewers can browse content but not change anything
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [...EDITOR_PERMISSIONS, 'users.manage', 'trash.manage'],
+  editor: EDITOR_PERMISSIONS,
+  author: AUTHOR_PERMISSIONS,
+  viewer: [],
+}
+
+export const isKnownRole = (role?: string | null): role is UserRole =>
+  USER_ROLES.includes((role || '').trim().toLowerCase() as UserRole)
+
+// Accounts with a missing or unrecognised role get the least privileged one
+export const normalizeRole = (role?: string | null): UserRole =>
+  isKnownRole(role) ? (role.trim().toLowerCase() as UserRole) : 'viewer'
+
+export const roleHasPermission = (role: string | null | undefined, permission: Permission) =>
+  ROLE_PERMISSIONS[normalizeRole(role)].includes(permission)
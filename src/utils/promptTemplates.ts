@@ -0,0 +1,147 @@
+import type { PromptContentType, PromptTemplate } from '../types'
+
+export interface PromptVariables {
+  title?: string
+  description?: string
+  references?: string
+  // Page group; filled in by the page form only
+  group?: string
+  // Track category; filled in by the track form only
+  category?: string
+  tone?: string
+  length?: string
+}
+
+export const PROMPT_VARIABLES: Array<keyof PromptVariables> = ['title', 'description', 'references', 'group', 'category', 'tone', 'length']
+
+export const TONE_OPTIONS = [
+  { value: 'friendly, expert, modern, and conversational', label: 'Friendly expert' },
+  { value: 'professional and authoritative', label: 'Professional' },
+  { value: 'warm, empathetic, and reassuring', label: 'Empathetic' },
+  { value: 'concise, direct, and practical', label: 'Direct' },
+  { value: 'playful and energetic', label: 'Playful' },
+]
+
+export const LENGTH_OPTIONS = [
+  { value: 'around 600 words', label: 'Short' },
+  { value: 'around 1200 words', label: 'Medium' },
+  { value: 'around 2000 words', label: 'Long' },
+]
+
+export const PROMPT_CONTENT_TYPE_LABELS: Record<PromptContentType, string> = {
+  page: 'Page article',
+  track: 'Track description',
+}
+
+const BUILTIN_DATE = '1970-01-01T00:00:00.000Z'
+
+// Shipped defaults, always available even before anyone creates templates on the server
+export const BUILTIN_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    _id: 'builtin-page-article',
+    name: 'Long-form article',
+    description: 'SEO-friendly HTML blog article',
+    contentType: 'page',
+    version: 1,
+    builtIn: true,
+    createdAt: BUILTIN_DATE,
+    updatedAt: BUILTIN_DATE,
+    body: `You are an expert content writer who specializes in creating engaging, high-quality, SEO-friendly blog articles that feel natural, human, and story-driven.
+
+Your task:
+Create a fully polished, well-structured, professional blog article in clean HTML.
+
+---------------------------------------
+🔶 STRUCTURE REQUIREMENTS
+---------------------------------------
+1. Begin with the title inside an <h1> tag
+2. Add a compelling introduction (<p>) that hooks the reader
+3. Create 4–6 major sections using <h2> tags
+4. Add <h3> subsections when needed for clarity
+5. Use <p> for all paragraphs
+6. Use <ul><li> or <ol><li> lists for steps, best practices, key points
+7. Use <strong> and <em> for highlights
+8. Add real-world examples, scenarios, or case-style explanations
+9. Add transitions between sections so the flow feels human
+10. End with a strong conclusion that summarizes and encourages action
+
+---------------------------------------
+🔶 CONTENT GUIDELINES
+---------------------------------------
+- The tone must be {{tone}}
+- Avoid robotic or repetitive phrasing
+- Ensure the article feels engaging and reader-first
+- Include insights, tips, warnings, and common mistakes
+- Make the article informational, valuable, and enjoyable
+- Keep paragraphs short and readable
+- Maintain SEO-friendly structure (headings, semantic clarity, key phrases)
+- Target length: {{length}}
+{{#group}}- The article belongs to the "{{group}}" section of the site
+{{/group}}
+---------------------------------------
+🔶 OUTPUT RULES
+---------------------------------------
+- Output pure HTML only
+- No markdown, no code blocks, no backticks
+- Do NOT say anything extra — only output the HTML article
+
+---------------------------------------
+🔶 INPUT
+---------------------------------------
+Title: "{{title}}"
+Description: "{{description}}"
+{{#references}}Additional References: {{references}}{{/references}}
+`,
+  },
+  {
+    _id: 'builtin-track-description',
+    name: 'Track description',
+    description: 'Short description for an audio track',
+    contentType: 'track',
+    version: 1,
+    builtIn: true,
+    createdAt: BUILTIN_DATE,
+    updatedAt: BUILTIN_DATE,
+    body: `Generate a compelling and concise description for a track with the following title. The description should be engaging, highlight key themes or features, and be suitable for an audio track. Keep it under 500 characters.
+
+Title: "{{title}}"
+{{#category}}Category: {{category}}
+{{/category}}{{#description}}Notes: {{description}}
+{{/description}}
+Make it sound {{tone}}.`,
+  },
+]
+
+export const DEFAULT_PROMPT_VARIABLES: Required<Pick<PromptVariables, 'tone' | 'length'>> = {
+  tone: TONE_OPTIONS[0].value,
+  length: LENGTH_OPTIONS[1].value,
+}
+
+// Server templates first, then built-ins, for one content type
+export const templatesFor = (templates: PromptTemplate[], contentType: PromptContentType): PromptTemplate[] => [
+  ...templates.filter(template => template.contentType === contentType),
+  ...BUILTIN_PROMPT_TEMPLATES.filter(template => template.contentType === contentType),
+]
+
+export const defaultTemplateFor = (templates: PromptTemplate[], contentType: PromptContentType): PromptTemplate => {
+  const available = templatesFor(templates, contentType)
+  return available.find(template => template.isDefault) || available[0]
+}
+
+// Mustache-style rendering: {{name}} inserts a variable, {{#name}}...{{/name}} keeps the
+// block only when the variable is non-empty
+export const renderPromptTemplate = (body: string, variables: PromptVariables): string => {
+  const values: PromptVariables = { ...DEFAULT_PROMPT_VARIABLES }
+  ;(Object.keys(variables) as Array<keyof PromptVariables>).forEach(name => {
+    if (variables[name]) values[name] = variables[name]
+  })
+  return body
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, block: string) =>
+      values[name as keyof PromptVariables]?.trim() ? block : ''
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => values[name as keyof PromptVariables]?.trim() || '')
+}
+
+// Variables referenced by a template body, for showing editors what they can fill in
+export const templateVariables = (body: string): string[] =>
+  Array.from(new Set(Array.from(body.matchAll(/\{\{[#/]?(\w+)\}\}/g), match => match[1])))
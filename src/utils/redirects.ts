@@ -0,0 +1,103 @@
+import type { CreateRedirectData, Redirect, RedirectStatusCode } from '../types'
+import { parseCsv, toCsv } from './csv'
+
+export const REDIRECT_STATUS_CODES: RedirectStatusCode[] = [301, 302]
+
+export const REDIRECT_STATUS_LABELS: Record<RedirectStatusCode, string> = {
+  301: '301 Permanent',
+  302: '302 Temporary',
+}
+
+// Chains longer than this are treated as broken when testing
+const MAX_HOPS = 10
+
+// Public site path of a page; pages are served from the site root by slug
+export const pagePath = (slug: string) => `/${slug}`
+
+const isAbsoluteUrl = (value: string) => /^https?:\/\//i.test(value)
+
+// Leading slash, no trailing slash (except the root); absolute URLs are kept as typed
+export const normalizeRedirectPath = (value: string) => {
+  const trimmed = value.trim()
+  if (!trimmed || isAbsoluteUrl(trimmed)) return trimmed
+  const path = trimmed.startsWith('/') ? trimmed : `/${trimmed}`
+  return path.length > 1 ? path.replace(/\/+$/, '') : path
+}
+
+export interface RedirectResolution {
+  hops: Redirect[]
+  finalPath: string
+  loop: boolean
+  tooLong: boolean
+}
+
+// Follow the rules from a path the way the site would, stopping at loops
+export const resolveRedirect = (path: string, rules: Pick<Redirect, 'from' | 'to'>[]): RedirectResolution => {
+  const hops: Redirect[] = []
+  const visited = new Set<string>()
+  let current = normalizeRedirectPath(path)
+  while (hops.length < MAX_HOPS) {
+    if (visited.has(current)) return { hops, finalPath: current, loop: true, tooLong: false }
+    visited.add(current)
+    const rule = rules.find(item => item.from === current)
+    if (!rule) return { hops, finalPath: current, loop: false, tooLong: false }
+    hops.push(rule as Redirect)
+    current = rule.to
+  }
+  return { hops, finalPath: current, loop: false, tooLong: true }
+}
+
+// Problems with a rule before it is saved; excludeId is the rule being edited
+export const validateRedirect = (data: CreateRedirectData, rules: Redirect[], excludeId?: string): string[] => {
+  const errors: string[] = []
+  const others = rules.filter(rule => rule._id !== excludeId)
+  if (!data.from.startsWith('/')) errors.push('Source must be a path starting with /')
+  if (!data.to.startsWith('/') && !isAbsoluteUrl(data.to)) {
+    errors.push('Destination must be a path starting with / or a full http(s) URL')
+  }
+  if (data.from === data.to) errors.push('Source and destination are the same')
+  if (others.some(rule => rule.from === data.from)) errors.push(`A redirect from ${data.from} already exists`)
+  if (!errors.length && resolveRedirect(data.to, [...others, data]).loop) {
+    errors.push('This rule would create a redirect loop')
+  }
+  return errors
+}
+
+export interface RedirectImportRow {
+  line: number
+  data: CreateRedirectData
+  errors: string[]
+}
+
+// CSV with from,to and an optional statusCode column (defaults to 301)
+export const parseRedirectCsv = (text: string): RedirectImportRow[] => {
+  const [header, ...rows] = parseCsv(text)
+  const columns = (header || []).map(column => column.trim().toLowerCase())
+  const fromIndex = columns.indexOf('from')
+  const toIndex = columns.indexOf('to')
+  const codeIndex = columns.indexOf('statuscode')
+  if (fromIndex === -1 || toIndex === -1) {
+    throw new Error('CSV file must have a header row with "from" and "to" columns')
+  }
+  return rows
+    .filter(cells => cells.some(cell => cell.trim()))
+    .map((cells, index) => {
+      const rawCode = codeIndex === -1 ? '' : (cells[codeIndex] || '').trim()
+      const statusCode = (rawCode ? Number(rawCode) : 301) as RedirectStatusCode
+      const data: CreateRedirectData = {
+        from: normalizeRedirectPath(cells[fromIndex] || ''),
+        to: normalizeRedirectPath(cells[toIndex] || ''),
+        statusCode,
+        source: 'import',
+      }
+      const errors = REDIRECT_STATUS_CODES.includes(statusCode) ? [] : [`Unsupported status code "${rawCode}"`]
+      // The header is line 1
+      return { line: index + 2, data, errors }
+    })
+}
+
+export const redirectsToCsv = (rules: Redirect[]) =>
+  toCsv(
+    ['from', 'to', 'statusCode'],
+    rules.map(rule => [rule.from, rule.to, rule.statusCode])
+  )
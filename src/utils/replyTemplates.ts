@@ -0,0 +1,72 @@
+import type { Contact, ReplyTemplate } from '../types'
+
+export type ReplyMergeField = 'name' | 'firstName' | 'email' | 'description'
+
+export const REPLY_MERGE_FIELDS: { field: ReplyMergeField; label: string }[] = [
+  { field: 'name', label: 'Full name' },
+  { field: 'firstName', label: 'First name' },
+  { field: 'email', label: 'Email' },
+  { field: 'description', label: 'Their message' },
+]
+
+const BUILTIN_DATE = '1970-01-01T00:00:00.000Z'
+
+// Shipped defaults, always available even before anyone saves templates on the server
+export const BUILTIN_REPLY_TEMPLATES: ReplyTemplate[] = [
+  {
+    _id: 'builtin-reply-thanks',
+    name: 'Thanks for reaching out',
+    subject: 'Thanks for getting in touch, {{firstName}}',
+    body: `Hi {{firstName}},
+
+Thank you for contacting us. We have received your message:
+
+"{{description}}"
+
+One of our team will get back to you within one business day.
+
+Best regards`,
+    builtIn: true,
+    createdAt: BUILTIN_DATE,
+    updatedAt: BUILTIN_DATE,
+  },
+  {
+    _id: 'builtin-reply-follow-up',
+    name: 'Follow-up call',
+    subject: 'Following up on your enquiry',
+    body: `Hi {{firstName}},
+
+Thanks again for your interest. Would you have 15 minutes this week for a quick call to go over your questions?
+
+Just reply with a time that suits you.
+
+Best regards`,
+    builtIn: true,
+    createdAt: BUILTIN_DATE,
+    updatedAt: BUILTIN_DATE,
+  },
+]
+
+const mergeValues = (contact: Contact): Record<ReplyMergeField, string> => ({
+  name: contact.name,
+  firstName: contact.name.trim().split(/\s+/)[0] || contact.name,
+  email: contact.email,
+  description: contact.description,
+})
+
+// Fill {{field}} placeholders with the contact's details; unknown fields are left as typed
+export const renderReplyTemplate = (text: string, contact: Contact): string => {
+  const values = mergeValues(contact)
+  return text.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    // Own keys only: `in` would also match inherited ones like {{constructor}}
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name as ReplyMergeField] : match
+  )
+}
+
+// Placeholders that will not be filled in, so the composer can warn before sending
+export const unknownMergeFields = (text: string): string[] => {
+  const known = REPLY_MERGE_FIELDS.map(({ field }) => field as string)
+  return Array.from(
+    new Set(Array.from(text.matchAll(/\{\{(\w+)\}\}/g), match => match[1]).filter(name => !known.includes(name)))
+  )
+}
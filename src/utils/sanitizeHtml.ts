@@ -0,0 +1,26 @@
+// Elements that can run script or pull in another document
+const BLOCKED_TAGS = 'script, iframe, object, embed, frame, frameset, base, meta, link, style, template'
+
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href', 'srcdoc']
+
+// Strip anything executable from HTML that did not come from the editor itself (AI output,
+// pasted selections); parsing in a detached document keeps handlers from firing meanwhile
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(html || '', 'text/html')
+  doc.body.querySelectorAll(BLOCKED_TAGS).forEach(node => node.remove())
+  doc.body.querySelectorAll('*').forEach(element => {
+    Array.from(element.attributes).forEach(attribute => {
+      const name = attribute.name.toLowerCase()
+      // Browsers ignore whitespace and control characters inside a scheme (java\tscript:)
+      const value = Array.from(attribute.value).filter(char => char.charCodeAt(0) > 32).join('').toLowerCase()
+      if (
+        name.startsWith('on') ||
+        (URL_ATTRIBUTES.includes(name) &&
+          (value.startsWith('javascript:') || value.startsWith('vbscript:') || (value.startsWith('data:') && !value.startsWith('data:image/'))))
+      ) {
+        element.removeAttribute(attribute.name)
+      }
+    })
+  })
+  return doc.body.innerHTML
+}
@@ -0,0 +1,184 @@
+import type { CreatePageData } from '../types'
+
+export const META_TITLE_MAX = 60
+export const META_DESCRIPTION_MAX = 160
+const META_TITLE_MIN = 30
+const META_DESCRIPTION_MIN = 70
+const WORDS_PER_MINUTE = 200
+
+export type SeoCheckStatus = 'pass' | 'warn' | 'fail'
+
+export interface SeoCheck {
+  id: string
+  label: string
+  status: SeoCheckStatus
+  message: string
+}
+
+export interface SeoReport {
+  score: number // 0-100
+  focusKeyword: string
+  checks: SeoCheck[]
+}
+
+export interface SeoSuggestion {
+  metaTitle: string
+  metaDescription: string
+  metaKeywords: string
+  tags: string[]
+  category: string
+  readTime: number
+}
+
+type SeoInput = Pick<CreatePageData, 'title' | 'content' | 'metaTitle' | 'metaDescription' | 'metaKeywords'>
+
+const CHECK_WEIGHTS: Record<SeoCheckStatus, number> = { pass: 1, warn: 0.5, fail: 0 }
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(html || '', 'text/html')
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim()
+
+// First meta keyword is treated as the focus keyword
+export const focusKeywordOf = (metaKeywords?: string) =>
+  (metaKeywords || '').split(',').map(keyword => keyword.trim()).find(Boolean) || ''
+
+export const estimateReadTime = (html?: string) => {
+  const words = (parseHtml(html || '').body.textContent || '').split(/\s+/).filter(Boolean).length
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE))
+}
+
+const lengthCheck = (id: string, label: string, value: string | undefined, min: number, max: number): SeoCheck => {
+  const length = (value || '').trim().length
+  if (!length) return { id, label, status: 'fail', message: `${label} is empty` }
+  if (length > max) return { id, label, status: 'fail', message: `${length} characters, keep it under ${max}` }
+  if (length < min) return { id, label, status: 'warn', message: `${length} characters, aim for ${min}-${max}` }
+  return { id, label, status: 'pass', message: `${length} characters` }
+}
+
+const isInternalLink = (href: string) => {
+  if (href.startsWith('/') && !href.startsWith('//')) return true
+  try {
+    return new URL(href, window.location.href).host === window.location.host
+  } catch {
+    return false
+  }
+}
+
+export const analyzeSeo = (input: SeoInput): SeoReport => {
+  const doc = parseHtml(input.content || '')
+  const focusKeyword = focusKeywordOf(input.metaKeywords)
+  const keyword = normalize(focusKeyword)
+  const checks: SeoCheck[] = []
+
+  checks.push(lengthCheck('meta-title', 'Meta title', input.metaTitle, META_TITLE_MIN, META_TITLE_MAX))
+  checks.push(lengthCheck('meta-description', 'Meta description', input.metaDescription, META_DESCRIPTION_MIN, META_DESCRIPTION_MAX))
+
+  const headings = Array.from(doc.body.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+  const headingText = headings.map(heading => normalize(heading.textContent || ''))
+
+  if (!keyword) {
+    checks.push({ id: 'keyword', label: 'Focus keyword', status: 'fail', message: 'Add meta keywords; the first one is the focus keyword' })
+  } else {
+    const inHeadings = headingText.some(text => text.includes(keyword))
+    checks.push({
+      id: 'keyword-headings',
+      label: 'Keyword in headings',
+      status: inHeadings ? 'pass' : 'fail',
+      message: inHeadings ? `"${focusKeyword}" appears in a heading` : `"${focusKeyword}" is not used in any heading`,
+    })
+    const inMeta = normalize(`${input.metaTitle || ''} ${input.metaDescription || ''}`).includes(keyword)
+    checks.push({
+      id: 'keyword-meta',
+      label: 'Keyword in meta',
+      status: inMeta ? 'pass' : 'warn',
+      message: inMeta ? 'Used in the meta title or description' : 'Not used in the meta title or description',
+    })
+  }
+
+  // Heading structure: one H1 at most, at least one H2, no skipped levels
+  const levels = headings.map(heading => Number(heading.tagName[1]))
+  const h1Count = levels.filter(level => level === 1).length
+  const skipped = levels.some((level, index) => index > 0 && level > levels[index - 1] + 1)
+  const structureProblems = [
+    h1Count > 1 && `${h1Count} H1 headings`,
+    !levels.includes(2) && 'no H2 sections',
+    skipped && 'skipped heading levels',
+  ].filter(Boolean)
+  checks.push({
+    id: 'headings',
+    label: 'Heading structure',
+    status: !headings.length ? 'fail' : structureProblems.length ? 'warn' : 'pass',
+    message: !headings.length ? 'Content has no headings' : structureProblems.length ? `Found ${structureProblems.join(', ')}` : `${headings.length} headings, well nested`,
+  })
+
+  const images = Array.from(doc.body.querySelectorAll('img'))
+  const missingAlt = images.filter(image => !(image.getAttribute('alt') || '').trim()).length
+  checks.push({
+    id: 'image-alt',
+    label: 'Image alt text',
+    status: missingAlt ? 'fail' : 'pass',
+    message: !images.length ? 'No images in content' : missingAlt ? `${missingAlt} of ${images.length} images missing alt text` : `All ${images.length} images have alt text`,
+  })
+
+  const internalLinks = Array.from(doc.body.querySelectorAll('a[href]')).filter(link => isInternalLink(link.getAttribute('href') || ''))
+  checks.push({
+    id: 'internal-links',
+    label: 'Internal links',
+    status: internalLinks.length ? 'pass' : 'warn',
+    message: internalLinks.length ? `${internalLinks.length} internal links` : 'Link to at least one related page',
+  })
+
+  const score = Math.round((checks.reduce((total, check) => total + CHECK_WEIGHTS[check.status], 0) / checks.length) * 100)
+
+  return { score, focusKeyword, checks }
+}
+
+export const buildSeoPrompt = (input: Pick<CreatePageData, 'title' | 'description' | 'content'>) => {
+  const text = (parseHtml(input.content || '').body.textContent || '').replace(/\s+/g, ' ').trim()
+  return `You are an SEO editor. Propose search metadata for the article below.
+
+Respond with JSON only, no commentary, using exactly these keys:
+{
+  "metaTitle": "at most ${META_TITLE_MAX} characters, includes the focus keyword",
+  "metaDescription": "at most ${META_DESCRIPTION_MAX} characters, compelling summary with the focus keyword",
+  "metaKeywords": "comma separated keywords, most important (focus keyword) first",
+  "tags": ["up to 8 short tags"],
+  "category": "a single broad category",
+  "readTime": estimated reading time in whole minutes
+}
+
+Title: "${input.title}"
+Description: "${input.description}"
+Content:
+${text.slice(0, 12000)}`
+}
+
+const clip = (value: unknown, max: number) => String(value ?? '').trim().slice(0, max)
+
+// Models occasionally add prose around the JSON, so pull out the outermost object
+export const parseSeoSuggestion = (text: string, content?: string): SeoSuggestion => {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end <= start) {
+    throw new Error('AI response did not contain SEO metadata')
+  }
+
+  let data: Record<string, unknown>
+  try {
+    data = JSON.parse(text.slice(start, end + 1))
+  } catch {
+    throw new Error('AI returned malformed SEO metadata')
+  }
+
+  const tags = Array.isArray(data.tags) ? data.tags : String(data.tags || '').split(',')
+  const readTime = Math.round(Number(data.readTime))
+
+  return {
+    metaTitle: clip(data.metaTitle, META_TITLE_MAX),
+    metaDescription: clip(data.metaDescription, META_DESCRIPTION_MAX),
+    metaKeywords: clip(data.metaKeywords, 255),
+    tags: Array.from(new Set(tags.map(tag => clip(tag, 50)).filter(Boolean))).slice(0, 20),
+    category: clip(data.category, 100),
+    readTime: readTime >= 1 && readTime <= 999 ? readTime : estimateReadTime(content),
+  }
+}
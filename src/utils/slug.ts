@@ -0,0 +1,8 @@
+// URL-safe slug from a title: lowercase letters, numbers and single hyphens
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .trim()
@@ -0,0 +1,28 @@
+import type { TaxonomyKind, TaxonomyTerm } from '../types'
+
+export const TAXONOMY_KIND_LABELS: Record<TaxonomyKind, string> = {
+  tag: 'Tags',
+  category: 'Categories',
+}
+
+// Collapse stray whitespace so "Cardiology " and "Cardiology" are the same value
+export const normalizeTermName = (value: string) => value.trim().replace(/\s+/g, ' ')
+
+// Key used to spot values that differ only by case or spacing
+export const termKey = (value: string) => normalizeTermName(value).toLowerCase()
+
+// Canonical spelling for a typed value: a term's name or one of its synonyms, otherwise the value itself
+export const resolveTerm = (value: string, terms: TaxonomyTerm[]) => {
+  const key = termKey(value)
+  const match = terms.find(
+    term => termKey(term.name) === key || term.synonyms.some(synonym => termKey(synonym) === key)
+  )
+  return match ? match.name : normalizeTermName(value)
+}
+
+export const totalUsage = (term: TaxonomyTerm) =>
+  term.usage.pages + term.usage.tracks + term.usage.playlists
+
+// Other terms of the same kind that only differ by case or spacing
+export const duplicatesOf = (term: TaxonomyTerm, terms: TaxonomyTerm[]) =>
+  terms.filter(other => other._id !== term._id && other.kind === term.kind && termKey(other.name) === termKey(term.name))
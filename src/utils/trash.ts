@@ -0,0 +1,26 @@
+import type { TrashType } from '../types'
+
+export const TRASH_TYPE_LABELS: Record<TrashType, { singular: string; plural: string }> = {
+  pages: { singular: 'page', plural: 'Pages' },
+  tracks: { singular: 'track', plural: 'Tracks' },
+  playlists: { singular: 'playlist', plural: 'Playlists' },
+  contacts: { singular: 'contact', plural: 'Contacts' },
+}
+
+// Used until the server settings have loaded
+export const DEFAULT_RETENTION_DAYS = 30
+
+export const MAX_RETENTION_DAYS = 365
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const trashListPath = (type: TrashType) => `/${type}`
+
+export const trashPath = (type: TrashType) => `/${type}/trash`
+
+export const purgeDate = (deletedAt: string, retentionDays: number): Date =>
+  new Date(new Date(deletedAt).getTime() + retentionDays * DAY_MS)
+
+// Whole days left before the server purges the item; 0 once it is due
+export const daysUntilPurge = (deletedAt: string, retentionDays: number, now = Date.now()): number =>
+  Math.max(0, Math.ceil((purgeDate(deletedAt, retentionDays).getTime() - now) / DAY_MS))